@@ -1,4 +1,4 @@
-import { ReceiveMode, Namespace, generateUuid, SendableMessageInfo } from "../../lib";
+import { ReceiveMode, Namespace, SendableMessageInfo } from "../../lib";
 import * as dotenv from "dotenv";
 dotenv.config();
 
@@ -11,26 +11,28 @@ let ns: Namespace;
 
 async function main(): Promise<void> {
   ns = Namespace.createFromConnectionString(str);
-  const client = ns.createQueueClient(path, { receiveMode: ReceiveMode.peekLock });
-
-  const duplicateMsgId = generateUuid();
+  // In the idempotency mode the messageId of the messages is derived from their content, so that
+  // sending the same message twice (e.g. after a timeout) results in the same messageId.
+  const client = ns.createQueueClient(path, {
+    receiveMode: ReceiveMode.peekLock,
+    idempotency: true
+  });
 
   const message1: SendableMessageInfo = {
     body: "body of message",
-    timeToLive: 2 * 60 * 1000, // 2 minutes
-    messageId: duplicateMsgId
+    timeToLive: 2 * 60 * 1000 // 2 minutes
   };
 
   const message2: SendableMessageInfo = {
     body: "body of message",
-    timeToLive: 2 * 60 * 1000, // 2 minutes
-    messageId: duplicateMsgId
+    timeToLive: 2 * 60 * 1000 // 2 minutes
   };
 
   console.log("Sending messages");
   // send 2 duplicated messages
-  await client.send(message1);
-  await client.send(message2);
+  const result1 = await client.send(message1);
+  const result2 = await client.send(message2);
+  console.log("MessageIds: %s, %s", result1.messageId, result2.messageId);
 
   console.log("Retrieving messages");
   // try to get two messages from the queue. If the queue has duplicate detection enabled
@@ -6,6 +6,52 @@ import { ConnectionContext } from "./connectionContext";
 import { ClientEntityContext } from "./clientEntityContext";
 import { AmqpError, generate_uuid } from "rhea-promise";
 
+/**
+ * Describes the options that can be provided while closing a client or a Namespace.
+ * @interface CloseOptions
+ */
+export interface CloseOptions {
+  /**
+   * @property {number} [drainTimeoutInMs] The maximum amount of time to wait for the messages
+   * that are being processed by the message handlers and for the messages that are being sent
+   * to complete, before the links are closed. No more messages are received while waiting.
+   * - **Default**: `0` (the links are closed right away).
+   */
+  drainTimeoutInMs?: number;
+}
+
+/**
+ * Describes the operations of a client that were still in progress when it was closed.
+ * @interface DrainResult
+ */
+export interface DrainResult {
+  /**
+   * @property {string} clientId The unique identifier of the client.
+   */
+  clientId: string;
+  /**
+   * @property {string} entityPath The name of the entity (queue, topic, subscription, etc.) that
+   * the client points to.
+   */
+  entityPath: string;
+  /**
+   * @property {boolean} drained Indicates whether all the operations completed before the links
+   * were closed.
+   */
+  drained: boolean;
+  /**
+   * @property {number} pendingSends The number of send operations that were still waiting for
+   * the message to be accepted or rejected.
+   */
+  pendingSends: number;
+  /**
+   * @property {number} pendingMessageHandlers The number of message handlers (including the
+   * auto completion of the message) that were still in progress, including the ones of the
+   * message sessions.
+   */
+  pendingMessageHandlers: number;
+}
+
 /**
  * Describes the base class for a client.
  * @abstract
@@ -43,13 +89,63 @@ export abstract class Client {
 
   /**
    * Closes the client. This is an abstract method.
+   * @param {CloseOptions} [options] The options that can be provided while closing the client.
    */
-  abstract async close(): Promise<void>;
+  abstract async close(options?: CloseOptions): Promise<any>;
+
+  /**
+   * Stops receiving more messages and waits for the message handlers and the send operations
+   * that are in progress to complete. The message sessions are drained as well, and no more
+   * sessions are accepted.
+   * @ignore
+   * @param {number} [drainTimeoutInMs] The maximum amount of time to wait. Default: `0`.
+   * @returns {Promise<DrainResult>} Promise<DrainResult> The operations that were still in
+   * progress when the timeout occurred.
+   */
+  async drain(drainTimeoutInMs?: number): Promise<DrainResult> {
+    if (drainTimeoutInMs == undefined) drainTimeoutInMs = 0;
+    if (typeof drainTimeoutInMs !== "number" || drainTimeoutInMs < 0) {
+      throw new Error(
+        "'drainTimeoutInMs' must be of type 'number' with a value greater than or equal to 0."
+      );
+    }
+    const sender = this._context.sender;
+    const streamingReceiver = this._context.streamingReceiver;
+    // No more sessions are accepted, and the ones that were accepted are drained as well.
+    if (this._context.sessionManager) this._context.sessionManager.close();
+    const messageSessions = Object.keys(this._context.messageSessions).map(
+      (sessionId: string) => this._context.messageSessions[sessionId]
+    );
+    const [pendingSends, ...pendingMessageHandlers] = await Promise.all([
+      sender ? sender.drain(drainTimeoutInMs) : 0,
+      streamingReceiver ? streamingReceiver.drain(drainTimeoutInMs) : 0,
+      ...messageSessions.map((messageSession) => messageSession.drain(drainTimeoutInMs!))
+    ]);
+    const pendingHandlerCount = pendingMessageHandlers.reduce((sum, count) => sum + count, 0);
+    const result: DrainResult = {
+      clientId: this.id,
+      entityPath: this.name,
+      drained: !pendingSends && !pendingHandlerCount,
+      pendingSends: pendingSends,
+      pendingMessageHandlers: pendingHandlerCount
+    };
+    if (!result.drained) {
+      log.error(
+        "[%s] [%s] Operations were still in progress after draining the client: %O.",
+        this._context.namespace.connectionId,
+        this.id,
+        result
+      );
+    }
+    return result;
+  }
 
   /**
    * Will reconnect the client if neccessary.
    * @ignore
    * @param error Error if any
+   * @returns {Promise<void>} Promise<void>. It is rejected with the error if any of the links
+   * of the client could not be re-established.
    */
   async detached(error?: AmqpError | Error): Promise<void> {
     try {
@@ -61,9 +157,20 @@ export abstract class Client {
         this.id,
         err
       );
+      throw err;
     }
   }
 
+  /**
+   * Negotiates the claims of the links of the client again, with the token provider of the
+   * connection.
+   * @ignore
+   * @returns {Promise<void>} Promise<void>
+   */
+  async renewClaims(): Promise<void> {
+    return this._context.renewClaims();
+  }
+
   /**
    * Provides the current type of the Client.
    * @return {string} The entity type.
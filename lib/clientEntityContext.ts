@@ -13,6 +13,7 @@ import { ConcurrentExpiringMap } from "./util/concurrentExpiringMap";
 import { MessageReceiver } from "./core/messageReceiver";
 import { MessageSession } from "./session/messageSession";
 import { SessionManager } from "./session/sessionManager";
+import { IdempotencyOptions } from "./core/idempotency";
 
 /**
  * @interface ClientEntityContext
@@ -70,6 +71,16 @@ export interface ClientEntityContextBase {
    * receiving messages from multiple message sessions.
    */
   sessionManager?: SessionManager;
+  /**
+   * @property {IdempotencyOptions} [idempotency] The options of the idempotency mode, if the
+   * `messageId` of the messages that are sent is derived from the messages.
+   */
+  idempotency?: IdempotencyOptions;
+  /**
+   * @property {string} [viaEntityPath] The name/path of the transfer entity via which the
+   * messages are sent to the entity, if any.
+   */
+  viaEntityPath?: string;
 }
 
 /**
@@ -77,6 +88,7 @@ export interface ClientEntityContextBase {
  */
 export interface ClientEntityContext extends ClientEntityContextBase {
   detached(error?: AmqpError | Error): Promise<void>;
+  renewClaims(): Promise<void>;
   getReceiver(name: string, sessionId?: string): MessageReceiver | MessageSession | undefined;
 }
 
@@ -138,6 +150,8 @@ export namespace ClientEntityContext {
 
     (entityContext as ClientEntityContext).detached = async (error?: AmqpError | Error) => {
       const connectionId = entityContext.namespace.connectionId;
+      // the first error that occurs is re-thrown after attempting to reconnect all the links.
+      let detachError: Error | undefined;
       // reconnect the sender if present
       const sender = entityContext.sender;
       if (sender && !sender.isConnecting) {
@@ -151,6 +165,7 @@ export namespace ClientEntityContext {
             sender.name,
             err
           );
+          if (!detachError) detachError = err;
         }
       }
       // reconnect the batching receiver if present
@@ -170,10 +185,11 @@ export namespace ClientEntityContext {
             batchingReceiver.name,
             err
           );
+          if (!detachError) detachError = err;
         }
       }
       // reconnect the streaming receiver if present
-      const streamingReceiver = entityContext.batchingReceiver;
+      const streamingReceiver = entityContext.streamingReceiver;
       if (streamingReceiver && !streamingReceiver.isConnecting) {
         try {
           log.error(
@@ -189,9 +205,46 @@ export namespace ClientEntityContext {
             streamingReceiver.name,
             err
           );
+          if (!detachError) detachError = err;
+        }
+      }
+      if (detachError) {
+        throw detachError;
+      }
+    };
+    (entityContext as ClientEntityContext).renewClaims = async () => {
+      const connectionId = entityContext.namespace.connectionId;
+      // the first error that occurs is re-thrown after attempting to renew the claims of all the
+      // open links.
+      let renewError: Error | undefined;
+      const links: Array<{ name: string; isOpen(): boolean; renewClaim(): Promise<void> }> = [];
+      if (entityContext.sender) links.push(entityContext.sender);
+      if (entityContext.batchingReceiver) links.push(entityContext.batchingReceiver);
+      if (entityContext.streamingReceiver) links.push(entityContext.streamingReceiver);
+      for (const sessionId of Object.keys(entityContext.messageSessions)) {
+        links.push(entityContext.messageSessions[sessionId]);
+      }
+      if (entityContext.managementClient) links.push(entityContext.managementClient);
+      for (const link of links) {
+        if (!link.isOpen()) continue;
+        try {
+          log.entityCtxt("[%s] Renewing the claim of the link '%s'.", connectionId, link.name);
+          await link.renewClaim();
+        } catch (err) {
+          log.error(
+            "[%s] An error occurred while renewing the claim of the link '%s': %O.",
+            connectionId,
+            link.name,
+            err
+          );
+          if (!renewError) renewError = err;
         }
       }
+      if (renewError) {
+        throw renewError;
+      }
     };
+
     let managementClient = getManagementClient(context.clients, entityPath);
     if (!managementClient) {
       const mOptions: ManagementClientOptions = {
@@ -5,15 +5,102 @@ import * as log from "./log";
 import { packageJsonInfo } from "./util/constants";
 import {
   ConnectionConfig,
-  Constants,
   ConnectionContextBase,
   CreateConnectionContextBaseParameters,
   Dictionary,
+  TokenProvider,
   delay
 } from "@azure/amqp-common";
 import { NamespaceOptions } from "./namespace";
 import { Client } from "./client";
-import { OnAmqpEvent, EventContext, ConnectionEvents } from "rhea-promise";
+import { RetryOptions } from "./util/retry";
+import {
+  ProxyAgent,
+  ProxyOptions,
+  connectThroughProxy,
+  getProxyFromEnvironment
+} from "./util/proxy";
+import { BackoffStrategy, ExponentialBackoffStrategy } from "./util/backoff";
+import { CircuitBreaker } from "./util/circuitBreaker";
+import { EntityManager } from "./management/entityManager";
+import { TransactionCoordinator } from "./core/transaction";
+import { OnAmqpEvent, EventContext, ConnectionEvents, AmqpError, Container } from "rhea-promise";
+
+/**
+ * Describes the states of the AMQP connection that are reported by the Namespace.
+ */
+export enum ConnectionState {
+  /**
+   * The AMQP connection has been opened.
+   */
+  connected = "connected",
+  /**
+   * The AMQP connection has been closed or lost.
+   */
+  disconnected = "disconnected",
+  /**
+   * The AMQP connection was lost unexpectedly and the clients are being reconnected.
+   */
+  reconnecting = "reconnecting",
+  /**
+   * An attempt has been made to reconnect all the clients. The outcome for every client is
+   * provided in `reconnectOutcomes`.
+   */
+  reconnected = "reconnected"
+}
+
+/**
+ * Describes the outcome of reconnecting a client after the AMQP connection was lost.
+ * @interface ClientReconnectOutcome
+ */
+export interface ClientReconnectOutcome {
+  /**
+   * @property {string} clientId The unique identifier of the client.
+   */
+  clientId: string;
+  /**
+   * @property {string} entityPath The name of the entity (queue, topic, subscription, etc.) that
+   * the client points to.
+   */
+  entityPath: string;
+  /**
+   * @property {boolean} succeeded Indicates whether the links of the client were re-established.
+   */
+  succeeded: boolean;
+  /**
+   * @property {Error} [error] The error that occurred while reconnecting the client.
+   */
+  error?: Error;
+}
+
+/**
+ * Describes a transition in the state of the AMQP connection of the Namespace.
+ * @interface ConnectionStateChange
+ */
+export interface ConnectionStateChange {
+  /**
+   * @property {ConnectionState} state The new state of the connection.
+   */
+  state: ConnectionState;
+  /**
+   * @property {string} connectionId The identifier of the AMQP connection.
+   */
+  connectionId: string;
+  /**
+   * @property {number} numClients The number of clients attached to the connection at the time
+   * of the transition.
+   */
+  numClients: number;
+  /**
+   * @property {AmqpError | Error} [error] The error that triggered the transition, if any.
+   */
+  error?: AmqpError | Error;
+  /**
+   * @property {ClientReconnectOutcome[]} [reconnectOutcomes] The outcome of reconnecting every
+   * client. It is set only for the `reconnected` state.
+   */
+  reconnectOutcomes?: ClientReconnectOutcome[];
+}
 
 /**
  * @interface ConnectionContext
@@ -21,13 +108,71 @@ import { OnAmqpEvent, EventContext, ConnectionEvents } from "rhea-promise";
  * tokenProvider, senders, receivers, etc. about the ServiceBus client.
  */
 export interface ConnectionContext extends ConnectionContextBase {
+  /**
+   * @property {TokenProvider} tokenProvider The TokenProvider to be used for getting tokens
+   * for authentication. It is replaced by `updateCredentials()` of the Namespace.
+   */
+  tokenProvider: TokenProvider;
   /**
    * @property {Dictionary<Client>} [clients] A dictionary of servicebus entities for the
    * given amqp connection.
    */
   clients: Dictionary<Client>;
+  /**
+   * @property {RetryOptions} retryOptions The retry policy provided by the user while creating
+   * the Namespace. Properties that are not set fall back to the defaults of the operation.
+   */
+  retryOptions: RetryOptions;
+  /**
+   * @property {number} maxInFlightSends The maximum number of messages that a sender link has
+   * sent without having received their outcome yet.
+   */
+  maxInFlightSends: number;
+  /**
+   * @property {BackoffStrategy} reconnectBackoff The strategy that provides the delay before the
+   * clients are reconnected after the AMQP connection was lost.
+   */
+  reconnectBackoff: BackoffStrategy;
+  /**
+   * @property {number} failedReconnects The number of consecutive attempts to reconnect the
+   * clients that failed. It provides the attempt number to the `reconnectBackoff`.
+   */
+  failedReconnects: number;
+  /**
+   * @property {CircuitBreaker} circuitBreaker Keeps track of the consecutive failures to send
+   * messages and to reconnect on the AMQP connection.
+   */
+  circuitBreaker: CircuitBreaker;
+  /**
+   * @property {ProxyOptions} [proxy] The HTTP proxy through which the AMQP connection and the
+   * requests to the REST API are tunnelled, as provided in the options of the Namespace or by the
+   * `HTTPS_PROXY` environment variable unless the host is excluded by `NO_PROXY`.
+   */
+  proxy?: ProxyOptions;
+  /**
+   * @property {EntityManager} entityManager The EntityManager that is used by the clients to get
+   * the runtime information of their entity.
+   */
+  entityManager: EntityManager;
+  /**
+   * @property {TransactionCoordinator} transactionCoordinator The coordinator that declares and
+   * discharges the transactions on the AMQP connection.
+   */
+  transactionCoordinator: TransactionCoordinator;
+  /**
+   * @property {Function} [onConnectionStateChange] The callback that is notified about the
+   * transitions in the state of the AMQP connection.
+   */
+  onConnectionStateChange?: (change: ConnectionStateChange) => void;
 }
 
+/**
+ * The maximum number of messages that a sender link has sent without having received their
+ * outcome yet, if it is not provided in the NamespaceOptions.
+ * @ignore
+ */
+const defaultMaxInFlightSends: number = 100;
+
 export namespace ConnectionContext {
   /**
    * @property {string} userAgent The user agent string for the ServiceBus client.
@@ -35,6 +180,13 @@ export namespace ConnectionContext {
    */
   export const userAgent: string = "/js-service-bus";
 
+  /**
+   * @property {string} webSocketProtocol The sub-protocol that is used while tunnelling the AMQP
+   * connection over WebSockets.
+   * Constant value: "AMQPWSB10".
+   */
+  export const webSocketProtocol: string = "AMQPWSB10";
+
   export function create(config: ConnectionConfig, options?: NamespaceOptions): ConnectionContext {
     if (!options) options = {};
     const parameters: CreateConnectionContextBaseParameters = {
@@ -51,6 +203,100 @@ export namespace ConnectionContext {
     // Let us create the base context and then add ServiceBus specific ConnectionContext properties.
     const connectionContext = ConnectionContextBase.create(parameters) as ConnectionContext;
     connectionContext.clients = {};
+    connectionContext.retryOptions = options.retryOptions || {};
+    connectionContext.maxInFlightSends = options.maxInFlightSends || defaultMaxInFlightSends;
+    connectionContext.reconnectBackoff =
+      options.reconnectBackoff || new ExponentialBackoffStrategy();
+    connectionContext.failedReconnects = 0;
+    connectionContext.circuitBreaker = new CircuitBreaker(
+      connectionContext.connectionId,
+      connectionContext.reconnectBackoff,
+      async () => {
+        if (!connectionContext.connection.isOpen()) {
+          await connectionContext.connection.open();
+        }
+      },
+      options.circuitBreaker
+    );
+    const proxy = options.proxy || getProxyFromEnvironment(config.host);
+    connectionContext.proxy = proxy;
+    connectionContext.entityManager = new EntityManager(connectionContext, options.entityManager);
+    connectionContext.transactionCoordinator = new TransactionCoordinator(connectionContext);
+    if (options.webSocket) {
+      // Tunnel the connection over WebSockets. The host and the port of the connection are
+      // ignored by rhea when the connection details provide a "connect" function.
+      const url = options.webSocket.url || `wss://${config.host}:443/$servicebus/websocket`;
+      let webSocketConstructorOptions = options.webSocket.webSocketConstructorOptions;
+      if (proxy) {
+        // An agent provided by the user takes precedence over the one for the proxy.
+        webSocketConstructorOptions = {
+          agent: new ProxyAgent(proxy),
+          ...webSocketConstructorOptions
+        };
+      }
+      const webSocketConnect = Container.create().websocketConnect(options.webSocket.webSocketImpl);
+      connectionContext.connection.options.connection_details = webSocketConnect(
+        url,
+        [webSocketProtocol],
+        webSocketConstructorOptions
+      );
+      log.connectionCtxt(
+        "[%s] The connection will be established over WebSockets at '%s'.",
+        connectionContext.connectionId,
+        url
+      );
+    } else if (proxy) {
+      // Establish the TLS connection over the tunnel that is created by the proxy.
+      connectionContext.connection.options.connection_details = () => {
+        return {
+          host: config.host,
+          port: 5671,
+          options: {},
+          connect: (port: number, host: string, connectOptions: any, callback: () => void) => {
+            return connectThroughProxy(proxy, host, port, callback);
+          }
+        };
+      };
+    }
+    if (proxy) {
+      log.connectionCtxt(
+        "[%s] The connection will be tunnelled through the proxy '%s:%d'.",
+        connectionContext.connectionId,
+        proxy.host,
+        proxy.port
+      );
+    }
+
+    const notifyStateChange = (
+      state: ConnectionState,
+      error?: AmqpError | Error,
+      reconnectOutcomes?: ClientReconnectOutcome[]
+    ): void => {
+      const change: ConnectionStateChange = {
+        state: state,
+        connectionId: connectionContext.connectionId,
+        numClients: Object.keys(connectionContext.clients).length,
+        error: error,
+        reconnectOutcomes: reconnectOutcomes
+      };
+      log.connectionCtxt(
+        "[%s] Connection state changed: %O",
+        connectionContext.connectionId,
+        change
+      );
+      if (connectionContext.onConnectionStateChange) {
+        try {
+          connectionContext.onConnectionStateChange(change);
+        } catch (err) {
+          log.error(
+            "[%s] An error occurred while notifying the connection state change '%s': %O.",
+            connectionContext.connectionId,
+            state,
+            err
+          );
+        }
+      }
+    };
 
     // Define listeners to be added to the connection object for
     // "connection_open" and "connection_error" events.
@@ -61,6 +307,7 @@ export namespace ConnectionContext {
         connectionContext.connection.id,
         connectionContext.wasConnectionCloseCalled
       );
+      notifyStateChange(ConnectionState.connected);
     };
 
     const disconnected: OnAmqpEvent = async (context: EventContext) => {
@@ -81,6 +328,8 @@ export namespace ConnectionContext {
           contextError
         );
       }
+      const disconnectError = connectionError || contextError;
+      notifyStateChange(ConnectionState.disconnected, disconnectError);
       const state: Readonly<{
         wasConnectionCloseCalled: boolean;
         numClients: number;
@@ -97,24 +346,50 @@ export namespace ConnectionContext {
             "clients. We should reconnect.",
           connectionContext.connection.id
         );
-        await delay(Constants.connectionReconnectDelay);
-        // reconnect clients if any
-        for (const id of Object.keys(connectionContext.clients)) {
-          const client = connectionContext.clients[id];
-          log.error(
-            "[%s] calling detached on client '%s'.",
-            connectionContext.connection.id,
-            client.id
-          );
-          client.detached(connectionError || contextError).catch((err) => {
-            log.error(
-              "[%s] An error occurred while reconnecting the sender '%s': %O.",
-              connectionContext.connection.id,
-              client.id,
-              err
-            );
-          });
+        notifyStateChange(ConnectionState.reconnecting, disconnectError);
+        const attempt = connectionContext.failedReconnects + 1;
+        // reconnect clients if any, each after its own delay so that they do not reconnect in
+        // lockstep when the strategy adds a jitter.
+        const reconnectOutcomes = await Promise.all(
+          Object.keys(connectionContext.clients).map(async (id: string) => {
+            const client = connectionContext.clients[id];
+            const outcome: ClientReconnectOutcome = {
+              clientId: client.id,
+              entityPath: client.name,
+              succeeded: true
+            };
+            try {
+              const delayInMs = connectionContext.reconnectBackoff.getDelayInMs(attempt);
+              log.error(
+                "[%s] calling detached on client '%s' after %d milliseconds.",
+                connectionContext.connection.id,
+                client.id,
+                delayInMs
+              );
+              await delay(delayInMs);
+              await client.detached(disconnectError);
+            } catch (err) {
+              log.error(
+                "[%s] An error occurred while reconnecting the client '%s': %O.",
+                connectionContext.connection.id,
+                client.id,
+                err
+              );
+              outcome.succeeded = false;
+              outcome.error = err;
+            }
+            return outcome;
+          })
+        );
+        const failedOutcome = reconnectOutcomes.find((outcome) => !outcome.succeeded);
+        if (failedOutcome) {
+          connectionContext.failedReconnects++;
+          connectionContext.circuitBreaker.recordFailure(failedOutcome.error);
+        } else {
+          connectionContext.failedReconnects = 0;
+          connectionContext.circuitBreaker.recordSuccess();
         }
+        notifyStateChange(ConnectionState.reconnected, disconnectError, reconnectOutcomes);
       }
     };
 
@@ -13,6 +13,7 @@ import {
   OnAmqpEventAsPromise
 } from "./messageReceiver";
 import { ClientEntityContext } from "../clientEntityContext";
+import { OperationOptions, OperationCancellation } from "../util/abort";
 
 /**
  * Describes the batching receiver where the user can receive a specified number of messages for
@@ -51,12 +52,16 @@ export class BatchingReceiver extends MessageReceiver {
    * in that time frame then the batch receive operation ends. It is advised to keep this value at
    * 10% of the lockDuration value.
    * - **Default**: `2` seconds.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation. When the
+   * operation is cancelled, the leftover credit on the link is drained and the messages that were
+   * received so far are not returned.
    * @returns {Promise<ServiceBusMessage[]>} A promise that resolves with an array of Message objects.
    */
   receive(
     maxMessageCount: number,
     maxWaitTimeInSeconds?: number,
-    maxMessageWaitTimeoutInSeconds?: number
+    maxMessageWaitTimeoutInSeconds?: number,
+    options?: OperationOptions
   ): Promise<ServiceBusMessage[]> {
     if (!maxMessageCount || (maxMessageCount && typeof maxMessageCount !== "number")) {
       throw new Error(
@@ -74,8 +79,12 @@ export class BatchingReceiver extends MessageReceiver {
 
     const brokeredMessages: ServiceBusMessage[] = [];
 
+    const cancellation = new OperationCancellation("receiveBatch", options);
+    if (cancellation.error) {
+      return Promise.reject(cancellation.error);
+    }
     this.isReceivingMessages = true;
-    return new Promise<ServiceBusMessage[]>((resolve, reject) => {
+    const receivePromise = new Promise<ServiceBusMessage[]>((resolve, reject) => {
       let onReceiveMessage: OnAmqpEventAsPromise;
       let onSessionClose: OnAmqpEventAsPromise;
       let onReceiveClose: OnAmqpEventAsPromise;
@@ -84,9 +93,11 @@ export class BatchingReceiver extends MessageReceiver {
       let onSessionError: OnAmqpEvent;
       let waitTimer: any;
       let maxMessageWaitTimer: any;
+      let removeCancelHandler = (): void => undefined;
 
       // Final action to be performed after maxMessageCount is reached or the maxWaitTime is over.
       const finalAction = () => {
+        removeCancelHandler();
         if (maxMessageWaitTimer) {
           clearTimeout(maxMessageWaitTimer);
         }
@@ -192,6 +203,7 @@ export class BatchingReceiver extends MessageReceiver {
 
       // Action to be taken when an error is received.
       onReceiveError = (context: EventContext) => {
+        removeCancelHandler();
         this.isReceivingMessages = false;
         const receiver = this._receiver || context.receiver!;
         receiver.removeListener(ReceiverEvents.receiverError, onReceiveError);
@@ -263,6 +275,7 @@ export class BatchingReceiver extends MessageReceiver {
       };
 
       onSessionError = (context: EventContext) => {
+        removeCancelHandler();
         this.isReceivingMessages = false;
         const receiver = this._receiver || context.receiver!;
         receiver.removeListener(ReceiverEvents.receiverError, onReceiveError);
@@ -359,6 +372,19 @@ export class BatchingReceiver extends MessageReceiver {
         // resetTimerOnNewMessageReceived();
       };
 
+      // Action to be performed when the operation is cancelled. The leftover credit is drained,
+      // so that the service does not lock more messages for this receiver.
+      const onCancel = (error: Error) => {
+        log.error(
+          "[%s] Receiver '%s', the receiveBatch() operation has been cancelled: %O",
+          this._context.namespace.connectionId,
+          this.name,
+          error
+        );
+        reject(error);
+        finalAction();
+      };
+
       if (!this.isOpen()) {
         log.batching(
           "[%s] Receiver '%s', setting max concurrent calls to 0.",
@@ -377,9 +403,14 @@ export class BatchingReceiver extends MessageReceiver {
           onClose: onReceiveClose,
           onSessionClose: onSessionClose
         });
+        removeCancelHandler = cancellation.onCancel(onCancel);
         this._init(rcvrOptions)
           .then(() => {
             this._receiver!.on(ReceiverEvents.receiverDrained, onReceiveDrain);
+            if (cancellation.error) {
+              // The operation was cancelled while the link was being created.
+              return finalAction();
+            }
             addCreditAndSetTimer();
           })
           .catch(reject);
@@ -389,8 +420,12 @@ export class BatchingReceiver extends MessageReceiver {
         this._receiver!.on(ReceiverEvents.receiverError, onReceiveError);
         this._receiver!.on(ReceiverEvents.receiverDrained, onReceiveDrain);
         this._receiver!.session.on(SessionEvents.sessionError, onSessionError);
+        removeCancelHandler = cancellation.onCancel(onCancel);
       }
     });
+    const dispose = () => cancellation.dispose();
+    receivePromise.then(dispose, dispose);
+    return receivePromise;
   }
 
   /**
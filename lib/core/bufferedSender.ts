@@ -0,0 +1,405 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as log from "../log";
+import { SendableMessageInfo } from "../serviceBusMessage";
+import { ClientEntityContext } from "../clientEntityContext";
+import { Semaphore } from "../util/semaphore";
+import { MessageSender } from "./messageSender";
+import { MessageBatch } from "./messageBatch";
+import { SendResult } from "./sendResult";
+
+/**
+ * Describes the options that can be provided while creating a BufferedSender.
+ * @interface BufferedSenderOptions
+ */
+export interface BufferedSenderOptions {
+  /**
+   * @property {number} [lingerInMs] The maximum amount of time that a message waits in a batch
+   * that is not full before the batch is sent. Default value: `100`.
+   */
+  lingerInMs?: number;
+  /**
+   * @property {number} [maxBufferedMessages] The maximum number of messages that are buffered or
+   * being sent. Adding a message waits while this number is reached. Default value: `1000`.
+   */
+  maxBufferedMessages?: number;
+  /**
+   * @property {number} [maxBatchSizeInBytes] The maximum size of a batch message, in bytes. It
+   * can not exceed the maximum message size of the link, which is the default value.
+   */
+  maxBatchSizeInBytes?: number;
+  /**
+   * @property {number} [maxConcurrentSends] The maximum number of batch messages that are sent
+   * at the same time. The messages may be sent out of order with a value greater than `1`.
+   * Default value: `1`.
+   */
+  maxConcurrentSends?: number;
+}
+
+/**
+ * Describes a message that was added to a BufferedSender.
+ * @interface BufferedMessage
+ */
+export interface BufferedMessage {
+  /**
+   * @property {SendableMessageInfo} message The message that was added. If it did not have a
+   * `messageId`, it is a copy of the message with the one it is sent with.
+   */
+  message: SendableMessageInfo;
+  /**
+   * @property {Promise<SendResult>} result Resolved with the SendResult of the batch message
+   * that contains the message once it is accepted, whose `messageId` is the one of the message;
+   * rejected with the error if the batch message could not be sent.
+   */
+  result: Promise<SendResult>;
+}
+
+/**
+ * A message that is waiting in a batch, along with the functions that settle its result.
+ * @ignore
+ */
+interface BufferedEntry {
+  message: SendableMessageInfo;
+  resolve: (result: SendResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Describes the BufferedSender that sends the messages that are added to it in the background.
+ * The messages are grouped into batch messages, that are sent once they are full or once the
+ * linger time has passed. A new batch message is started whenever the `sessionId`, the
+ * `partitionKey` or the `viaPartitionKey` changes, since the ones of the first message apply to
+ * the whole batch message.
+ * It is created with `createBufferedSender()` of a QueueClient or TopicClient, and should be
+ * closed before the client is closed.
+ * @class BufferedSender
+ */
+export class BufferedSender {
+  /**
+   * @property {number} lingerInMs The maximum amount of time that a message waits in a batch
+   * that is not full.
+   * @readonly
+   */
+  readonly lingerInMs: number;
+  /**
+   * @property {number} maxBufferedMessages The maximum number of messages that are buffered or
+   * being sent.
+   * @readonly
+   */
+  readonly maxBufferedMessages: number;
+  /**
+   * @property {ClientEntityContext} _context The context of the client that sends the messages.
+   * @private
+   */
+  private readonly _context: ClientEntityContext;
+  /**
+   * @property {number} [_maxBatchSizeInBytes] The requested maximum size of a batch message.
+   * @private
+   */
+  private readonly _maxBatchSizeInBytes?: number;
+  /**
+   * @property {Semaphore} _sendLock Bounds the number of batch messages that are sent at the
+   * same time.
+   * @private
+   */
+  private readonly _sendLock: Semaphore;
+  /**
+   * @property {Array<Function>} _capacityWaiters The callers that wait for a message to
+   * complete before their message can be added, in the order in which they started waiting.
+   * @private
+   */
+  private readonly _capacityWaiters: Array<(error?: Error) => void> = [];
+  /**
+   * @property {Set<Promise<void>>} _sends The send operations of batch messages that are in
+   * progress.
+   * @private
+   */
+  private readonly _sends: Set<Promise<void>> = new Set<Promise<void>>();
+  /**
+   * @property {Promise<number>} [_maxSizeInBytes] Resolved with the maximum size of a batch
+   * message once the link is open.
+   * @private
+   */
+  private _maxSizeInBytes?: Promise<number>;
+  /**
+   * @property {MessageBatch} [_batch] The batch that messages are added to.
+   * @private
+   */
+  private _batch?: MessageBatch;
+  /**
+   * @property {BufferedEntry[]} _entries The messages in the current batch.
+   * @private
+   */
+  private _entries: BufferedEntry[] = [];
+  /**
+   * @property {any} [_lingerTimer] The timer that sends the current batch.
+   * @private
+   */
+  private _lingerTimer?: any;
+  /**
+   * @property {number} _bufferedCount The number of messages that are buffered or being sent.
+   * @private
+   */
+  private _bufferedCount: number = 0;
+  /**
+   * @property {boolean} _isClosed Indicates whether messages can no longer be added.
+   * @private
+   */
+  private _isClosed: boolean = false;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {ClientEntityContext} context The context of the client that sends the messages.
+   * @param {BufferedSenderOptions} [options] The options of the BufferedSender.
+   */
+  constructor(context: ClientEntityContext, options?: BufferedSenderOptions) {
+    if (!options) options = {};
+    const lingerInMs = options.lingerInMs != undefined ? options.lingerInMs : 100;
+    if (typeof lingerInMs !== "number" || !isFinite(lingerInMs) || lingerInMs < 0) {
+      throw new Error(
+        "'lingerInMs' must be of type 'number' with a value greater than or equal to 0."
+      );
+    }
+    const maxBufferedMessages =
+      options.maxBufferedMessages != undefined ? options.maxBufferedMessages : 1000;
+    if (!Number.isInteger(maxBufferedMessages) || maxBufferedMessages < 1) {
+      throw new Error(
+        "'maxBufferedMessages' must be of type 'number' with a value greater than 0."
+      );
+    }
+    const maxConcurrentSends =
+      options.maxConcurrentSends != undefined ? options.maxConcurrentSends : 1;
+    if (!Number.isInteger(maxConcurrentSends) || maxConcurrentSends < 1) {
+      throw new Error("'maxConcurrentSends' must be of type 'number' with a value greater than 0.");
+    }
+    this._context = context;
+    this.lingerInMs = lingerInMs;
+    this.maxBufferedMessages = maxBufferedMessages;
+    this._maxBatchSizeInBytes = options.maxBatchSizeInBytes;
+    this._sendLock = new Semaphore(maxConcurrentSends);
+  }
+
+  /**
+   * @property {number} bufferedCount The number of messages that are buffered or being sent.
+   * @readonly
+   */
+  get bufferedCount(): number {
+    return this._bufferedCount;
+  }
+
+  /**
+   * @property {boolean} isClosed Indicates whether the BufferedSender is closed.
+   * @readonly
+   */
+  get isClosed(): boolean {
+    return this._isClosed;
+  }
+
+  /**
+   * Adds the given message to the current batch. The link is opened if it is not open.
+   * @param {SendableMessageInfo} data The message to send.
+   * @returns {Promise<BufferedMessage>} Promise<BufferedMessage> Resolved once the message is
+   * added, which waits while `maxBufferedMessages` messages are buffered or being sent. Await
+   * the `result` of the BufferedMessage to know whether the message was sent.
+   */
+  async add(data: SendableMessageInfo): Promise<BufferedMessage> {
+    if (!data || typeof data !== "object") {
+      throw new Error("data is required and it must be of type object.");
+    }
+    this._throwIfClosed();
+    data = MessageSender.create(this._context).prepareMessage(data);
+    await this._acquire();
+    let maxSizeInBytes: number;
+    try {
+      maxSizeInBytes = await this._getMaxSizeInBytes();
+    } catch (err) {
+      this._release();
+      throw err;
+    }
+    let entry: BufferedEntry;
+    const result = new Promise<SendResult>((resolve, reject) => {
+      entry = { message: data, resolve: resolve, reject: reject };
+    });
+    // The result does not have to be awaited when the outcome is not of interest.
+    result.catch(() => undefined);
+    this._addEntry(entry!, maxSizeInBytes);
+    return { message: data, result: result };
+  }
+
+  /**
+   * Sends the current batch right away and waits for all the messages that were added to be
+   * sent.
+   * @returns {Promise<void>} Promise<void> It is not rejected if some messages could not be
+   * sent; their results are rejected instead.
+   */
+  async flush(): Promise<void> {
+    // The callers that are about to add their message once the link is open do so first.
+    if (this._maxSizeInBytes) await this._maxSizeInBytes.catch(() => undefined);
+    while (this._entries.length || this._sends.size) {
+      this._sendBatch();
+      await Promise.all(Array.from(this._sends));
+    }
+  }
+
+  /**
+   * Stops accepting messages and waits for all the messages that were added to be sent. The
+   * callers that are waiting to add a message are rejected. It does not close the client.
+   * @returns {Promise<void>} Promise<void>
+   */
+  async close(): Promise<void> {
+    if (!this._isClosed) {
+      this._isClosed = true;
+      log.sender(
+        "[%s] Closing the BufferedSender for '%s' with %d buffered message(s).",
+        this._context.namespace.connectionId,
+        this._context.entityPath,
+        this._bufferedCount
+      );
+      const error = this._createClosedError();
+      for (const waiter of this._capacityWaiters.splice(0)) {
+        waiter(error);
+      }
+    }
+    await this.flush();
+  }
+
+  /**
+   * Waits until another message can be buffered.
+   */
+  private _acquire(): Promise<void> {
+    if (this._bufferedCount < this.maxBufferedMessages && !this._capacityWaiters.length) {
+      this._bufferedCount++;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      // The slot of the completed message is handed over to the waiter.
+      this._capacityWaiters.push((error?: Error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Frees the slot of a message that completed, or hands it over to the next waiter.
+   */
+  private _release(): void {
+    const waiter = this._capacityWaiters.shift();
+    if (waiter) {
+      waiter();
+    } else {
+      this._bufferedCount--;
+    }
+  }
+
+  /**
+   * Provides the maximum size of a batch message, which opens the link the first time.
+   */
+  private _getMaxSizeInBytes(): Promise<number> {
+    if (!this._maxSizeInBytes) {
+      const sender = MessageSender.create(this._context);
+      this._maxSizeInBytes = sender
+        .createBatch(this._maxBatchSizeInBytes)
+        .then((batch: MessageBatch) => batch.maxSizeInBytes);
+      // Opening the link is attempted again for the next message if it failed.
+      this._maxSizeInBytes.catch(() => {
+        this._maxSizeInBytes = undefined;
+      });
+    }
+    return this._maxSizeInBytes;
+  }
+
+  /**
+   * Adds the given message to the current batch, which is sent first if the message does not
+   * belong to it.
+   */
+  private _addEntry(entry: BufferedEntry, maxSizeInBytes: number): void {
+    try {
+      const first = this._entries.length ? this._entries[0].message : undefined;
+      if (
+        first &&
+        (first.sessionId !== entry.message.sessionId ||
+          first.partitionKey !== entry.message.partitionKey ||
+          first.viaPartitionKey !== entry.message.viaPartitionKey)
+      ) {
+        this._sendBatch();
+      }
+      if (!this._batch) {
+        this._batch = MessageSender.create(this._context).newBatch(maxSizeInBytes);
+      }
+      if (!this._batch.tryAdd(entry.message)) {
+        if (!this._entries.length) {
+          throw new Error(
+            `The message exceeds the maximum message size of ${maxSizeInBytes} bytes.`
+          );
+        }
+        this._sendBatch();
+        this._batch = MessageSender.create(this._context).newBatch(maxSizeInBytes);
+        if (!this._batch.tryAdd(entry.message)) {
+          throw new Error(
+            `The message exceeds the maximum message size of ${maxSizeInBytes} bytes.`
+          );
+        }
+      }
+    } catch (err) {
+      entry.reject(err);
+      this._release();
+      return;
+    }
+    this._entries.push(entry);
+    if (this._entries.length === 1) {
+      this._lingerTimer = setTimeout(() => this._sendBatch(), this.lingerInMs);
+    }
+  }
+
+  /**
+   * Sends the current batch in the background and settles the results of its messages.
+   */
+  private _sendBatch(): void {
+    clearTimeout(this._lingerTimer);
+    this._lingerTimer = undefined;
+    const batch = this._batch;
+    const entries = this._entries;
+    this._batch = undefined;
+    this._entries = [];
+    if (!batch || !entries.length) return;
+
+    const sending: Promise<void> = this._sendLock
+      .use(() => MessageSender.create(this._context).send(batch))
+      .then(
+        (result: SendResult) => {
+          for (const entry of entries) {
+            entry.resolve({ ...result, messageId: entry.message.messageId });
+          }
+        },
+        (err: Error) => {
+          log.error(
+            "[%s] An error occurred while sending %d buffered message(s) to '%s': %O",
+            this._context.namespace.connectionId,
+            entries.length,
+            this._context.entityPath,
+            err
+          );
+          for (const entry of entries) entry.reject(err);
+        }
+      )
+      .then(() => {
+        this._sends.delete(sending);
+        for (let i = 0; i < entries.length; i++) this._release();
+      });
+    this._sends.add(sending);
+  }
+
+  /**
+   * Throws an error if the BufferedSender is closed.
+   */
+  private _throwIfClosed(): void {
+    if (this._isClosed) throw this._createClosedError();
+  }
+
+  /**
+   * Creates the error with which the callers are rejected once the BufferedSender is closed.
+   */
+  private _createClosedError(): Error {
+    return new Error(`The BufferedSender for '${this._context.entityPath}' has been closed.`);
+  }
+}
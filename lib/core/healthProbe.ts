@@ -0,0 +1,204 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Long from "long";
+import { defaultLock, TokenInfo } from "@azure/amqp-common";
+import * as log from "../log";
+import { LinkEntity } from "./linkEntity";
+import { ManagementClient } from "./managementClient";
+import { ClientEntityContext } from "../clientEntityContext";
+import { ConnectionContext } from "../connectionContext";
+import { OperationOptions, runOperation } from "../util/abort";
+
+/**
+ * Describes the steps of a health check.
+ */
+export enum HealthCheckStep {
+  /**
+   * Opens the AMQP connection, or verifies that it is open.
+   */
+  connection = "connection",
+  /**
+   * Negotiates the CBS claim for the entity, in the same way as the senders and receivers do.
+   */
+  claim = "claim",
+  /**
+   * Makes a round trip to the `$management` endpoint of the entity by peeking 0 messages.
+   */
+  management = "management"
+}
+
+/**
+ * Describes the options that can be provided while checking the health of the Namespace.
+ * @interface HealthCheckOptions
+ */
+export interface HealthCheckOptions extends OperationOptions {
+  /**
+   * @property {boolean} [includeManagement] Indicates whether a round trip to the `$management`
+   * endpoint of the entity should be made. It is ignored if no entity is provided.
+   * Default value: `false`.
+   */
+  includeManagement?: boolean;
+}
+
+/**
+ * Describes the outcome of a step of a health check.
+ * @interface HealthCheckStepResult
+ */
+export interface HealthCheckStepResult {
+  /**
+   * @property {HealthCheckStep} step The step that was performed.
+   */
+  step: HealthCheckStep;
+  /**
+   * @property {string} connectionId The id of the AMQP connection on which the step was performed.
+   */
+  connectionId: string;
+  /**
+   * @property {boolean} succeeded Indicates whether the step succeeded.
+   */
+  succeeded: boolean;
+  /**
+   * @property {number} latencyInMs The amount of time the step took.
+   */
+  latencyInMs: number;
+  /**
+   * @property {Error} [error] The error that occurred, if the step failed.
+   */
+  error?: Error;
+}
+
+/**
+ * Describes the outcome of a health check. The steps that follow a failed step are not
+ * performed.
+ * @interface HealthCheckResult
+ */
+export interface HealthCheckResult {
+  /**
+   * @property {boolean} healthy Indicates whether all the steps succeeded.
+   */
+  healthy: boolean;
+  /**
+   * @property {string} [entityPath] The entity for which the health was checked.
+   */
+  entityPath?: string;
+  /**
+   * @property {number} latencyInMs The amount of time the health check took.
+   */
+  latencyInMs: number;
+  /**
+   * @property {Date} [tokenExpiresOn] The time at which the token for which the claim was
+   * negotiated expires. It is set only if the claim step succeeded.
+   */
+  tokenExpiresOn?: Date;
+  /**
+   * @property {HealthCheckStepResult[]} steps The outcome of every step that was performed.
+   */
+  steps: HealthCheckStepResult[];
+}
+
+/**
+ * Performs the steps of a health check on a connection, without sending or receiving messages.
+ * @ignore
+ * @class HealthProbe
+ */
+export class HealthProbe extends LinkEntity {
+  /**
+   * @property {HealthCheckOptions} _options The options provided by the user.
+   * @private
+   */
+  private _options: HealthCheckOptions;
+
+  /**
+   * @constructor
+   * @param {ConnectionContext} connectionContext The context of the connection to be checked.
+   * @param {string} [entityPath] The entity for which the claim is negotiated.
+   * @param {HealthCheckOptions} [options] The options provided by the user.
+   */
+  constructor(
+    connectionContext: ConnectionContext,
+    entityPath?: string,
+    options?: HealthCheckOptions
+  ) {
+    const context = ClientEntityContext.create(entityPath || "$health", connectionContext);
+    super(context.entityPath, context, {
+      address: context.entityPath,
+      audience: `${connectionContext.config.endpoint}${context.entityPath}`
+    });
+    this._options = options || {};
+  }
+
+  /**
+   * Opens the AMQP connection if it is not open.
+   * @returns {Promise<HealthCheckStepResult>} Promise<HealthCheckStepResult>
+   */
+  checkConnection(): Promise<HealthCheckStepResult> {
+    const connectionContext = this._context.namespace;
+    return this._runStep(HealthCheckStep.connection, async () => {
+      if (!connectionContext.connection.isOpen()) {
+        await defaultLock.acquire(connectionContext.connectionLock, () => {
+          return connectionContext.connection.open();
+        });
+      }
+    });
+  }
+
+  /**
+   * Negotiates the CBS claim for the entity.
+   * @returns {Promise<HealthCheckStepResult>} Promise<HealthCheckStepResult> The outcome of the
+   * step, along with the token for which the claim was negotiated.
+   */
+  async checkClaim(): Promise<HealthCheckStepResult & { token?: TokenInfo }> {
+    let token: TokenInfo | undefined;
+    const result = await this._runStep(HealthCheckStep.claim, async () => {
+      token = await this._negotiateClaim();
+    });
+    return { ...result, token: token };
+  }
+
+  /**
+   * Makes a round trip to the `$management` endpoint of the entity, by peeking 0 messages. The
+   * `$management` links are closed afterwards.
+   * @returns {Promise<HealthCheckStepResult>} Promise<HealthCheckStepResult>
+   */
+  checkManagement(): Promise<HealthCheckStepResult> {
+    const managementClient = new ManagementClient(this._context, {
+      address: `${this._context.entityPath}/$management`
+    });
+    return this._runStep(HealthCheckStep.management, async () => {
+      try {
+        await managementClient.peekBySequenceNumber(Long.ONE, {
+          messageCount: 0,
+          timeoutInMs: this._options.timeoutInMs,
+          abortSignal: this._options.abortSignal
+        });
+      } finally {
+        await managementClient.close();
+      }
+    });
+  }
+
+  private async _runStep(
+    step: HealthCheckStep,
+    operation: () => Promise<void>
+  ): Promise<HealthCheckStepResult> {
+    const connectionId = this._context.namespace.connectionId;
+    const start = Date.now();
+    const result: HealthCheckStepResult = {
+      step: step,
+      connectionId: connectionId,
+      succeeded: true,
+      latencyInMs: 0
+    };
+    try {
+      await runOperation(`checkHealth:${step}`, this._options, operation);
+    } catch (err) {
+      log.error("[%s] The health check step '%s' failed: %O", connectionId, step, err);
+      result.succeeded = false;
+      result.error = err;
+    }
+    result.latencyInMs = Date.now() - start;
+    log.ns("[%s] Health check step result: %O", connectionId, result);
+    return result;
+  }
+}
@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { createHash } from "crypto";
+import { message, generate_uuid } from "rhea-promise";
+import { DataTransformer } from "@azure/amqp-common";
+import { SendableMessageInfo } from "../serviceBusMessage";
+
+/**
+ * Describes the options of the idempotency mode of a QueueClient or TopicClient. In this mode
+ * the `messageId` of every message that does not have one is derived from the message before it
+ * is sent, so that sending the same message again (e.g. after a timeout) is detected as a
+ * duplicate by ServiceBus on an entity with duplicate detection enabled.
+ * @interface IdempotencyOptions
+ */
+export interface IdempotencyOptions {
+  /**
+   * @property {Function} [getKey] The function that provides the business key of the given
+   * message, that is used as its `messageId`. If it is not provided, or if it returns
+   * `undefined`, then the `messageId` is the SHA-256 hash (in hex) of the content of the message,
+   * i.e. of the body and all the properties. Messages with the same content are then duplicates
+   * of each other.
+   */
+  getKey?: (message: SendableMessageInfo) => string | undefined;
+}
+
+/**
+ * Normalizes the idempotency option of a client, which is either a boolean or the options.
+ * @ignore
+ */
+export function normalizeIdempotencyOptions(
+  idempotency?: boolean | IdempotencyOptions
+): IdempotencyOptions | undefined {
+  if (idempotency == undefined || idempotency === false) return undefined;
+  if (idempotency === true) return {};
+  if (typeof idempotency !== "object") {
+    throw new Error("'idempotency' must be of type 'boolean' or 'IdempotencyOptions'.");
+  }
+  if (idempotency.getKey != undefined && typeof idempotency.getKey !== "function") {
+    throw new Error("'getKey' must be of type 'function'.");
+  }
+  return idempotency;
+}
+
+/**
+ * Provides the given message with a `messageId` if it does not have one, so that the result of
+ * the send operation identifies it: a deterministic one in the idempotency mode, and a random one
+ * otherwise. The message is returned as is if it already has a `messageId`; otherwise a copy of
+ * it is returned.
+ * @ignore
+ */
+export function withMessageId(
+  data: SendableMessageInfo,
+  idempotency: IdempotencyOptions | undefined,
+  dataTransformer: DataTransformer
+): SendableMessageInfo {
+  if (!data || typeof data !== "object" || data.messageId != undefined) return data;
+  if (idempotency) return withDeterministicMessageId(data, idempotency, dataTransformer);
+  return { ...data, messageId: generate_uuid() };
+}
+
+/**
+ * Provides the given message with a deterministic `messageId` as per the given idempotency
+ * options. The message is returned as is if it already has a `messageId` or if the idempotency
+ * mode is not enabled; otherwise a copy of it is returned.
+ * @ignore
+ */
+function withDeterministicMessageId(
+  data: SendableMessageInfo,
+  idempotency: IdempotencyOptions | undefined,
+  dataTransformer: DataTransformer
+): SendableMessageInfo {
+  if (!idempotency || !data || typeof data !== "object" || data.messageId != undefined) {
+    return data;
+  }
+  let messageId = idempotency.getKey ? idempotency.getKey(data) : undefined;
+  if (messageId == undefined) {
+    const amqpMessage = SendableMessageInfo.toAmqpMessage(data);
+    amqpMessage.body = dataTransformer.encode(data.body);
+    messageId = createHash("sha256")
+      .update(message.encode(amqpMessage))
+      .digest("hex");
+  } else if (typeof messageId !== "string" || !messageId) {
+    throw new Error("The key provided by 'getKey' must be a non-empty string.");
+  }
+  return { ...data, messageId: messageId };
+}
@@ -1,11 +1,12 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
-import { defaultLock } from "@azure/amqp-common";
+import { defaultLock, Constants, TokenInfo } from "@azure/amqp-common";
 import { ClientEntityContext } from "../clientEntityContext";
 import * as log from "../log";
 import { Sender, Receiver } from "rhea-promise";
 import { getUniqueName } from "../util/utils";
+import { RetryOptions, normalizeRetryOptions } from "../util/retry";
 
 export interface LinkEntityOptions {
   /**
@@ -16,6 +17,11 @@ export interface LinkEntityOptions {
    * @property {string} audience The client entity token audience in one of the following forms:
    */
   audience?: string;
+  /**
+   * @property {string} [transferDestinationAudience] The token audience of the entity to which
+   * the messages are transferred, when the link is attached to a transfer entity.
+   */
+  transferDestinationAudience?: string;
 }
 
 /**
@@ -59,6 +65,12 @@ export class LinkEntity {
    * - `"sb://<your-namespace>.servicebus.windows.net/<topic-name>/$management"`.
    */
   audience: string;
+  /**
+   * @property {string} [transferDestinationAudience] The token audience of the entity to which
+   * the messages are transferred, when the link is attached to a transfer entity. A claim is
+   * negotiated for it as well, since the messages are sent to it in the end.
+   */
+  transferDestinationAudience?: string;
   /**
    * @property {boolean} isConnecting Indicates whether the link is in the process of connecting
    * (establishing) itself. Default value: `false`.
@@ -87,16 +99,28 @@ export class LinkEntity {
     this._context = context;
     this.address = options.address || "";
     this.audience = options.audience || "";
+    this.transferDestinationAudience = options.transferDestinationAudience;
     this.name = getUniqueName(name);
   }
 
+  /**
+   * Negotiates the cbs claim right away with the current token provider of the connection, without
+   * detaching the link, and restarts the token renewal timer. It is used when the credentials of
+   * the Namespace are updated.
+   * @return {Promise<void>} Promise<void>
+   */
+  async renewClaim(): Promise<void> {
+    clearTimeout(this._tokenRenewalTimer as NodeJS.Timer);
+    await this._negotiateClaim(true);
+  }
+
   /**
    * Negotiates the cbs claim for the ClientEntity.
    * @protected
    * @param {boolean} [setTokenRenewal] Set the token renewal timer. Default false.
-   * @return {Promise<void>} Promise<void>
+   * @return {Promise<TokenInfo>} Promise<TokenInfo> The token for which the claim was negotiated.
    */
-  protected async _negotiateClaim(setTokenRenewal?: boolean): Promise<void> {
+  protected async _negotiateClaim(setTokenRenewal?: boolean): Promise<TokenInfo> {
     // Acquire the lock and establish a cbs session if it does not exist on the connection.
     // Although node.js is single threaded, we need a locking mechanism to ensure that a
     // race condition does not happen while creating a shared resource (in this case the
@@ -132,6 +156,13 @@ export class LinkEntity {
     await defaultLock.acquire(this._context.namespace.negotiateClaimLock, () => {
       return this._context.namespace.cbsSession.negotiateClaim(this.audience, tokenObject);
     });
+    if (this.transferDestinationAudience) {
+      const audience = this.transferDestinationAudience;
+      const destinationTokenObject = await this._context.namespace.tokenProvider.getToken(audience);
+      await defaultLock.acquire(this._context.namespace.negotiateClaimLock, () => {
+        return this._context.namespace.cbsSession.negotiateClaim(audience, destinationTokenObject);
+      });
+    }
     log.link(
       "[%s] Negotiated claim for %s '%s' with with address: %s",
       this._context.namespace.connectionId,
@@ -142,6 +173,7 @@ export class LinkEntity {
     if (setTokenRenewal) {
       await this._ensureTokenRenewal();
     }
+    return tokenObject;
   }
 
   /**
@@ -180,6 +212,22 @@ export class LinkEntity {
     );
   }
 
+  /**
+   * Provides the retry options for re-establishing the link. The link creation is attempted 150
+   * times with a fixed delay of 15 seconds between the attempts, whatever the retry options of
+   * the Namespace are: these are meant for the operations, whose attempts are far fewer and
+   * shorter. Every attempt is bound by the operation timeout of the AMQP connection.
+   * @protected
+   * @returns {RetryOptions} RetryOptions
+   */
+  protected _getLinkRetryOptions(): RetryOptions {
+    return normalizeRetryOptions({
+      maxRetries: Constants.defaultConnectionRetryAttempts - 1,
+      minDelayInMs: Constants.defaultDelayBetweenRetriesInSeconds * 1000,
+      jitter: 0
+    });
+  }
+
   /**
    * Closes the Sender|Receiver link and it's underlying session and also removes it from the
    * internal map.
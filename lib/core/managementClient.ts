@@ -20,7 +20,8 @@ import {
   RequestResponseLink,
   ConditionErrorNameMapper,
   AmqpMessage,
-  SendRequestOptions
+  SendRequestOptions,
+  RetryOperationType
 } from "@azure/amqp-common";
 import { ClientEntityContext } from "../clientEntityContext";
 import {
@@ -35,6 +36,10 @@ import { ReceiveMode } from "../serviceBusMessage";
 import { reorderLockTokens, toBuffer } from "../util/utils";
 import { Typed } from "rhea/typings/types";
 import { max32BitNumber } from "../util/constants";
+import { retry, RetryConfig, RetryOptions, normalizeRetryOptions } from "../util/retry";
+import { OperationOptions, OperationCancellation, runOperation } from "../util/abort";
+import { parseSqlFilter, parseSqlRuleAction } from "../filters/sqlParser";
+import { SqlFilterExpression } from "../filters/filterBuilder";
 
 /**
  * Represents a description of a rule.
@@ -109,6 +114,83 @@ export interface CorrelationFilter {
   userProperties?: any;
 }
 
+/**
+ * Describes a rule of the desired rule set of a subscription.
+ * @interface RuleDefinition
+ */
+export interface RuleDefinition {
+  /**
+   * @property {string} name The name of the rule.
+   */
+  name: string;
+  /**
+   * @property {boolean | string | CorrelationFilter | SqlFilterExpression} filter A Boolean, SQL
+   * expression or a Correlation filter, as in `addRule()`.
+   */
+  filter: boolean | string | CorrelationFilter | SqlFilterExpression;
+  /**
+   * @property {string} [sqlRuleActionExpression] The action to perform if the message satisfies
+   * the filter.
+   */
+  sqlRuleActionExpression?: string;
+}
+
+/**
+ * Describes the changes that were applied to the rules of a subscription.
+ * @interface RuleChanges
+ */
+export interface RuleChanges {
+  /**
+   * @property {string[]} added The names of the rules that were added.
+   */
+  added: string[];
+  /**
+   * @property {string[]} updated The names of the rules whose filter or action was changed.
+   */
+  updated: string[];
+  /**
+   * @property {string[]} removed The names of the rules that were removed.
+   */
+  removed: string[];
+  /**
+   * @property {string[]} unchanged The names of the rules that already had the desired filter
+   * and action.
+   */
+  unchanged: string[];
+}
+
+/**
+ * Provides a representation of the filter and the action of a rule that does not depend on the
+ * form in which they were provided, e.g. a boolean filter or the equivalent SQL expression, nor
+ * on the order of the properties of a correlation filter.
+ * @ignore
+ */
+export function getRuleKey(
+  filter: boolean | string | SQLExpression | CorrelationFilter | SqlFilterExpression | undefined,
+  sqlRuleActionExpression: string | undefined
+): string {
+  let normalizedFilter: any = filter;
+  if (filter instanceof SqlFilterExpression) {
+    normalizedFilter = filter.toSQLExpression();
+  } else if (typeof filter === "boolean") {
+    normalizedFilter = { expression: filter ? "1=1" : "1=0" };
+  } else if (typeof filter === "string") {
+    normalizedFilter = { expression: filter };
+  }
+  return JSON.stringify(
+    { filter: normalizedFilter, action: sqlRuleActionExpression || undefined },
+    (key: string, value: any) => {
+      if (value == undefined) return undefined;
+      if (typeof value !== "object" || Array.isArray(value)) return value;
+      const sorted: Dictionary<any> = {};
+      for (const name of Object.keys(value).sort()) {
+        if (value[name] != undefined) sorted[name] = value[name];
+      }
+      return Object.keys(sorted).length || key === "" ? sorted : undefined;
+    }
+  );
+}
+
 /**
  * Describes the response that will be received for listing sessions.
  * @interface ListSessionsResponse
@@ -124,7 +206,7 @@ export interface ListSessionsResponse {
  * Describes the options that can be provided while peeking a message.
  * @interface PeekOptions
  */
-export interface PeekOptions {
+export interface PeekOptions extends OperationOptions {
   /**
    * The number of messages that need to be peeked.
    * - **Default: `1`**.
@@ -172,6 +254,28 @@ export interface DispositionStatusOptions {
   deadLetterDescription?: string;
 }
 
+/**
+ * The retry options that are applied to requests made to the $management endpoint, unless they
+ * are overridden by the retry options provided on the Namespace.
+ * @ignore
+ */
+const managementRetryOptions: RetryOptions = {
+  timeoutInMs: 10000
+};
+
+/**
+ * The retry options that are applied to the requests that renew message and session locks. They
+ * take precedence over the retry options provided on the Namespace, so that a policy tuned for
+ * reconnects does not delay the renewals until the locks expire.
+ * @ignore
+ */
+const lockRenewalRetryOptions: RetryOptions = {
+  maxRetries: 4,
+  minDelayInMs: 1000,
+  jitter: 0,
+  timeoutInMs: 5000
+};
+
 export interface ManagementClientOptions {
   address?: string;
   audience?: string;
@@ -244,6 +348,14 @@ export class ManagementClient extends LinkEntity {
     }
   }
 
+  /**
+   * Determines whether the AMQP management session is open.
+   * @returns {boolean} `true` if the request/response link is open, `false` otherwise.
+   */
+  isOpen(): boolean {
+    return !!this._isMgmtRequestResponseLinkOpen();
+  }
+
   /**
    * Fetches the next batch of active messages. The first call to `peek()` fetches the first
    * active message for this client. Each subsequent call fetches the subsequent message in the
@@ -254,11 +366,15 @@ export class ManagementClient extends LinkEntity {
    * `receive() | receiveBatch()` this method will fetch even Deferred messages
    * (but not Deadlettered message).
    * @param {number} [messageCount] The number of messages to retrieve. Default value `1`.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
    * @returns Promise<ReceivedSBMessage[]>
    */
-  async peek(messageCount?: number): Promise<ReceivedMessageInfo[]> {
+  async peek(messageCount?: number, options?: OperationOptions): Promise<ReceivedMessageInfo[]> {
+    if (!options) options = {};
     return this.peekBySequenceNumber(this._lastPeekedSequenceNumber.add(1), {
-      messageCount: messageCount
+      messageCount: messageCount,
+      timeoutInMs: options.timeoutInMs,
+      abortSignal: options.abortSignal
     });
   }
 
@@ -335,15 +451,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-
-      const result = await this._mgmtReqResLink!.sendRequest(request);
+      const result = await this._makeManagementRequest(request, undefined, undefined, options);
       if (result.application_properties!.statusCode !== 204) {
         const messages = result.body.messages as { message: Buffer }[];
         for (const msg of messages) {
@@ -394,10 +502,6 @@ export class ManagementClient extends LinkEntity {
     if (typeof lockTokenOrMessage !== "object" && typeof lockTokenOrMessage !== "string") {
       throw new Error("'lockTokenOrMessage must be of type 'string' or of type 'object'.");
     }
-    if (!options) options = {};
-    if (options.delayInSeconds == undefined) options.delayInSeconds = 1;
-    if (options.timeoutInSeconds == undefined) options.timeoutInSeconds = 5;
-    if (options.times == undefined) options.times = 5;
     const lockToken: string = (lockTokenOrMessage as ServiceBusMessage).lockToken
       ? ((lockTokenOrMessage as ServiceBusMessage).lockToken as string)
       : (lockTokenOrMessage as string);
@@ -421,14 +525,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      const result = await this._mgmtReqResLink!.sendRequest(request, options);
+      const result = await this._makeManagementRequest(request, options, lockRenewalRetryOptions);
       const lockedUntilUtc = new Date(result.body.expirations[0]);
       if (typeof lockTokenOrMessage === "object") {
         (lockTokenOrMessage as ServiceBusMessage).lockedUntilUtc = lockedUntilUtc;
@@ -448,9 +545,10 @@ export class ManagementClient extends LinkEntity {
    * Schedules an array of messages to appear on Service Bus at a later time.
    *
    * @param messages - An array of messages that needs to be scheduled.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
    * @returns Promise<number> The sequence numbers of messages that were scheduled.
    */
-  async scheduleMessages(messages: ScheduleMessage[]): Promise<Long[]> {
+  async scheduleMessages(messages: ScheduleMessage[], options?: OperationOptions): Promise<Long[]> {
     if (!Array.isArray(messages)) {
       throw new Error("'messages' is a required parameter of type 'Array'.");
     }
@@ -519,14 +617,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      const result = await this._mgmtReqResLink!.sendRequest(request);
+      const result = await this._makeManagementRequest(request, undefined, undefined, options);
       const sequenceNumbers = result.body[Constants.sequenceNumbers];
       const sequenceNumbersAsLong = [];
       for (let i = 0; i < sequenceNumbers.length; i++) {
@@ -598,14 +689,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      await this._mgmtReqResLink!.sendRequest(request);
+      await this._makeManagementRequest(request);
     } catch (err) {
       const error = translate(err);
       log.error(
@@ -717,15 +801,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-
-      const result = await this._mgmtReqResLink!.sendRequest(request);
+      const result = await this._makeManagementRequest(request);
       const messages = result.body.messages as {
         message: Buffer;
         "lock-token": Buffer;
@@ -807,14 +883,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      await this._mgmtReqResLink!.sendRequest(request);
+      await this._makeManagementRequest(request);
     } catch (err) {
       const error = translate(err);
       log.error(
@@ -836,10 +905,6 @@ export class ManagementClient extends LinkEntity {
     if (typeof sessionId !== "string") {
       throw new Error("'sessionId' is a required parameter and must be of type 'string'.");
     }
-    if (!options) options = {};
-    if (options.delayInSeconds == undefined) options.delayInSeconds = 1;
-    if (options.timeoutInSeconds == undefined) options.timeoutInSeconds = 5;
-    if (options.times == undefined) options.times = 5;
     try {
       const messageBody: any = {};
       messageBody[Constants.sessionIdMapKey] = sessionId;
@@ -856,14 +921,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      const result = await this._mgmtReqResLink!.sendRequest(request, options);
+      const result = await this._makeManagementRequest(request, options, lockRenewalRetryOptions);
       const lockedUntilUtc = new Date(result.body.expiration);
       log.mgmt(
         "[%s] Lock for session '%s' will expire at %s.",
@@ -910,14 +968,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      await this._mgmtReqResLink!.sendRequest(request);
+      await this._makeManagementRequest(request);
     } catch (err) {
       const error = translate(err);
       log.error(
@@ -953,14 +1004,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      const result = await this._mgmtReqResLink!.sendRequest(request);
+      const result = await this._makeManagementRequest(request);
       return result.body["session-state"]
         ? this._context.namespace.dataTransformer.decode(result.body["session-state"])
         : result.body["session-state"];
@@ -1017,14 +1061,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-      const response = await this._mgmtReqResLink!.sendRequest(request);
+      const response = await this._makeManagementRequest(request);
       const result: ListSessionsResponse = {
         statusCode: response.application_properties!.statusCode,
         statusDescription: response.application_properties!.statusDescription
@@ -1050,9 +1087,10 @@ export class ManagementClient extends LinkEntity {
 
   /**
    * Get all the rules on the Subscription.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
    * @returns Promise<RuleDescription[]> A list of rules.
    */
-  async getRules(): Promise<RuleDescription[]> {
+  async getRules(options?: OperationOptions): Promise<RuleDescription[]> {
     try {
       const request: AmqpMessage = {
         body: {
@@ -1071,15 +1109,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-
-      const response = await this._mgmtReqResLink!.sendRequest(request);
+      const response = await this._makeManagementRequest(request, undefined, undefined, options);
       if (
         response.application_properties!.statusCode === 204 ||
         !response.body ||
@@ -1174,8 +1204,9 @@ export class ManagementClient extends LinkEntity {
   /**
    * Removes the rule on the Subscription identified by the given rule name.
    * @param ruleName
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
    */
-  async removeRule(ruleName: string): Promise<void> {
+  async removeRule(ruleName: string, options?: OperationOptions): Promise<void> {
     if (!ruleName || typeof ruleName !== "string") {
       throw new Error("Cannot remove rule. Rule name is missing or is not a string.");
     }
@@ -1196,15 +1227,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-
-      await this._mgmtReqResLink!.sendRequest(request);
+      await this._makeManagementRequest(request, undefined, undefined, options);
     } catch (err) {
       const error = translate(err);
       log.error(
@@ -1218,14 +1241,18 @@ export class ManagementClient extends LinkEntity {
   /**
    * Adds a rule on the subscription as defined by the given rule name, filter and action
    * @param ruleName Name of the rule
-   * @param filter A Boolean, SQL expression or a Correlation filter
+   * @param filter A Boolean, SQL expression (possibly built with `Filter.sql()`) or a Correlation
+   * filter
    * @param sqlRuleActionExpression Action to perform if the message satisfies the filtering expression
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
    */
   async addRule(
     ruleName: string,
-    filter: boolean | string | CorrelationFilter,
-    sqlRuleActionExpression?: string
+    filter: boolean | string | CorrelationFilter | SqlFilterExpression,
+    sqlRuleActionExpression?: string,
+    options?: OperationOptions
   ): Promise<void> {
+    if (filter instanceof SqlFilterExpression) filter = filter.build();
     if (!ruleName || typeof ruleName !== "string") {
       throw new Error("Cannot add rule. Rule name is missing or is not a string.");
     }
@@ -1235,6 +1262,10 @@ export class ManagementClient extends LinkEntity {
     if (sqlRuleActionExpression && typeof sqlRuleActionExpression !== "string") {
       throw new Error("Cannot add rule. Given action expression is not a string.");
     }
+    // The SQL expressions are validated up front, so that a syntax error is reported with its
+    // position instead of being rejected by the service.
+    if (typeof filter === "string") parseSqlFilter(filter);
+    if (sqlRuleActionExpression) parseSqlRuleAction(sqlRuleActionExpression);
     try {
       const ruleDescription: any = {};
       switch (typeof filter) {
@@ -1285,15 +1316,7 @@ export class ManagementClient extends LinkEntity {
         this._context.namespace.connectionId,
         request.body
       );
-      log.mgmt(
-        "[%s] Acquiring lock to get the management req res link.",
-        this._context.namespace.connectionId
-      );
-      await defaultLock.acquire(this.managementLock, () => {
-        return this._init();
-      });
-
-      await this._mgmtReqResLink!.sendRequest(request);
+      await this._makeManagementRequest(request, undefined, undefined, options);
     } catch (err) {
       const error = translate(err);
       log.error(
@@ -1304,6 +1327,136 @@ export class ManagementClient extends LinkEntity {
     }
   }
 
+  /**
+   * Updates the filter and the action of the rule identified by the given rule name, or adds the
+   * rule if it does not exist. Since a rule can not be changed in place, a temporary rule with
+   * the new filter and action is added before the rule is replaced, so that no message that
+   * matches either of them is dropped in the meantime.
+   * @param ruleName Name of the rule
+   * @param filter A Boolean, SQL expression (possibly built with `Filter.sql()`) or a Correlation
+   * filter
+   * @param sqlRuleActionExpression Action to perform if the message satisfies the filtering expression
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns Promise<RuleChanges> The change that was applied to the rule.
+   */
+  async updateRule(
+    ruleName: string,
+    filter: boolean | string | CorrelationFilter | SqlFilterExpression,
+    sqlRuleActionExpression?: string,
+    options?: OperationOptions
+  ): Promise<RuleChanges> {
+    const rule: RuleDefinition = {
+      name: ruleName,
+      filter: filter,
+      sqlRuleActionExpression: sqlRuleActionExpression
+    };
+    this._validateRuleDefinition(rule);
+    const changes: RuleChanges = { added: [], updated: [], removed: [], unchanged: [] };
+    const currentRules = await this.getRules(options);
+    await this._applyRule(rule, currentRules, changes, options);
+    return changes;
+  }
+
+  /**
+   * Applies the given rule set to the subscription: the new rules are added and the changed rules
+   * are updated (as in `updateRule()`) before the rules that are not in the rule set (including
+   * the default rule, unless it is provided) are removed, so that no message that matches either
+   * the current or the desired rule set is dropped in the meantime. If an operation fails then
+   * the error is thrown and the changes that were applied so far are kept.
+   * @param rules The desired rule set.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns Promise<RuleChanges> The changes that were applied to the rules.
+   */
+  async replaceRules(rules: RuleDefinition[], options?: OperationOptions): Promise<RuleChanges> {
+    if (!Array.isArray(rules)) {
+      throw new Error("'rules' is a required parameter and must be of type 'Array'.");
+    }
+    const names = new Set<string>();
+    for (const rule of rules) {
+      this._validateRuleDefinition(rule);
+      if (names.has(rule.name)) {
+        throw new Error(`The rule '${rule.name}' is provided more than once.`);
+      }
+      names.add(rule.name);
+    }
+    const changes: RuleChanges = { added: [], updated: [], removed: [], unchanged: [] };
+    const currentRules = await this.getRules(options);
+    for (const rule of rules) {
+      await this._applyRule(rule, currentRules, changes, options);
+    }
+    for (const currentRule of currentRules) {
+      if (names.has(currentRule.name)) continue;
+      await this.removeRule(currentRule.name, options);
+      changes.removed.push(currentRule.name);
+    }
+    log.mgmt(
+      "[%s] Replaced the rules of '%s': %O.",
+      this._context.namespace.connectionId,
+      this.entityPath,
+      changes
+    );
+    return changes;
+  }
+
+  /**
+   * Sends the given request to the $management endpoint after establishing the request/response
+   * links if required. The request is retried as per the retry options provided on the Namespace,
+   * unless the operation has its own retry options.
+   * @ignore
+   * @param {AmqpMessage} request The request to be sent.
+   * @param {SendRequestOptions} [options] Options provided by the caller. They take precedence
+   * over the retry options provided on the Namespace.
+   * @param {RetryOptions} [defaultRetryOptions] Retry options specific to the operation. They take
+   * precedence over the retry options provided on the Namespace.
+   * @param {OperationOptions} [operationOptions] The options to bound or cancel the request. Once
+   * the request is cancelled, no further attempts are made.
+   * @returns {Promise<AmqpMessage>} Promise<AmqpMessage> The response.
+   */
+  private async _makeManagementRequest(
+    request: AmqpMessage,
+    options?: SendRequestOptions,
+    defaultRetryOptions?: RetryOptions,
+    operationOptions?: OperationOptions
+  ): Promise<AmqpMessage> {
+    if (!options) options = {};
+    const retryOptions = normalizeRetryOptions(
+      managementRetryOptions,
+      this._context.namespace.retryOptions,
+      defaultRetryOptions,
+      {
+        maxRetries: options.times != undefined ? Math.max(options.times - 1, 0) : undefined,
+        minDelayInMs:
+          options.delayInSeconds != undefined ? options.delayInSeconds * 1000 : undefined,
+        timeoutInMs:
+          options.timeoutInSeconds != undefined ? options.timeoutInSeconds * 1000 : undefined
+      }
+    );
+    const operationName = request.application_properties!.operation;
+    return runOperation(operationName, operationOptions, (cancellation: OperationCancellation) => {
+      const config: RetryConfig<AmqpMessage> = {
+        operation: async () => {
+          cancellation.throwIfCancelled();
+          log.mgmt(
+            "[%s] Acquiring lock to get the management req res link.",
+            this._context.namespace.connectionId
+          );
+          await defaultLock.acquire(this.managementLock, () => {
+            return this._init();
+          });
+          cancellation.throwIfCancelled();
+          return this._mgmtReqResLink!.sendRequest(request, {
+            times: 1,
+            timeoutInSeconds: retryOptions.timeoutInMs / 1000
+          });
+        },
+        connectionId: this._context.namespace.connectionId,
+        operationType: RetryOperationType.management,
+        retryOptions: retryOptions
+      };
+      return retry<AmqpMessage>(config);
+    });
+  }
+
   /**
    * @ignore
    */
@@ -1371,6 +1524,84 @@ export class ManagementClient extends LinkEntity {
   /**
    * @ignore
    */
+  private _validateRuleDefinition(rule: RuleDefinition): void {
+    if (!rule || typeof rule !== "object") {
+      throw new Error("The rule must be of type 'object'.");
+    }
+    if (!rule.name || typeof rule.name !== "string") {
+      throw new Error("Cannot update rule. Rule name is missing or is not a string.");
+    }
+    if (rule.filter === "" || rule.filter === null || rule.filter === undefined) {
+      throw new Error(`Cannot update rule '${rule.name}'. Filter is missing.`);
+    }
+    if (rule.sqlRuleActionExpression && typeof rule.sqlRuleActionExpression !== "string") {
+      throw new Error(
+        `Cannot update rule '${rule.name}'. Given action expression is not a string.`
+      );
+    }
+    if (typeof rule.filter === "string") parseSqlFilter(rule.filter);
+    if (rule.sqlRuleActionExpression) parseSqlRuleAction(rule.sqlRuleActionExpression);
+  }
+
+  /**
+   * Adds the given rule if it is not one of the current rules, or replaces the current rule with
+   * the same name if its filter or action is different, and records the change.
+   * @ignore
+   */
+  private async _applyRule(
+    rule: RuleDefinition,
+    currentRules: RuleDescription[],
+    changes: RuleChanges,
+    options?: OperationOptions
+  ): Promise<void> {
+    const currentRule = currentRules.find((x: RuleDescription) => x.name === rule.name);
+    if (!currentRule) {
+      await this.addRule(rule.name, rule.filter, rule.sqlRuleActionExpression, options);
+      changes.added.push(rule.name);
+      return;
+    }
+    if (
+      getRuleKey(currentRule.filter, currentRule.action && currentRule.action.expression) ===
+      getRuleKey(rule.filter, rule.sqlRuleActionExpression)
+    ) {
+      changes.unchanged.push(rule.name);
+      return;
+    }
+    const temporaryRuleName = generate_uuid();
+    log.mgmt(
+      "[%s] Replacing the rule '%s' of '%s' by using the temporary rule '%s'.",
+      this._context.namespace.connectionId,
+      rule.name,
+      this.entityPath,
+      temporaryRuleName
+    );
+    await this.addRule(temporaryRuleName, rule.filter, rule.sqlRuleActionExpression, options);
+    let isCurrentRuleRemoved = false;
+    try {
+      await this.removeRule(rule.name, options);
+      isCurrentRuleRemoved = true;
+      await this.addRule(rule.name, rule.filter, rule.sqlRuleActionExpression, options);
+    } catch (err) {
+      if (isCurrentRuleRemoved) {
+        // The temporary rule is kept, since it is the only rule with the desired filter and action.
+        log.error(
+          "[%s] An error occurred while replacing the rule '%s' of '%s', hence the temporary " +
+            "rule '%s' is kept: %O",
+          this._context.namespace.connectionId,
+          rule.name,
+          this.entityPath,
+          temporaryRuleName,
+          err
+        );
+      } else {
+        await this.removeRule(temporaryRuleName, options);
+      }
+      throw err;
+    }
+    await this.removeRule(temporaryRuleName, options);
+    changes.updated.push(rule.name);
+  }
+
   private _isMgmtRequestResponseLinkOpen(): boolean {
     return this._mgmtReqResLink! && this._mgmtReqResLink!.isOpen();
   }
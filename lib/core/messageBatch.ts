@@ -0,0 +1,286 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { message, messageProperties } from "rhea-promise";
+import { AmqpMessage, DataTransformer } from "@azure/amqp-common";
+import { SendableMessageInfo } from "../serviceBusMessage";
+import { OperationOptions } from "../util/abort";
+import { SendResult } from "./sendResult";
+import { IdempotencyOptions, withMessageId } from "./idempotency";
+import { Transaction } from "./transaction";
+
+/**
+ * Describes the options that can be provided while creating a MessageBatch.
+ * @interface CreateBatchOptions
+ */
+export interface CreateBatchOptions {
+  /**
+   * @property {number} [maxSizeInBytes] The maximum size of the batch message, in bytes. It can
+   * not exceed the maximum message size of the link, which is the default value.
+   */
+  maxSizeInBytes?: number;
+}
+
+/**
+ * Describes the options that can be provided while sending messages.
+ * @interface SendOptions
+ */
+export interface SendOptions extends OperationOptions {
+  /**
+   * @property {Transaction} [transaction] The transaction in the scope of which the messages are
+   * sent. They are delivered only once the transaction is committed.
+   */
+  transaction?: Transaction;
+}
+
+/**
+ * Describes the options that can be provided while sending a batch of messages.
+ * @interface SendBatchOptions
+ */
+export interface SendBatchOptions extends SendOptions {
+  /**
+   * @property {boolean} [split] Whether to split the messages into as many batch messages as
+   * needed, each filled up to the maximum message size of the link, instead of sending a single
+   * batch message. The timeout and the abort signal apply to each batch message.
+   * Default value: `false`.
+   */
+  split?: boolean;
+  /**
+   * @property {number} [maxConcurrentSends] The maximum number of batch messages that are sent
+   * at the same time, when the messages are split. Default value: `4`.
+   */
+  maxConcurrentSends?: number;
+}
+
+/**
+ * Describes a contiguous range of the messages provided to `sendBatch()` that could not be sent.
+ * @interface SendBatchSlice
+ */
+export interface SendBatchSlice {
+  /**
+   * @property {number} startIndex The index of the first message of the range.
+   */
+  startIndex: number;
+  /**
+   * @property {SendableMessageInfo[]} messages The messages of the range, with the `messageId`
+   * they were sent with, that can be provided to `sendBatch()` again.
+   */
+  messages: SendableMessageInfo[];
+  /**
+   * @property {Error} error The error that occurred while sending the messages.
+   */
+  error: Error;
+}
+
+/**
+ * Describes the outcome of sending messages that were split into multiple batch messages.
+ * @interface SendBatchResult
+ */
+export interface SendBatchResult {
+  /**
+   * @property {number} batchCount The number of batch messages into which the messages were
+   * split.
+   */
+  batchCount: number;
+  /**
+   * @property {number} sentMessageCount The number of messages that were sent.
+   */
+  sentMessageCount: number;
+  /**
+   * @property {SendResult[]} results The results of the batch messages that were sent, in the
+   * order in which they were accepted.
+   */
+  results: SendResult[];
+  /**
+   * @property {SendBatchSlice[]} failedSlices The ranges of messages that could not be sent,
+   * ordered by their index.
+   */
+  failedSlices: SendBatchSlice[];
+}
+
+/**
+ * The message format of a batch message.
+ * @ignore
+ */
+export const batchMessageFormat: number = 0x80013700;
+
+/**
+ * Converts the given message to an AMQP message, whose body is encoded with the given
+ * DataTransformer.
+ * @ignore
+ */
+export function toEncodableMessage(
+  data: SendableMessageInfo,
+  dataTransformer: DataTransformer
+): AmqpMessage {
+  const amqpMessage = SendableMessageInfo.toAmqpMessage(data);
+  amqpMessage.body = dataTransformer.encode(data.body);
+  return amqpMessage;
+}
+
+/**
+ * Creates the envelope (batch message) of the given encoded messages. The
+ * "message_annotations", "application_properties" and "properties" of the first message are set
+ * as that of the envelope.
+ * @ignore
+ */
+export function createBatchEnvelope(
+  firstMessage: AmqpMessage,
+  encodedMessages: Buffer[]
+): AmqpMessage {
+  // Every encoded message is converted to an AMQP data section.
+  const batchMessage: AmqpMessage = {
+    body: message.data_sections(encodedMessages)
+  };
+  if (firstMessage.message_annotations) {
+    batchMessage.message_annotations = firstMessage.message_annotations;
+  }
+  if (firstMessage.application_properties) {
+    batchMessage.application_properties = firstMessage.application_properties;
+  }
+  for (const prop of messageProperties) {
+    if ((firstMessage as any)[prop]) {
+      (batchMessage as any)[prop] = (firstMessage as any)[prop];
+    }
+  }
+  return batchMessage;
+}
+
+/**
+ * Provides the number of bytes that the data section of an encoded message of the given size
+ * adds to the envelope: the descriptor, followed by the binary with a 1 byte length up to 255
+ * bytes and a 4 byte length beyond.
+ * @ignore
+ */
+function getDataSectionSize(encodedMessageSize: number): number {
+  return 3 + (encodedMessageSize <= 255 ? 2 : 5) + encodedMessageSize;
+}
+
+/**
+ * Describes a batch of messages that is guaranteed to fit into a single batch message. It is
+ * created with `createBatch()` of a QueueClient or TopicClient, filled with `tryAdd()` and sent
+ * with `send()`. The size of the batch is computed from the same AMQP encoding that is sent.
+ * @class MessageBatch
+ */
+export class MessageBatch {
+  /**
+   * @property {number} maxSizeInBytes The maximum size of the batch message, in bytes.
+   * @readonly
+   */
+  readonly maxSizeInBytes: number;
+  /**
+   * @property {DataTransformer} _dataTransformer The DataTransformer that encodes the bodies.
+   * @private
+   */
+  private readonly _dataTransformer: DataTransformer;
+  /**
+   * @property {IdempotencyOptions} [_idempotency] The options to derive the `messageId` of the
+   * messages that do not have one.
+   * @private
+   */
+  private readonly _idempotency?: IdempotencyOptions;
+  /**
+   * @property {SendableMessageInfo[]} _messages The messages that were added.
+   * @private
+   */
+  private readonly _messages: SendableMessageInfo[] = [];
+  /**
+   * @property {Buffer[]} _encodedMessages The encoded messages that were added.
+   * @private
+   */
+  private readonly _encodedMessages: Buffer[] = [];
+  /**
+   * @property {AmqpMessage} [_firstMessage] The first message, whose properties are set as that
+   * of the envelope.
+   * @private
+   */
+  private _firstMessage?: AmqpMessage;
+  /**
+   * @property {number} _sizeInBytes The size of the batch message, in bytes.
+   * @private
+   */
+  private _sizeInBytes: number = 0;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {number} maxSizeInBytes The maximum size of the batch message, in bytes.
+   * @param {DataTransformer} dataTransformer The DataTransformer that encodes the bodies.
+   * @param {IdempotencyOptions} [idempotency] The options to derive the `messageId` of the
+   * messages that do not have one.
+   */
+  constructor(
+    maxSizeInBytes: number,
+    dataTransformer: DataTransformer,
+    idempotency?: IdempotencyOptions
+  ) {
+    this.maxSizeInBytes = maxSizeInBytes;
+    this._dataTransformer = dataTransformer;
+    this._idempotency = idempotency;
+  }
+
+  /**
+   * @property {number} count The number of messages in the batch.
+   * @readonly
+   */
+  get count(): number {
+    return this._messages.length;
+  }
+
+  /**
+   * @property {number} sizeInBytes The size of the batch message, in bytes. It is `0` while the
+   * batch is empty.
+   * @readonly
+   */
+  get sizeInBytes(): number {
+    return this._sizeInBytes;
+  }
+
+  /**
+   * @property {SendableMessageInfo[]} messages The messages in the batch, in the order in which
+   * they were added. The added messages that do not have a `messageId` are copied with the one
+   * they are sent with: the derived one in the idempotency mode, a random one otherwise.
+   * @readonly
+   */
+  get messages(): SendableMessageInfo[] {
+    return this._messages.slice();
+  }
+
+  /**
+   * Adds the given message to the batch if the batch message does not exceed the maximum size
+   * with it. The properties of the first message (e.g. the `sessionId` and the `partitionKey`)
+   * apply to the whole batch message.
+   * @param {SendableMessageInfo} data The message.
+   * @returns {boolean} `true` if the message was added, `false` if it does not fit. A message
+   * that does not fit into an empty batch can not be sent at all.
+   */
+  tryAdd(data: SendableMessageInfo): boolean {
+    if (!data || typeof data !== "object") {
+      throw new Error("data is required and it must be of type object.");
+    }
+    data = withMessageId(data, this._idempotency, this._dataTransformer);
+    const amqpMessage = toEncodableMessage(data, this._dataTransformer);
+    const encodedMessage = message.encode(amqpMessage);
+    const sizeInBytes = this._firstMessage
+      ? this._sizeInBytes + getDataSectionSize(encodedMessage.length)
+      : message.encode(createBatchEnvelope(amqpMessage, [encodedMessage])).length;
+    if (sizeInBytes > this.maxSizeInBytes) return false;
+    if (!this._firstMessage) this._firstMessage = amqpMessage;
+    this._messages.push(data);
+    this._encodedMessages.push(encodedMessage);
+    this._sizeInBytes = sizeInBytes;
+    return true;
+  }
+
+  /**
+   * Encodes the batch message.
+   * @ignore
+   * @returns {Buffer} The encoded batch message.
+   */
+  encode(): Buffer {
+    if (!this._firstMessage) {
+      throw new Error("The batch must contain at least one message.");
+    }
+    return message.encode(createBatchEnvelope(this._firstMessage, this._encodedMessages));
+  }
+}
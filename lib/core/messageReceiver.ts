@@ -3,11 +3,8 @@
 
 import {
   translate,
-  Constants,
   MessagingError,
-  retry,
   RetryOperationType,
-  RetryConfig,
   ConditionErrorNameMapper
 } from "@azure/amqp-common";
 import {
@@ -25,6 +22,9 @@ import { ServiceBusMessage, DispositionType, ReceiveMode } from "../serviceBusMe
 import { getUniqueName, calculateRenewAfterDuration } from "../util/utils";
 import { MessageHandlerOptions } from "./streamingReceiver";
 import { messageDispositionTimeout } from "../util/constants";
+import { retry, RetryConfig } from "../util/retry";
+import { PendingOperations } from "../util/pendingOperations";
+import { Transaction, withTransaction } from "./transaction";
 
 /**
  * @ignore
@@ -60,6 +60,7 @@ export interface PromiseLike {
 export interface DispositionOptions {
   propertiesToModify?: Dictionary<any>;
   error?: AmqpError;
+  transaction?: Transaction;
 }
 
 /**
@@ -146,6 +147,24 @@ export class MessageReceiver extends LinkEntity {
    * active dispositions.
    */
   protected _deliveryDispositionMap: Map<number, PromiseLike> = new Map<number, PromiseLike>();
+  /**
+   * @property {PendingOperations} _pendingMessageHandlers The message handlers (including the
+   * auto completion of the message) that are in progress.
+   * @protected
+   */
+  protected _pendingMessageHandlers: PendingOperations = new PendingOperations();
+  /**
+   * @property {boolean} _isDraining Indicates whether the receiver is being drained before it is
+   * closed. No more credit is added and new messages are not passed to the message handler.
+   * @protected
+   */
+  protected _isDraining: boolean = false;
+  /**
+   * @property {number} _creditWindow The number of messages that the receiver link is provided
+   * with credit for. It is `maxConcurrentCalls` once the link is created.
+   * @protected
+   */
+  protected _creditWindow: number = 0;
   /**
    * @property {OnMessage} _onMessage The message handler provided by the user that will be wrapped
    * inside _onAmqpMessage.
@@ -293,7 +312,7 @@ export class MessageReceiver extends LinkEntity {
       }
     };
 
-    this._onAmqpMessage = async (context: EventContext) => {
+    const processMessage = async (context: EventContext): Promise<void> => {
       const connectionId = this._context.namespace.connectionId;
       const bMessage: ServiceBusMessage = new ServiceBusMessage(
         this._context,
@@ -469,6 +488,21 @@ export class MessageReceiver extends LinkEntity {
       }
     };
 
+    this._onAmqpMessage = async (context: EventContext) => {
+      if (this._isDraining && this.receiveMode === ReceiveMode.peekLock) {
+        // The message has not been settled yet. Release it, so that it can be received again.
+        log.receiver(
+          "[%s] Receiver '%s' is being drained. Hence releasing the received message.",
+          this._context.namespace.connectionId,
+          this.name
+        );
+        context.delivery!.release();
+        return;
+      }
+      this._topUpCredit();
+      await this._pendingMessageHandlers.track(processMessage(context));
+    };
+
     this._onAmqpError = (context: EventContext) => {
       const connectionId = this._context.namespace.connectionId;
       const receiver = this._receiver || context.receiver!;
@@ -554,7 +588,9 @@ export class MessageReceiver extends LinkEntity {
             this.name,
             this.address
           );
-          await this.detached(receiverError);
+          await this.detached(receiverError).catch(() => {
+            // The error has already been logged by detached().
+          });
         } else {
           log.error(
             "[%s] 'receiver_close' event occurred on the receiver '%s' with address '%s' " +
@@ -602,7 +638,9 @@ export class MessageReceiver extends LinkEntity {
             this.name,
             this.address
           );
-          await this.detached(sessionError);
+          await this.detached(sessionError).catch(() => {
+            // The error has already been logged by detached().
+          });
         } else {
           log.error(
             "[%s] 'session_close' event occurred on the session of receiver '%s' with " +
@@ -630,7 +668,8 @@ export class MessageReceiver extends LinkEntity {
    * Will reconnect the receiver link if necessary.
    * @ignore
    * @param {AmqpError | Error} [receiverError] The receiver error if any.
-   * @returns {Promise<void>} Promise<void>.
+   * @returns {Promise<void>} Promise<void>. It is rejected with the error if the receiver link
+   * could not be re-established.
    */
   async detached(receiverError?: AmqpError | Error): Promise<void> {
     const connectionId = this._context.namespace.connectionId;
@@ -703,14 +742,13 @@ export class MessageReceiver extends LinkEntity {
         // provide a new name to the link while re-connecting it. This ensures that
         // the service does not send an error stating that the link is still open.
         const options: ReceiverOptions = this._createReceiverOptions(true);
-        // shall retry forever at an interval of 15 seconds if the error is a retryable error
+        // shall retry as per the link retry options if the error is a retryable error
         // else bail out when the error is not retryable or the oepration succeeds.
         const config: RetryConfig<void> = {
           operation: () => this._init(options),
           connectionId: connectionId,
           operationType: RetryOperationType.receiverLink,
-          times: Constants.defaultConnectionRetryAttempts,
-          delayInSeconds: 15
+          retryOptions: this._getLinkRetryOptions()
         };
         await retry<void>(config);
       }
@@ -722,6 +760,7 @@ export class MessageReceiver extends LinkEntity {
         this.address,
         err
       );
+      throw err;
     }
   }
 
@@ -771,26 +810,49 @@ export class MessageReceiver extends LinkEntity {
         reject: reject,
         timer: timer
       });
+      // In the scope of a transaction, the outcome is wrapped into the transactional state.
+      const settlement = withTransaction(delivery, options.transaction);
       if (operation === DispositionType.complete) {
-        delivery.accept();
+        settlement.accept();
       } else if (operation === DispositionType.abandon) {
         const params: any = {
           undeliverable_here: false
         };
         if (options.propertiesToModify) params.message_annotations = options.propertiesToModify;
-        delivery.modified(params);
+        settlement.modified(params);
       } else if (operation === DispositionType.defer) {
         const params: any = {
           undeliverable_here: true
         };
         if (options.propertiesToModify) params.message_annotations = options.propertiesToModify;
-        delivery.modified(params);
+        settlement.modified(params);
       } else if (operation === DispositionType.deadletter) {
-        delivery.reject(options.error || {});
+        settlement.reject(options.error || {});
       }
     });
   }
 
+  /**
+   * Stops adding credit to the receiver link and waits for the message handlers that are in
+   * progress to complete. Messages that are received after this, in `PeekLock` mode, are
+   * released instead of being passed to the message handler.
+   * @ignore
+   * @param {number} timeoutInMs The maximum amount of time to wait for the message handlers.
+   * @returns {Promise<number>} Promise<number> The number of message handlers that were still
+   * in progress when the timeout occurred.
+   */
+  async drain(timeoutInMs: number): Promise<number> {
+    this._isDraining = true;
+    log.receiver(
+      "[%s] Receiver '%s' is waiting for %d message handler(s) to complete.",
+      this._context.namespace.connectionId,
+      this.name,
+      this._pendingMessageHandlers.count
+    );
+    await this._pendingMessageHandlers.waitForAll(timeoutInMs);
+    return this._pendingMessageHandlers.count;
+  }
+
   /**
    * Determines whether the AMQP receiver link is open. If open then returns true else returns false.
    * @ignore
@@ -853,6 +915,8 @@ export class MessageReceiver extends LinkEntity {
 
         this._receiver = await this._context.namespace.connection.createReceiver(options);
         this.isConnecting = false;
+        this._creditWindow = this.maxConcurrentCalls || 0;
+        this._topUpCredit();
         log.error(
           "[%s] Receiver '%s' with address '%s' has established itself.",
           connectionId,
@@ -938,9 +1002,22 @@ export class MessageReceiver extends LinkEntity {
       source: {
         address: this.address
       },
-      credit_window: this.maxConcurrentCalls,
+      // The credit is added by the receiver itself, see _topUpCredit().
+      credit_window: 0,
       ...options
     };
     return rcvrOptions;
   }
+
+  /**
+   * Adds credit to the receiver link up to the credit window, unless the receiver is being
+   * drained. The credit window of rhea is not used, as the credit that it adds can not be stopped.
+   * @protected
+   */
+  protected _topUpCredit(): void {
+    if (this._isDraining || !this._receiver || !this._creditWindow) return;
+    // As rhea does, the credit is added in chunks of at least a quarter of the window.
+    const credit = this._creditWindow - this._receiver.credit;
+    if (credit > 0 && credit >= this._creditWindow / 4) this._receiver.addCredit(credit);
+  }
 }
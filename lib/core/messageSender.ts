@@ -3,7 +3,6 @@
 
 import * as log from "../log";
 import {
-  messageProperties,
   Sender,
   EventContext,
   OnAmqpEvent,
@@ -16,20 +15,46 @@ import {
 } from "rhea-promise";
 import {
   defaultLock,
-  Func,
-  retry,
   translate,
   AmqpMessage,
   ErrorNameConditionMapper,
-  RetryConfig,
-  RetryOperationType,
-  Constants,
-  randomNumberFromInterval
+  RetryOperationType
 } from "@azure/amqp-common";
 import { SendableMessageInfo } from "../serviceBusMessage";
 import { ClientEntityContext } from "../clientEntityContext";
 import { LinkEntity } from "./linkEntity";
 import { getUniqueName } from "../util/utils";
+import { retry, RetryConfig, normalizeRetryOptions } from "../util/retry";
+import { PendingOperations } from "../util/pendingOperations";
+import { OperationCancellation, runOperation } from "../util/abort";
+import { Semaphore } from "../util/semaphore";
+import { SendResult, SendOutcome, SendState, createSendResult } from "./sendResult";
+import { withMessageId } from "./idempotency";
+import { Transaction, enlistDelivery, transferDestinationAddressProperty } from "./transaction";
+import { createTransactionalSender } from "./transactionAdapter";
+import {
+  MessageBatch,
+  SendOptions,
+  SendBatchOptions,
+  SendBatchResult,
+  SendBatchSlice,
+  batchMessageFormat,
+  createBatchEnvelope,
+  toEncodableMessage
+} from "./messageBatch";
+
+/**
+ * The maximum message size that is assumed if the service does not provide one for the link, as
+ * per the Standard tier.
+ * @ignore
+ */
+const defaultMaxMessageSizeInBytes: number = 256 * 1024;
+
+/**
+ * The maximum number of batch messages that are sent at the same time while splitting messages.
+ * @ignore
+ */
+const defaultMaxConcurrentSends: number = 4;
 
 /**
  * @ignore
@@ -38,6 +63,25 @@ interface CreateSenderOptions {
   newName?: boolean;
 }
 
+/**
+ * A message that was sent on the link and is waiting for its outcome.
+ * @ignore
+ */
+interface InFlightSend {
+  onOutcome: (outcome: SendOutcome, context: EventContext) => void;
+  release: () => void;
+  isTransactional: boolean;
+}
+
+/**
+ * A message that has a slot of the send window and waits for its link to have credit.
+ * @ignore
+ */
+interface CreditWaiter {
+  transfer: () => void;
+  isTransactional: boolean;
+}
+
 /**
  * Describes the MessageSender that will send messages to ServiceBus.
  * @class MessageSender
@@ -73,11 +117,78 @@ export class MessageSender extends LinkEntity {
    * @private
    */
   private _onSessionClose: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onAccepted The handler that settles the send operation of a delivery
+   * that was accepted.
+   * @readonly
+   */
+  private readonly _onAccepted: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onRejected The handler that settles the send operation of a delivery
+   * that was rejected.
+   * @readonly
+   */
+  private readonly _onRejected: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onReleased The handler that settles the send operation of a delivery
+   * that was released.
+   * @readonly
+   */
+  private readonly _onReleased: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onModified The handler that settles the send operation of a delivery
+   * that was modified.
+   * @readonly
+   */
+  private readonly _onModified: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onSendable The handler that sends the messages that wait for credit
+   * once the link has credit.
+   * @readonly
+   */
+  private readonly _onSendable: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onTransactionalClose The handler that closes the transactional link
+   * once it or its session has been closed by ServiceBus.
+   * @readonly
+   */
+  private readonly _onTransactionalClose: OnAmqpEvent;
   /**
    * @property {Sender} [_sender] The AMQP sender link.
    * @private
    */
   private _sender?: Sender;
+  /**
+   * @property {Sender} [_transactionalSender] The AMQP sender link of the messages that are sent
+   * in the scope of a transaction. It is attached to the same address as the sender link, on a
+   * session of its own that supports transactions.
+   * @private
+   */
+  private _transactionalSender?: Sender;
+  /**
+   * @property {Semaphore} _sendWindow Bounds the number of messages that are waiting for their
+   * outcome on the link.
+   * @private
+   */
+  private _sendWindow: Semaphore;
+  /**
+   * @property {Map<Delivery, InFlightSend>} _inFlight The deliveries that are waiting for their
+   * outcome, along with the send operations they settle.
+   * @private
+   */
+  private _inFlight: Map<Delivery, InFlightSend> = new Map<Delivery, InFlightSend>();
+  /**
+   * @property {Array<CreditWaiter>} _creditWaiters The messages that have a slot of the send
+   * window and wait for their link to have credit, in the order in which they are sent.
+   * @private
+   */
+  private _creditWaiters: CreditWaiter[] = [];
+  /**
+   * @property {PendingOperations} _pendingSends The send operations that are waiting for the
+   * message to be accepted or rejected by ServiceBus.
+   * @private
+   */
+  private _pendingSends: PendingOperations = new PendingOperations();
 
   /**
    * Creates a new MessageSender instance.
@@ -85,9 +196,14 @@ export class MessageSender extends LinkEntity {
    * @param {ClientEntityContext} context The client entity context.
    */
   constructor(context: ClientEntityContext) {
+    // A sender that sends via a transfer entity is attached to the transfer entity.
     super(context.entityPath, context, {
-      address: context.entityPath,
-      audience: `${context.namespace.config.endpoint}${context.entityPath}`
+      address: context.viaEntityPath || context.entityPath,
+      audience: `${context.namespace.config.endpoint}${context.viaEntityPath ||
+        context.entityPath}`,
+      transferDestinationAudience: context.viaEntityPath
+        ? `${context.namespace.config.endpoint}${context.entityPath}`
+        : undefined
     });
     this._onAmqpError = (context: EventContext) => {
       const senderError = context.sender && context.sender.error;
@@ -102,6 +218,46 @@ export class MessageSender extends LinkEntity {
       }
     };
 
+    const onOutcome = (outcome: SendOutcome) => (context: EventContext) => {
+      const inFlight = context.delivery && this._inFlight.get(context.delivery);
+      if (!inFlight) {
+        log.error(
+          "[%s] Sender '%s', got event %s for a delivery that is no longer awaited.",
+          this._context.namespace.connectionId,
+          this.name,
+          outcome
+        );
+        return;
+      }
+      log.sender(
+        "[%s] Sender '%s', got event %s.",
+        this._context.namespace.connectionId,
+        this.name,
+        outcome
+      );
+      inFlight.onOutcome(outcome, context);
+    };
+    this._onAccepted = onOutcome("accepted");
+    this._onRejected = onOutcome("rejected");
+    this._onReleased = onOutcome("released");
+    this._onModified = onOutcome("modified");
+    this._onSendable = () => this._resumeSends();
+    this._onTransactionalClose = async (context: EventContext) => {
+      const link = this._transactionalSender;
+      if (!link || (context.sender !== link && context.session !== link.session)) return;
+      const linkError =
+        (context.sender && context.sender.error) || (context.session && context.session.error);
+      log.error(
+        "[%s] The transactional link of sender '%s' with address '%s' has been closed: %O",
+        this._context.namespace.connectionId,
+        this.name,
+        this.address,
+        linkError
+      );
+      await this._closeTransactionalLink();
+    };
+    this._sendWindow = new Semaphore(context.namespace.maxInFlightSends);
+
     this._onSessionError = (context: EventContext) => {
       const sessionError = context.session && context.session.error;
       if (sessionError) {
@@ -138,7 +294,9 @@ export class MessageSender extends LinkEntity {
             this.name,
             this.address
           );
-          await this.detached(senderError);
+          await this.detached(senderError).catch(() => {
+            // The error has already been logged by detached().
+          });
         } else {
           log.error(
             "[%s] 'sender_close' event occurred on the sender '%s' with address '%s' " +
@@ -184,7 +342,9 @@ export class MessageSender extends LinkEntity {
             this.name,
             this.address
           );
-          await this.detached(sessionError);
+          await this.detached(sessionError).catch(() => {
+            // The error has already been logged by detached().
+          });
         } else {
           log.error(
             "[%s] 'session_close' event occurred on the session of sender '%s' with " +
@@ -212,7 +372,8 @@ export class MessageSender extends LinkEntity {
    * Will reconnect the sender link if necessary.
    * @ignore
    * @param {AmqpError | Error} [senderError] The sender error if any.
-   * @returns {Promise<void>} Promise<void>.
+   * @returns {Promise<void>} Promise<void>. It is rejected with the error if the sender link
+   * could not be re-established.
    */
   async detached(senderError?: AmqpError | Error): Promise<void> {
     try {
@@ -220,6 +381,7 @@ export class MessageSender extends LinkEntity {
       // Clears the token renewal timer. Closes the link and its session if they are open.
       // Removes the link and its session if they are present in rhea's cache.
       await this._closeLink(this._sender);
+      this._releaseInFlight(false);
       // We should attempt to reopen only when the sender(sdk) did not initiate the close
       let shouldReopen = false;
       if (senderError && !wasCloseInitiated) {
@@ -273,14 +435,13 @@ export class MessageSender extends LinkEntity {
           const options: SenderOptions = this._createSenderOptions({
             newName: true
           });
-          // shall retry forever at an interval of 15 seconds if the error is a retryable error
+          // shall retry as per the link retry options if the error is a retryable error
           // else bail out when the error is not retryable or the oepration succeeds.
           const config: RetryConfig<void> = {
             operation: () => this._init(options),
             connectionId: this._context.namespace.connectionId!,
             operationType: RetryOperationType.senderLink,
-            times: Constants.defaultConnectionRetryAttempts,
-            delayInSeconds: 15
+            retryOptions: this._getLinkRetryOptions()
           };
           return retry<void>(config);
         });
@@ -294,6 +455,7 @@ export class MessageSender extends LinkEntity {
         this.address,
         err
       );
+      throw err;
     }
   }
 
@@ -307,7 +469,27 @@ export class MessageSender extends LinkEntity {
       const senderLink = this._sender;
       this._deleteFromCache();
       await this._closeLink(senderLink);
+      this._releaseInFlight(false);
     }
+    await this._closeTransactionalLink();
+  }
+
+  /**
+   * Waits for the send operations that are in progress to complete.
+   * @ignore
+   * @param {number} timeoutInMs The maximum amount of time to wait for the send operations.
+   * @returns {Promise<number>} Promise<number> The number of send operations that were still in
+   * progress when the timeout occurred.
+   */
+  async drain(timeoutInMs: number): Promise<number> {
+    log.sender(
+      "[%s] Sender '%s' is waiting for %d send operation(s) to complete.",
+      this._context.namespace.connectionId,
+      this.name,
+      this._pendingSends.count
+    );
+    await this._pendingSends.waitForAll(timeoutInMs);
+    return this._pendingSends.count;
   }
 
   /**
@@ -330,32 +512,99 @@ export class MessageSender extends LinkEntity {
   /**
    * Sends the given message, with the given options on this link
    *
-   * @param {any} data Message to send.  Will be sent as UTF8-encoded JSON string.
-   * @returns {Promise<Delivery>} Promise<Delivery>
+   * @param {any} data Message to send.  Will be sent as UTF8-encoded JSON string. A MessageBatch
+   * is sent as a batch message.
+   * @param {SendOptions} [options] The options to bound or cancel the operation, and to send in
+   * the scope of a transaction.
+   * @returns {Promise<SendResult>} Promise<SendResult>
    */
-  async send(data: SendableMessageInfo): Promise<Delivery> {
+  async send(data: SendableMessageInfo | MessageBatch, options?: SendOptions): Promise<SendResult> {
+    const startTime = Date.now();
+    const state: SendState = {};
+    const batch = data instanceof MessageBatch ? data : undefined;
+    if (!batch) data = this.prepareMessage(data as SendableMessageInfo);
+    const datas = batch ? batch.messages : [data as SendableMessageInfo];
+    const transaction = options && options.transaction;
     try {
       if (!data || (data && typeof data !== "object")) {
         throw new Error("data is required and it must be of type object.");
       }
-
-      if (!this.isOpen()) {
-        log.sender(
-          "Acquiring lock %s for initializing the session, sender and " +
-            "possibly the connection.",
-          this.senderLock
-        );
-        await defaultLock.acquire(this.senderLock, () => {
-          return this._init();
-        });
+      if (batch && !batch.count) {
+        throw new Error("The batch must contain at least one message.");
       }
-      const message = SendableMessageInfo.toAmqpMessage(data);
-      message.body = this._context.namespace.dataTransformer.encode(data.body);
-      return await this._trySend(message);
+      if (transaction) transaction.throwIfNotUsable(this._context.namespace);
+
+      // Fail fast while the connection is not healthy.
+      const circuitBreaker = this._context.namespace.circuitBreaker;
+      circuitBreaker.throwIfOpen("send");
+      await circuitBreaker.track(
+        runOperation("send", options, async (cancellation: OperationCancellation) => {
+          await this._ensureOpen();
+          cancellation.throwIfCancelled();
+          if (batch) {
+            return this._trySend(
+              batch.encode(),
+              undefined,
+              batchMessageFormat,
+              cancellation,
+              state,
+              transaction
+            );
+          }
+          const message = toEncodableMessage(
+            data as SendableMessageInfo,
+            this._context.namespace.dataTransformer
+          );
+          return this._trySend(message, undefined, undefined, cancellation, state, transaction);
+        })
+      );
+      return createSendResult(this._context.entityPath, datas, startTime, "accepted");
     } catch (err) {
       log.error("An error occurred while sending the message %O", err);
-      throw err;
+      throw this._withSendResult(err, datas, startTime, state);
+    }
+  }
+
+  /**
+   * Creates an empty MessageBatch, whose maximum size is the maximum message size of the link.
+   * The link is opened if it is not open.
+   * @ignore
+   * @param {number} [maxSizeInBytes] The maximum size of the batch, that can not exceed the
+   * maximum message size of the link.
+   * @returns {Promise<MessageBatch>} Promise<MessageBatch>
+   */
+  async createBatch(maxSizeInBytes?: number): Promise<MessageBatch> {
+    if (
+      maxSizeInBytes != undefined &&
+      (typeof maxSizeInBytes !== "number" || !isFinite(maxSizeInBytes) || maxSizeInBytes <= 0)
+    ) {
+      throw new Error("'maxSizeInBytes' must be of type 'number' with a value greater than 0.");
     }
+    await this._ensureOpen();
+    const linkMaxSizeInBytes = this._sender!.maxMessageSize || defaultMaxMessageSizeInBytes;
+    if (maxSizeInBytes != undefined && maxSizeInBytes > linkMaxSizeInBytes) {
+      throw new Error(
+        `'maxSizeInBytes' can not exceed the maximum message size of the link, which is ` +
+          `${linkMaxSizeInBytes} bytes.`
+      );
+    }
+    return this.newBatch(maxSizeInBytes || linkMaxSizeInBytes);
+  }
+
+  /**
+   * Creates an empty MessageBatch of the given maximum size, that encodes the bodies and derives
+   * the `messageId` of the messages as per the options of the client. Every batch of the client
+   * is created through it.
+   * @ignore
+   * @param {number} maxSizeInBytes The maximum size of the batch.
+   * @returns {MessageBatch} MessageBatch
+   */
+  newBatch(maxSizeInBytes: number): MessageBatch {
+    return new MessageBatch(
+      maxSizeInBytes,
+      this._context.namespace.dataTransformer,
+      this._context.idempotency
+    );
   }
 
   /**
@@ -364,68 +613,217 @@ export class MessageSender extends LinkEntity {
    * of the envelope (batch message).
    * @param {Array<Message>} datas  An array of Message objects to be sent in a
    * Batch message.
-   * @return {Promise<Delivery>} Promise<Delivery>
+   * @param {SendOptions} [options] The options to bound or cancel the operation, and to send in
+   * the scope of a transaction.
+   * @return {Promise<SendResult>} Promise<SendResult>
    */
-  async sendBatch(datas: SendableMessageInfo[]): Promise<Delivery> {
+  async sendBatch(datas: SendableMessageInfo[], options?: SendOptions): Promise<SendResult> {
+    const startTime = Date.now();
+    const state: SendState = {};
+    const transaction = options && options.transaction;
     try {
       if (!datas || (datas && !Array.isArray(datas))) {
         throw new Error("data is required and it must be an Array.");
       }
+      datas = datas.map((data: SendableMessageInfo) => this.prepareMessage(data));
+      if (transaction) transaction.throwIfNotUsable(this._context.namespace);
 
-      if (!this.isOpen()) {
-        log.sender(
-          "Acquiring lock %s for initializing the session, sender and " +
-            "possibly the connection.",
-          this.senderLock
-        );
-        await defaultLock.acquire(this.senderLock, () => {
-          return this._init();
-        });
-      }
-      log.sender(
-        "[%s] Sender '%s', trying to send Message[]: %O",
-        this._context.namespace.connectionId,
-        this.name,
-        datas
+      const circuitBreaker = this._context.namespace.circuitBreaker;
+      circuitBreaker.throwIfOpen("sendBatch");
+      await circuitBreaker.track(
+        runOperation("sendBatch", options, async (cancellation: OperationCancellation) => {
+          await this._ensureOpen();
+          cancellation.throwIfCancelled();
+          log.sender(
+            "[%s] Sender '%s', trying to send Message[]: %O",
+            this._context.namespace.connectionId,
+            this.name,
+            datas
+          );
+          // Convert Message to AmqpMessage.
+          const messages: AmqpMessage[] = datas.map((data: SendableMessageInfo) =>
+            toEncodableMessage(data, this._context.namespace.dataTransformer)
+          );
+          // Encode every amqp message and then set message_annotations, application_properties
+          // and properties of the first message as that of the envelope (batch message).
+          const batchMessage = createBatchEnvelope(messages[0], messages.map(message.encode));
+
+          // Finally encode the envelope (batch message).
+          const encodedBatchMessage = message.encode(batchMessage);
+          log.sender(
+            "[%s]Sender '%s', sending encoded batch message.",
+            this._context.namespace.connectionId,
+            this.name,
+            encodedBatchMessage
+          );
+          return this._trySend(
+            encodedBatchMessage,
+            undefined,
+            batchMessageFormat,
+            cancellation,
+            state,
+            transaction
+          );
+        })
       );
-      const messages: AmqpMessage[] = [];
-      // Convert Message to AmqpMessage.
-      for (let i = 0; i < datas.length; i++) {
-        const message = SendableMessageInfo.toAmqpMessage(datas[i]);
-        message.body = this._context.namespace.dataTransformer.encode(datas[i].body);
-        messages[i] = message;
-      }
-      // Encode every amqp message and then convert every encoded message to amqp data section
-      const batchMessage: AmqpMessage = {
-        body: message.data_sections(messages.map(message.encode))
-      };
-      // Set message_annotations, application_properties and properties of the first message as
-      // that of the envelope (batch message).
-      if (messages[0].message_annotations) {
-        batchMessage.message_annotations = messages[0].message_annotations;
-      }
-      if (messages[0].application_properties) {
-        batchMessage.application_properties = messages[0].application_properties;
-      }
-      for (const prop of messageProperties) {
-        if ((messages[0] as any)[prop]) {
-          (batchMessage as any)[prop] = (messages[0] as any)[prop];
+      return createSendResult(this._context.entityPath, datas, startTime, "accepted");
+    } catch (err) {
+      log.error("An error occurred while sending the batch message %O", err);
+      throw this._withSendResult(err, Array.isArray(datas) ? datas : [], startTime, state);
+    }
+  }
+
+  /**
+   * Sends the given messages as as many batch messages as needed, each filled up to the maximum
+   * message size of the link. The messages are kept in order within a batch message, and a new
+   * batch message is started whenever the `sessionId`, the `partitionKey` or the
+   * `viaPartitionKey` changes, since the ones of the first message apply to the whole batch
+   * message.
+   * @ignore
+   * @param {SendableMessageInfo[]} datas The messages to send.
+   * @param {SendBatchOptions} [options] The options to bound the concurrency and to bound or
+   * cancel the send operation of every batch message.
+   * @returns {Promise<SendBatchResult>} Promise<SendBatchResult> It is not rejected if some
+   * messages could not be sent; they are reported as the failed slices instead.
+   */
+  async sendSplitBatches(
+    datas: SendableMessageInfo[],
+    options?: SendBatchOptions
+  ): Promise<SendBatchResult> {
+    if (!datas || (datas && !Array.isArray(datas))) {
+      throw new Error("data is required and it must be an Array.");
+    }
+    datas = datas.map((data: SendableMessageInfo) => this.prepareMessage(data));
+    if (!options) options = {};
+    const maxConcurrentSends =
+      options.maxConcurrentSends != undefined
+        ? options.maxConcurrentSends
+        : defaultMaxConcurrentSends;
+    if (
+      typeof maxConcurrentSends !== "number" ||
+      !Number.isInteger(maxConcurrentSends) ||
+      maxConcurrentSends < 1
+    ) {
+      throw new Error("'maxConcurrentSends' must be of type 'number' with a value greater than 0.");
+    }
+    const operationOptions: SendOptions = {
+      timeoutInMs: options.timeoutInMs,
+      abortSignal: options.abortSignal,
+      transaction: options.transaction
+    };
+    const result: SendBatchResult = {
+      batchCount: 0,
+      sentMessageCount: 0,
+      results: [],
+      failedSlices: []
+    };
+    if (!datas.length) return result;
+
+    let batch = await this.createBatch();
+    const maxSizeInBytes = batch.maxSizeInBytes;
+    const batches: Array<{ startIndex: number; batch: MessageBatch }> = [];
+    let startIndex = 0;
+    for (let i = 0; i < datas.length; i++) {
+      const first = batch.count ? batch.messages[0] : undefined;
+      const isSameEnvelope =
+        !first ||
+        (first.sessionId === datas[i].sessionId &&
+          first.partitionKey === datas[i].partitionKey &&
+          first.viaPartitionKey === datas[i].viaPartitionKey);
+      let isAdded: boolean;
+      try {
+        isAdded = isSameEnvelope && batch.tryAdd(datas[i]);
+        if (!isAdded && batch.count) {
+          batches.push({ startIndex: startIndex, batch: batch });
+          batch = this.newBatch(maxSizeInBytes);
+          isAdded = batch.tryAdd(datas[i]);
+        }
+        if (!isAdded) {
+          throw new Error(
+            `The message at index ${i} exceeds the maximum message size of ${maxSizeInBytes} ` +
+              `bytes.`
+          );
         }
+        if (batch.count === 1) startIndex = i;
+      } catch (err) {
+        result.failedSlices.push({ startIndex: i, messages: [datas[i]], error: err });
       }
+    }
+    if (batch.count) batches.push({ startIndex: startIndex, batch: batch });
+    result.batchCount = batches.length;
 
-      // Finally encode the envelope (batch message).
-      const encodedBatchMessage = message.encode(batchMessage);
-      log.sender(
-        "[%s]Sender '%s', sending encoded batch message.",
-        this._context.namespace.connectionId,
-        this.name,
-        encodedBatchMessage
+    log.sender(
+      "[%s] Sender '%s', sending %d message(s) as %d batch message(s).",
+      this._context.namespace.connectionId,
+      this.name,
+      datas.length,
+      batches.length
+    );
+    const semaphore = new Semaphore(maxConcurrentSends);
+    await Promise.all(
+      batches.map((item: { startIndex: number; batch: MessageBatch }) =>
+        semaphore
+          .use(() => this.send(item.batch, operationOptions))
+          .then(
+            (sendResult: SendResult) => {
+              result.sentMessageCount += item.batch.count;
+              result.results.push(sendResult);
+            },
+            (err: Error) => {
+              result.failedSlices.push({
+                startIndex: item.startIndex,
+                messages: item.batch.messages,
+                error: err
+              });
+            }
+          )
+      )
+    );
+    result.failedSlices.sort((a: SendBatchSlice, b: SendBatchSlice) => a.startIndex - b.startIndex);
+    return result;
+  }
+
+  /**
+   * Prepares the given message to be sent: it is provided with a `messageId` if it does not have
+   * one, which is deterministic in the idempotency mode and random otherwise, and, if it is sent via a transfer entity, with the `viaPartitionKey` of the
+   * partition of the entity it is sent to (its `sessionId` or else its `partitionKey`), so that
+   * the messages of a partition are transferred together and in order.
+   * @ignore
+   * @param {SendableMessageInfo} data The message to send.
+   * @returns {SendableMessageInfo} The message as is, or a copy of it if it was changed.
+   */
+  prepareMessage(data: SendableMessageInfo): SendableMessageInfo {
+    if (
+      this._context.viaEntityPath &&
+      data &&
+      typeof data === "object" &&
+      data.viaPartitionKey == undefined
+    ) {
+      const viaPartitionKey = data.sessionId != undefined ? data.sessionId : data.partitionKey;
+      if (viaPartitionKey != undefined) data = { ...data, viaPartitionKey: viaPartitionKey };
+    }
+    return withMessageId(data, this._context.idempotency, this._context.namespace.dataTransformer);
+  }
+
+  /**
+   * Sets the result of the failed send operation as the `sendResult` of the given error.
+   */
+  private _withSendResult(
+    err: any,
+    datas: SendableMessageInfo[],
+    startTime: number,
+    state: SendState
+  ): any {
+    if (err && typeof err === "object" && !err.sendResult) {
+      err.sendResult = createSendResult(
+        this._context.entityPath,
+        datas.filter((data: SendableMessageInfo) => data && typeof data === "object"),
+        startTime,
+        state.outcome || "failed",
+        err
       );
-      return await this._trySend(encodedBatchMessage, undefined, 0x80013700);
-    } catch (err) {
-      log.error("An error occurred while sending the batch message %O", err);
-      throw err;
     }
+    return err;
   }
 
   private _deleteFromCache(): void {
@@ -439,6 +837,22 @@ export class MessageSender extends LinkEntity {
     );
   }
 
+  /**
+   * Opens the session, the sender and possibly the connection, if the sender is not open.
+   * @returns {Promise<void>} Promise<void>
+   */
+  private async _ensureOpen(): Promise<void> {
+    if (!this.isOpen()) {
+      log.sender(
+        "Acquiring lock %s for initializing the session, sender and " + "possibly the connection.",
+        this.senderLock
+      );
+      await defaultLock.acquire(this.senderLock, () => {
+        return this._init();
+      });
+    }
+  }
+
   private _createSenderOptions(options: CreateSenderOptions): SenderOptions {
     if (options.newName) this.name = getUniqueName(this._context.entityPath);
     const srOptions: SenderOptions = {
@@ -446,170 +860,291 @@ export class MessageSender extends LinkEntity {
       target: {
         address: this.address
       },
+      onAccepted: this._onAccepted,
+      onRejected: this._onRejected,
+      onReleased: this._onReleased,
+      onModified: this._onModified,
       onError: this._onAmqpError,
       onClose: this._onAmqpClose,
       onSessionError: this._onSessionError,
       onSessionClose: this._onSessionClose
     };
+    if (this._context.viaEntityPath) {
+      srOptions.properties = { [transferDestinationAddressProperty]: this._context.entityPath };
+    }
     log.sender("Creating sender with options: %O", srOptions);
     return srOptions;
   }
 
   /**
-   * Tries to send the message to ServiceBus if there is enough credit to send them
-   * and the circular buffer has available space to settle the message after sending them.
-   *
-   * We have implemented a synchronous send over here in the sense that we shall be waiting
-   * for the message to be accepted or rejected and accordingly resolve or reject the promise.
+   * Tries to send the message to ServiceBus once a slot of the send window is free and the link
+   * has credit. Up to `maxInFlightSends` messages can be waiting for their outcome on the link at
+   * the same time; the outcome of a delivery settles the attempt that sent it. The attempt times
+   * out if the link has no credit for the message, or if the outcome of the delivery is not
+   * received in time; a delivery that timed out keeps its slot until its outcome is received or
+   * the link is closed. The messages are sent in the order in which the attempts are made: a
+   * retried attempt is sent after the messages that were sent in the meantime, and may be
+   * received by ServiceBus more than once if the delivery that timed out is accepted as well.
    *
    * @param message The message to be sent to ServiceBus.
+   * @param cancellation The cancellation of the operation. Once it is cancelled the attempt is
+   * settled and no further attempts are made.
+   * @param state The state in which the outcome of the last attempt is recorded.
+   * @param transaction The transaction in the scope of which the message is sent.
    * @return {Promise<Delivery>} Promise<Delivery>
    */
-  private _trySend(message: SendableMessageInfo, tag?: any, format?: number): Promise<Delivery> {
+  private _trySend(
+    message: AmqpMessage | Buffer,
+    tag?: any,
+    format?: number,
+    cancellation?: OperationCancellation,
+    state?: SendState,
+    transaction?: Transaction
+  ): Promise<Delivery> {
+    if (!state) state = {};
+    const sendState = state;
+    const retryOptions = normalizeRetryOptions(this._context.namespace.retryOptions);
     const sendEventPromise = () =>
       new Promise<Delivery>((resolve, reject) => {
+        sendState.outcome = "failed";
+        if (cancellation && cancellation.error) {
+          return reject(cancellation.error);
+        }
+        let isSettled = false;
+        let hasWindowSlot = false;
+        let delivery: Delivery | undefined;
+        let waiter: CreditWaiter;
         let waitTimer: any;
-        log.sender(
-          "[%s] Sender '%s', credit: %d available: %d",
-          this._context.namespace.connectionId,
-          this.name,
-          this._sender!.credit,
-          this._sender!.session.outgoing.available()
-        );
-        if (this._sender!.sendable()) {
-          log.sender(
-            "[%s] Sender '%s', sending message: %O",
-            this._context.namespace.connectionId,
-            this.name,
-            message
-          );
-          let onRejected: Func<EventContext, void>;
-          let onReleased: Func<EventContext, void>;
-          let onModified: Func<EventContext, void>;
-          let onAccepted: Func<EventContext, void>;
-          const removeListeners = (): void => {
-            clearTimeout(waitTimer);
-            this._sender!.removeListener(SenderEvents.rejected, onRejected);
-            this._sender!.removeListener(SenderEvents.accepted, onAccepted);
-            this._sender!.removeListener(SenderEvents.released, onReleased);
-            this._sender!.removeListener(SenderEvents.modified, onModified);
-          };
+        let removeCancelHandler = (): void => undefined;
+        const release = (): void => {
+          if (delivery) this._inFlight.delete(delivery);
+          if (hasWindowSlot) {
+            hasWindowSlot = false;
+            this._sendWindow.release();
+          }
+        };
+        const settle = (error?: Error, result?: Delivery): void => {
+          if (isSettled) return;
+          isSettled = true;
+          clearTimeout(waitTimer);
+          removeCancelHandler();
+          const index = this._creditWaiters.indexOf(waiter);
+          if (index !== -1) this._creditWaiters.splice(index, 1);
+          // A delivery that is still waiting for its outcome keeps its slot until it is released.
+          if (!delivery) release();
+          if (error) {
+            reject(error);
+          } else {
+            resolve(result);
+          }
+        };
 
-          onAccepted = (context: EventContext) => {
-            // Since we will be adding listener for accepted and rejected event every time
-            // we send a message, we need to remove listener for both the events.
-            // This will ensure duplicate listeners are not added for the same event.
-            removeListeners();
-            log.sender(
-              "[%s] Sender '%s', got event accepted.",
-              this._context.namespace.connectionId,
-              this.name
-            );
-            resolve(context.delivery);
-          };
-          onRejected = (context: EventContext) => {
-            removeListeners();
-            log.error(
-              "[%s] Sender '%s', got event rejected.",
-              this._context.namespace.connectionId,
-              this.name
-            );
-            const err = translate(context!.delivery!.remote_state!.error);
-            log.error(err);
-            reject(err);
-          };
-          onReleased = (context: EventContext) => {
-            removeListeners();
-            log.error(
-              "[%s] Sender '%s', got event released.",
-              this._context.namespace.connectionId,
-              this.name
+        const onOutcome = (outcome: SendOutcome, context: EventContext): void => {
+          release();
+          if (isSettled) return;
+          sendState.outcome = outcome;
+          if (outcome === "accepted") {
+            return settle(undefined, context.delivery);
+          }
+          let err: Error;
+          const remoteState = context.delivery!.remote_state;
+          if (remoteState && remoteState.error) {
+            err = translate(remoteState.error);
+          } else {
+            err = new Error(
+              `[${this._context.namespace.connectionId}] Sender '${this.name}', ` +
+                `received a ${outcome === "released" ? "release" : "modified"} disposition. ` +
+                `Hence we are rejecting the promise.`
             );
-            let err: Error;
-            if (context!.delivery!.remote_state!.error) {
-              err = translate(context!.delivery!.remote_state!.error);
-            } else {
-              err = new Error(
-                `[${this._context.namespace.connectionId}]Sender '${this.name}', ` +
-                  `received a release disposition.Hence we are rejecting the promise.`
-              );
-            }
-            log.error(err);
-            reject(err);
-          };
-          onModified = (context: EventContext) => {
-            removeListeners();
-            log.error(
-              "[%s] Sender '%s', got event modified.",
-              this._context.namespace.connectionId,
-              this.name
-            );
-            let err: Error;
-            if (context!.delivery!.remote_state!.error) {
-              err = translate(context!.delivery!.remote_state!.error);
-            } else {
-              err = new Error(
-                `[${this._context.namespace.connectionId}]Sender "${this.name}", ` +
-                  `received a modified disposition.Hence we are rejecting the promise.`
-              );
-            }
-            log.error(err);
-            reject(err);
-          };
+          }
+          log.error(err);
+          settle(err);
+        };
 
-          const actionAfterTimeout = () => {
-            removeListeners();
-            const desc: string =
-              `[${this._context.namespace.connectionId}] Sender "${this.name}" ` +
-              `with address "${this.address}", was not able to send the message right now, due ` +
-              `to operation timeout.`;
-            log.error(desc);
-            const e: AmqpError = {
-              condition: ErrorNameConditionMapper.ServiceUnavailableError,
-              description: desc
-            };
-            return reject(translate(e));
+        const actionAfterTimeout = () => {
+          const desc: string =
+            `[${this._context.namespace.connectionId}] Sender "${this.name}" ` +
+            `with address "${this.address}", was not able to send the message right now, due ` +
+            `to operation timeout.`;
+          log.error(desc);
+          const e: AmqpError = {
+            condition: delivery
+              ? ErrorNameConditionMapper.ServiceUnavailableError
+              : ErrorNameConditionMapper.SenderBusyError,
+            description: desc
           };
+          settle(translate(e));
+        };
 
-          this._sender!.on(SenderEvents.accepted, onAccepted);
-          this._sender!.on(SenderEvents.rejected, onRejected);
-          this._sender!.on(SenderEvents.modified, onModified);
-          this._sender!.on(SenderEvents.released, onReleased);
-          waitTimer = setTimeout(
-            actionAfterTimeout,
-            Constants.defaultOperationTimeoutInSeconds * 1000
+        const transfer = () => {
+          if (isSettled) return;
+          const link = this._linkOf(waiter)!;
+          log.sender(
+            "[%s] Sender '%s', credit: %d available: %d in flight: %d",
+            this._context.namespace.connectionId,
+            this.name,
+            link.credit,
+            link.session.outgoing.available(),
+            this._inFlight.size
           );
-          const delivery = this._sender!.send(message, tag, format);
+          log.sender(
+            "[%s] Sender '%s', sending message: %O",
+            this._context.namespace.connectionId,
+            this.name,
+            message
+          );
+          delivery = link.send(message, tag, format);
+          if (transaction) enlistDelivery(delivery, transaction);
+          this._inFlight.set(delivery, {
+            onOutcome: onOutcome,
+            release: release,
+            isTransactional: waiter.isTransactional
+          });
+          clearTimeout(waitTimer);
+          waitTimer = setTimeout(actionAfterTimeout, retryOptions.timeoutInMs);
           log.sender(
             "[%s] Sender '%s', sent message with delivery id: %d",
             this._context.namespace.connectionId,
             this.name,
             delivery.id
           );
-        } else {
-          // let us retry to send the message after some time.
-          const msg =
-            `[${this._context.namespace.connectionId}] Sender "${this.name}", ` +
-            `cannot send the message right now. Please try later.`;
-          log.error(msg);
-          const amqpError: AmqpError = {
-            condition: ErrorNameConditionMapper.SenderBusyError,
-            description: msg
-          };
-          reject(translate(amqpError));
+        };
+        waiter = { transfer: transfer, isTransactional: Boolean(transaction) };
+
+        if (cancellation) {
+          removeCancelHandler = cancellation.onCancel((error: Error) => {
+            log.error(
+              "[%s] Sender '%s', the send operation has been cancelled: %O",
+              this._context.namespace.connectionId,
+              this.name,
+              error
+            );
+            settle(error);
+          });
         }
+        this._sendWindow
+          .acquire()
+          .then(() => {
+            if (isSettled) {
+              this._sendWindow.release();
+            } else {
+              hasWindowSlot = true;
+              waitTimer = setTimeout(actionAfterTimeout, retryOptions.timeoutInMs);
+              this._whenSendable(waiter);
+            }
+          })
+          .catch((err: Error) => settle(err));
       });
 
-    const jitterInSeconds = randomNumberFromInterval(1, 4);
     const config: RetryConfig<Delivery> = {
-      operation: sendEventPromise,
+      operation: async () => {
+        // The transactional link is opened again by the attempts if it has been closed.
+        if (transaction) await this._ensureTransactionalOpen();
+        return sendEventPromise();
+      },
       connectionId: this._context.namespace.connectionId!,
       operationType: RetryOperationType.sendMessage,
-      times: Constants.defaultRetryAttempts,
-      delayInSeconds: Constants.defaultDelayBetweenOperationRetriesInSeconds + jitterInSeconds
+      retryOptions: retryOptions
     };
 
-    return retry<Delivery>(config);
+    return this._pendingSends.track(retry<Delivery>(config));
+  }
+
+  /**
+   * Transfers the message right away if its link has credit and no other message is waiting for
+   * credit. Otherwise the message waits for credit behind the other messages.
+   */
+  private _whenSendable(waiter: CreditWaiter): void {
+    if (!this._creditWaiters.length && this._isSendable(waiter)) {
+      waiter.transfer();
+    } else {
+      this._creditWaiters.push(waiter);
+    }
+  }
+
+  /**
+   * Releases the slots of the deliveries that are waiting for their outcome on the sender link or
+   * on the transactional link once it is closed, since their outcome will not be received anymore.
+   */
+  private _releaseInFlight(isTransactional: boolean): void {
+    for (const inFlight of Array.from(this._inFlight.values())) {
+      if (inFlight.isTransactional === isTransactional) inFlight.release();
+    }
+  }
+
+  /**
+   * Transfers the messages that are waiting for credit, in order, while their link has credit.
+   */
+  private _resumeSends(): void {
+    while (this._creditWaiters.length && this._isSendable(this._creditWaiters[0])) {
+      this._creditWaiters.shift()!.transfer();
+    }
+  }
+
+  /**
+   * Returns the link on which the given message is sent: the transactional link for the messages
+   * that are sent in the scope of a transaction, and the sender link for the other ones.
+   */
+  private _linkOf(waiter: CreditWaiter): Sender | undefined {
+    return waiter.isTransactional ? this._transactionalSender : this._sender;
+  }
+
+  /**
+   * Indicates whether the link of the given message has credit.
+   */
+  private _isSendable(waiter: CreditWaiter): boolean {
+    const link = this._linkOf(waiter);
+    return Boolean(link && link.sendable());
+  }
+
+  /**
+   * Opens the transactional link on a session of its own, if it is not open. The sender link has
+   * been opened before, hence the claim for the address has already been negotiated.
+   */
+  private async _ensureTransactionalOpen(): Promise<void> {
+    if (this._transactionalSender && this._transactionalSender.isOpen()) return;
+    await defaultLock.acquire(this.senderLock, async () => {
+      if (this._transactionalSender && this._transactionalSender.isOpen()) return;
+      await this._closeTransactionalLink();
+      const options: SenderOptions = {
+        ...this._createSenderOptions({}),
+        name: getUniqueName(this._context.entityPath),
+        onClose: this._onTransactionalClose,
+        onSessionClose: this._onTransactionalClose
+      };
+      const link = await createTransactionalSender(this._context.namespace.connection, options);
+      link.setMaxListeners(1000);
+      link.on(SenderEvents.sendable, this._onSendable);
+      this._transactionalSender = link;
+      log.sender(
+        "[%s] Sender '%s' opened the transactional link '%s'.",
+        this._context.namespace.connectionId,
+        this.name,
+        options.name
+      );
+      this._resumeSends();
+    });
+  }
+
+  /**
+   * Closes the transactional link and its session, if it is open.
+   */
+  private async _closeTransactionalLink(): Promise<void> {
+    const link = this._transactionalSender;
+    this._transactionalSender = undefined;
+    this._releaseInFlight(true);
+    if (link) {
+      try {
+        await link.close();
+      } catch (err) {
+        log.error(
+          "[%s] An error occurred while closing the transactional link of sender '%s': %O",
+          this._context.namespace.connectionId,
+          this.name,
+          err
+        );
+      }
+    }
   }
 
   /**
@@ -649,6 +1184,7 @@ export class MessageSender extends LinkEntity {
           this.address
         );
         this._sender.setMaxListeners(1000);
+        this._sender.on(SenderEvents.sendable, this._onSendable);
         log.error(
           "[%s] Promise to create the sender resolved. Created sender with name: %s",
           this._context.namespace.connectionId,
@@ -664,6 +1200,7 @@ export class MessageSender extends LinkEntity {
         // Thus make sure that the sender is present in the client cache.
         if (!this._sender) this._context.sender = this;
         await this._ensureTokenRenewal();
+        this._resumeSends();
       }
     } catch (err) {
       err = translate(err);
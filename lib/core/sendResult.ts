@@ -0,0 +1,82 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { SendableMessageInfo } from "../serviceBusMessage";
+
+/**
+ * Describes the outcome of a send operation:
+ * - `accepted`: The service accepted the message.
+ * - `rejected`: The service rejected the message, e.g. because it is too large.
+ * - `released`: The service released the message without processing it.
+ * - `modified`: The service modified the delivery of the message without processing it.
+ * - `failed`: No outcome was received, e.g. because the operation timed out or was cancelled.
+ */
+export type SendOutcome = "accepted" | "rejected" | "released" | "modified" | "failed";
+
+/**
+ * Describes the result of sending a message or a batch of messages. It is provided by `send()`
+ * and `sendBatch()` once the message is accepted. If the send operation fails then the error it
+ * is rejected with has a `sendResult` property with the outcome and the error.
+ * @interface SendResult
+ */
+export interface SendResult {
+  /**
+   * @property {string} entityPath The path of the queue or topic to which the message was sent.
+   */
+  entityPath: string;
+  /**
+   * @property {string | number | Buffer} [messageId] The id of the message, or of the first
+   * message of a batch. A message that is sent without a `messageId` is provided with one.
+   */
+  messageId?: string | number | Buffer;
+  /**
+   * @property {Array<string | number | Buffer>} messageIds The ids of the messages, in the order
+   * in which they were sent. It has a single item for a single message.
+   */
+  messageIds: Array<string | number | Buffer>;
+  /**
+   * @property {SendOutcome} outcome The outcome of the send operation.
+   */
+  outcome: SendOutcome;
+  /**
+   * @property {Error} [error] The error, if the message was not accepted.
+   */
+  error?: Error;
+  /**
+   * @property {number} latencyInMs The time from the start of the send operation until the
+   * outcome was known, including the time to open the link and the retries.
+   */
+  latencyInMs: number;
+}
+
+/**
+ * Tracks the outcome of a send operation while it is being attempted.
+ * @ignore
+ * @interface SendState
+ */
+export interface SendState {
+  outcome?: SendOutcome;
+}
+
+/**
+ * Creates the result of a send operation that started at the given time.
+ * @ignore
+ */
+export function createSendResult(
+  entityPath: string,
+  datas: SendableMessageInfo[],
+  startTime: number,
+  outcome: SendOutcome,
+  error?: Error
+): SendResult {
+  const messageIds = datas.map((data: SendableMessageInfo) => data.messageId!);
+  const result: SendResult = {
+    entityPath: entityPath,
+    messageId: messageIds[0],
+    messageIds: messageIds,
+    outcome: outcome,
+    latencyInMs: Date.now() - startTime
+  };
+  if (error) result.error = error;
+  return result;
+}
@@ -176,8 +176,8 @@ export class StreamingReceiver extends MessageReceiver {
       );
       this._receiver!.on(ReceiverEvents.message, this._onAmqpMessage);
       this._receiver!.on(ReceiverEvents.receiverError, this._onAmqpError);
-      this._receiver!.setCreditWindow(Constants.defaultPrefetchCount);
-      this._receiver!.addCredit(Constants.defaultPrefetchCount);
+      this._creditWindow = Constants.defaultPrefetchCount;
+      this._topUpCredit();
       log.streaming(
         "[%s] Receiver '%s', set the prefetch count to 1000 and " +
           "providing a credit of the same amount.",
@@ -0,0 +1,378 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as log from "../log";
+import {
+  Sender,
+  Delivery,
+  EventContext,
+  OnAmqpEvent,
+  SenderOptions,
+  generate_uuid
+} from "rhea-promise";
+import { defaultLock, translate, ErrorNameConditionMapper } from "@azure/amqp-common";
+import { ConnectionContext } from "../connectionContext";
+import { getUniqueName } from "../util/utils";
+import { normalizeRetryOptions } from "../util/retry";
+import {
+  createTransactionalSender,
+  createTransactionalState,
+  encodeDeclare,
+  encodeDischarge,
+  getDeclaredId,
+  putTransactionalState
+} from "./transactionAdapter";
+
+/**
+ * The name of the link property that provides the entity to which a sender, that is attached to
+ * a transfer entity, sends the messages.
+ * @ignore
+ */
+export const transferDestinationAddressProperty: string =
+  "com.microsoft:transfer-destination-address";
+
+/**
+ * Describes the options that can be provided while settling a received message.
+ * @interface SettleOptions
+ */
+export interface SettleOptions {
+  /**
+   * @property {Transaction} [transaction] The transaction in the scope of which the message is
+   * settled. The message is settled only once the transaction is committed.
+   */
+  transaction?: Transaction;
+}
+
+/**
+ * Describes an AMQP transaction, that groups the messages that are sent and the messages that
+ * are settled in its scope into an atomic unit of work: either all of them take effect once the
+ * transaction is committed, or none of them does. It is declared with `beginTransaction()` of
+ * the Namespace, on the AMQP connection of the clients that take part in it.
+ *
+ * All the entities of a transaction must be reachable through a single entity, which is the one
+ * the messages are received from. Messages to other entities are sent via that entity, with a
+ * client created with the `viaEntityPath` option.
+ * @class Transaction
+ */
+export class Transaction {
+  /**
+   * @property {Buffer} id The id of the transaction that was provided by the coordinator.
+   * @readonly
+   */
+  readonly id: Buffer;
+  /**
+   * @property {TransactionCoordinator} _coordinator The coordinator that declared the
+   * transaction.
+   * @private
+   */
+  private readonly _coordinator: TransactionCoordinator;
+  /**
+   * @property {boolean} _isDischarged Indicates whether the transaction has been committed or
+   * rolled back.
+   * @private
+   */
+  private _isDischarged: boolean = false;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {TransactionCoordinator} coordinator The coordinator that declared the transaction.
+   * @param {Buffer} id The id of the transaction.
+   */
+  constructor(coordinator: TransactionCoordinator, id: Buffer) {
+    this._coordinator = coordinator;
+    this.id = id;
+  }
+
+  /**
+   * @property {boolean} isDischarged Indicates whether the transaction has been committed or
+   * rolled back, after which it can not be used anymore.
+   * @readonly
+   */
+  get isDischarged(): boolean {
+    return this._isDischarged;
+  }
+
+  /**
+   * Commits the transaction, which makes the work done in its scope take effect. The send and
+   * settle operations of the transaction should be awaited before.
+   * @returns {Promise<void>} Promise<void> It is rejected if the coordinator could not commit
+   * the transaction, in which case it has been rolled back.
+   */
+  async commit(): Promise<void> {
+    return this._discharge(false);
+  }
+
+  /**
+   * Rolls the transaction back, which discards the work done in its scope.
+   * @returns {Promise<void>} Promise<void>
+   */
+  async rollback(): Promise<void> {
+    return this._discharge(true);
+  }
+
+  /**
+   * Throws an error if the transaction can not be used for an operation on the given connection.
+   * @ignore
+   * @param {ConnectionContext} context The connection context of the operation.
+   */
+  throwIfNotUsable(context: ConnectionContext): void {
+    if (this._isDischarged) {
+      throw new Error("The transaction has already been committed or rolled back.");
+    }
+    if (!this._coordinator.belongsTo(context)) {
+      throw new Error(
+        "The transaction has been declared on another AMQP connection than the one of the client."
+      );
+    }
+  }
+
+  private async _discharge(fail: boolean): Promise<void> {
+    if (this._isDischarged) {
+      throw new Error("The transaction has already been committed or rolled back.");
+    }
+    this._isDischarged = true;
+    await this._coordinator.discharge(this.id, fail);
+  }
+}
+
+/**
+ * Describes the coordinator of the transactions of an AMQP connection. It declares and discharges
+ * the transactions on a coordinator link, which is opened once the first transaction is declared.
+ * @ignore
+ * @class TransactionCoordinator
+ */
+export class TransactionCoordinator {
+  /**
+   * @property {ConnectionContext} _context The connection context of the coordinator.
+   * @private
+   */
+  private readonly _context: ConnectionContext;
+  /**
+   * @property {string} _lock The lock that is acquired while the coordinator link is opened.
+   * @readonly
+   */
+  private readonly _lock: string = `coordinator-${generate_uuid()}`;
+  /**
+   * @property {Sender} [_sender] The coordinator link.
+   * @private
+   */
+  private _sender?: Sender;
+  /**
+   * @property {Map<Delivery, Function>} _pending The requests that are waiting for their outcome,
+   * along with the functions that settle them.
+   * @private
+   */
+  private _pending: Map<Delivery, (error?: Error) => void> = new Map<
+    Delivery,
+    (error?: Error) => void
+  >();
+  /**
+   * @property {OnAmqpEvent} _onAccepted The handler that settles the request of a delivery that
+   * was accepted.
+   * @readonly
+   */
+  private readonly _onAccepted: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onNotAccepted The handler that fails the request of a delivery that
+   * was rejected, released or modified.
+   * @readonly
+   */
+  private readonly _onNotAccepted: OnAmqpEvent;
+  /**
+   * @property {OnAmqpEvent} _onClose The handler that fails the pending requests once the
+   * coordinator link is closed.
+   * @readonly
+   */
+  private readonly _onClose: OnAmqpEvent;
+
+  /**
+   * @constructor
+   * @param {ConnectionContext} context The connection context of the coordinator.
+   */
+  constructor(context: ConnectionContext) {
+    this._context = context;
+    this._onAccepted = (context: EventContext) => {
+      const settle = context.delivery && this._pending.get(context.delivery);
+      if (settle) settle();
+    };
+    this._onNotAccepted = (context: EventContext) => {
+      const settle = context.delivery && this._pending.get(context.delivery);
+      if (!settle) return;
+      const remoteState = context.delivery!.remote_state;
+      settle(
+        remoteState && remoteState.error
+          ? translate(remoteState.error)
+          : new Error("The coordinator did not accept the request.")
+      );
+    };
+    this._onClose = (context: EventContext) => {
+      const linkError = context.sender && context.sender.error;
+      const error = linkError
+        ? translate(linkError)
+        : new Error("The coordinator link has been closed.");
+      for (const settle of Array.from(this._pending.values())) {
+        settle(error);
+      }
+    };
+  }
+
+  /**
+   * Indicates whether the coordinator belongs to the given connection.
+   * @param {ConnectionContext} context The connection context.
+   * @returns {boolean} boolean
+   */
+  belongsTo(context: ConnectionContext): boolean {
+    return this._context === context;
+  }
+
+  /**
+   * Declares a new transaction.
+   * @returns {Promise<Transaction>} Promise<Transaction>
+   */
+  async declare(): Promise<Transaction> {
+    const delivery = await this._request(encodeDeclare());
+    const id = getDeclaredId(delivery);
+    if (!id) {
+      throw new Error("The coordinator did not provide the id of the declared transaction.");
+    }
+    log.transaction(
+      "[%s] Declared the transaction '%s'.",
+      this._context.connectionId,
+      id.toString("hex")
+    );
+    return new Transaction(this, id);
+  }
+
+  /**
+   * Discharges the given transaction.
+   * @param {Buffer} id The id of the transaction.
+   * @param {boolean} fail Whether the transaction is rolled back instead of being committed.
+   * @returns {Promise<void>} Promise<void>
+   */
+  async discharge(id: Buffer, fail: boolean): Promise<void> {
+    await this._request(encodeDischarge(id, fail));
+    log.transaction(
+      "[%s] Discharged the transaction '%s' with fail: %s.",
+      this._context.connectionId,
+      id.toString("hex"),
+      fail
+    );
+  }
+
+  /**
+   * Closes the coordinator link, if it is open.
+   * @returns {Promise<void>} Promise<void>
+   */
+  async close(): Promise<void> {
+    const sender = this._sender;
+    this._sender = undefined;
+    if (sender) {
+      try {
+        await sender.close();
+      } catch (err) {
+        log.error(
+          "[%s] An error occurred while closing the coordinator link: %O",
+          this._context.connectionId,
+          err
+        );
+      }
+    }
+  }
+
+  /**
+   * Sends the given request to the coordinator and waits for it to be accepted.
+   * @param {Buffer} request The encoded message of the declare or discharge type.
+   * @returns {Promise<Delivery>} Promise<Delivery> The accepted delivery of the request.
+   */
+  private async _request(request: Buffer): Promise<Delivery> {
+    await this._ensureOpen();
+    const timeoutInMs = normalizeRetryOptions(this._context.retryOptions).timeoutInMs;
+    return new Promise<Delivery>((resolve, reject) => {
+      const delivery = this._sender!.send(request, undefined, 0);
+      const waitTimer = setTimeout(() => {
+        this._pending.delete(delivery);
+        const desc =
+          `[${this._context.connectionId}] The coordinator did not respond within ` +
+          `${timeoutInMs} milliseconds.`;
+        log.error(desc);
+        reject(
+          translate({
+            condition: ErrorNameConditionMapper.ServiceUnavailableError,
+            description: desc
+          })
+        );
+      }, timeoutInMs);
+      this._pending.set(delivery, (error?: Error) => {
+        clearTimeout(waitTimer);
+        this._pending.delete(delivery);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(delivery);
+        }
+      });
+    });
+  }
+
+  /**
+   * Opens the coordinator link, and possibly the connection, if it is not open.
+   * @returns {Promise<void>} Promise<void>
+   */
+  private async _ensureOpen(): Promise<void> {
+    if (this._sender && this._sender.isOpen()) return;
+    await defaultLock.acquire(this._lock, async () => {
+      if (this._sender && this._sender.isOpen()) return;
+      await defaultLock.acquire(this._context.cbsSession.cbsLock, () => {
+        return this._context.cbsSession.init();
+      });
+      const name = getUniqueName("coordinator");
+      const options: SenderOptions = {
+        name: name,
+        target: {},
+        onAccepted: this._onAccepted,
+        onRejected: this._onNotAccepted,
+        onReleased: this._onNotAccepted,
+        onModified: this._onNotAccepted,
+        onClose: this._onClose,
+        onSessionClose: this._onClose
+      };
+      this._sender = await createTransactionalSender(this._context.connection, options, true);
+      log.transaction(
+        "[%s] The coordinator link '%s' has been opened.",
+        this._context.connectionId,
+        name
+      );
+    });
+  }
+}
+
+/**
+ * Sends the given outgoing delivery in the scope of the given transaction. The transactional
+ * state is put on the transfer of the delivery, which happens after the current tick.
+ * @ignore
+ * @param {Delivery} delivery The delivery that was just sent on a link that was created with
+ * `createTransactionalSender()`.
+ * @param {Transaction} transaction The transaction.
+ */
+export function enlistDelivery(delivery: Delivery, transaction: Transaction): void {
+  putTransactionalState(delivery, transaction.id);
+}
+
+/**
+ * Provides the given incoming delivery, whose settlement then happens in the scope of the given
+ * transaction: the outcome of the settlement is wrapped into the transactional state.
+ * @ignore
+ * @param {Delivery} delivery The incoming delivery.
+ * @param {Transaction} [transaction] The transaction, if any.
+ * @returns {Delivery} Delivery
+ */
+export function withTransaction(delivery: Delivery, transaction?: Transaction): Delivery {
+  if (!transaction) return delivery;
+  // The disposition is sent settled, hence no disposition in return has to be unwrapped.
+  const transactional: Delivery = Object.create(delivery);
+  transactional.update = (settled: boolean, state?: any) => {
+    delivery.update(settled, createTransactionalState(transaction.id, state));
+  };
+  return transactional;
+}
@@ -0,0 +1,303 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+// rhea has no support for transactions. This module provides it, and it is the only one that
+// relies on the internals of rhea and rhea-promise: their versions are pinned in package.json, and
+// test/transactionAdapter.spec.ts fails if the internals that it relies on change.
+
+import { Connection, Delivery, Sender, SenderOptions, Session, types } from "rhea-promise";
+
+/**
+ * The descriptor codes of the AMQP performatives and types that are involved in transactions.
+ * @ignore
+ */
+const amqpCodes = {
+  attach: 0x12,
+  transfer: 0x14,
+  accepted: 0x24,
+  amqpValue: 0x77,
+  coordinator: 0x30,
+  declare: 0x31,
+  discharge: 0x32,
+  declared: 0x33,
+  transactionalState: 0x34
+};
+
+/**
+ * The AMQP type codes that are used to encode the declare and discharge types.
+ * @ignore
+ */
+const typeCodes = {
+  described: 0x00,
+  smallulong: 0x53,
+  true: 0x41,
+  false: 0x42,
+  list0: 0x45,
+  list32: 0xd0,
+  vbin32: 0xb0
+};
+
+/**
+ * The index of the `state` field in the list of fields of the transfer performative of rhea.
+ * @ignore
+ */
+export const transferStateIndex: number = 7;
+
+/**
+ * The transaction ids of the outgoing deliveries that are sent in the scope of a transaction.
+ * @ignore
+ */
+const transactionalDeliveries: WeakMap<Delivery, Buffer> = new WeakMap<Delivery, Buffer>();
+
+/**
+ * The transaction ids that the coordinator provided for the deliveries of the declare requests.
+ * @ignore
+ */
+const declaredIds: WeakMap<Delivery, Buffer> = new WeakMap<Delivery, Buffer>();
+
+/**
+ * The rhea sessions that have been created for the links that take part in transactions.
+ * @ignore
+ */
+const transactionalSessions: WeakSet<any> = new WeakSet<any>();
+
+/**
+ * Creates a sender link on a session of its own, which supports transactions. Only the links that
+ * take part in transactions are created on such sessions, so that the sessions of the other links
+ * are left as rhea provides them.
+ * @ignore
+ * @param {Connection} connection The AMQP connection.
+ * @param {SenderOptions} options The options of the sender link.
+ * @param {boolean} [isCoordinator] Whether the link is attached as the coordinator link.
+ * @returns {Promise<Sender>} Promise<Sender>
+ */
+export async function createTransactionalSender(
+  connection: Connection,
+  options: SenderOptions,
+  isCoordinator?: boolean
+): Promise<Sender> {
+  const session = await connection.createSession();
+  const rheaSession = getRheaSession(session);
+  supportTransactions(rheaSession);
+  if (isCoordinator) attachAsCoordinator(rheaSession, options.name!);
+  return session.createSender(options);
+}
+
+/**
+ * Puts the transactional state with the given transaction id on the transfer of the given
+ * outgoing delivery, which happens after the current tick.
+ * @ignore
+ * @param {Delivery} delivery The delivery that was just sent on a link that was created with
+ * `createTransactionalSender()`.
+ * @param {Buffer} id The id of the transaction.
+ */
+export function putTransactionalState(delivery: Delivery, id: Buffer): void {
+  if (!transactionalSessions.has(delivery.link.session)) {
+    throw new Error("The delivery has not been sent on a link that supports transactions.");
+  }
+  transactionalDeliveries.set(delivery, id);
+}
+
+/**
+ * Returns the transaction id that the coordinator provided with the declared outcome of the
+ * given delivery of a declare request, if any.
+ * @ignore
+ * @param {Delivery} delivery The accepted delivery of the declare request.
+ * @returns {Buffer | undefined} Buffer | undefined
+ */
+export function getDeclaredId(delivery: Delivery): Buffer | undefined {
+  return declaredIds.get(delivery);
+}
+
+/**
+ * Encodes the message of the request that declares a transaction.
+ * @ignore
+ * @returns {Buffer} Buffer
+ */
+export function encodeDeclare(): Buffer {
+  return encodeRequest(amqpCodes.declare, []);
+}
+
+/**
+ * Encodes the message of the request that discharges the given transaction.
+ * @ignore
+ * @param {Buffer} id The id of the transaction.
+ * @param {boolean} fail Whether the transaction is rolled back instead of being committed.
+ * @returns {Buffer} Buffer
+ */
+export function encodeDischarge(id: Buffer, fail: boolean): Buffer {
+  return encodeRequest(amqpCodes.discharge, [encodeBinary(id), encodeBoolean(fail)]);
+}
+
+/**
+ * Creates the described transactional state with the given transaction id and outcome.
+ * @ignore
+ * @param {Buffer} id The id of the transaction.
+ * @param {any} [outcome] The described outcome, if any.
+ * @returns {any} any
+ */
+export function createTransactionalState(id: Buffer, outcome?: any): any {
+  const fields = [types.wrap_binary(id)];
+  if (outcome) fields.push(outcome);
+  return types.described_nc(
+    types.wrap_ulong(amqpCodes.transactionalState),
+    types.wrap_list(fields)
+  );
+}
+
+/**
+ * Encodes the message whose amqp-value body is the declare or discharge type with the given
+ * descriptor code and encoded fields. rhea can not encode it, as it replaces the descriptor of
+ * the body with the one of the amqp-value section.
+ * @ignore
+ */
+function encodeRequest(code: number, fields: Buffer[]): Buffer {
+  const descriptors = Buffer.from([
+    typeCodes.described,
+    typeCodes.smallulong,
+    amqpCodes.amqpValue,
+    typeCodes.described,
+    typeCodes.smallulong,
+    code
+  ]);
+  if (!fields.length) return Buffer.concat([descriptors, Buffer.from([typeCodes.list0])]);
+  const content = Buffer.concat(fields);
+  const header = Buffer.alloc(9);
+  header.writeUInt8(typeCodes.list32, 0);
+  // The size covers the count and the fields.
+  header.writeUInt32BE(content.length + 4, 1);
+  header.writeUInt32BE(fields.length, 5);
+  return Buffer.concat([descriptors, header, content]);
+}
+
+/**
+ * Encodes the given binary value.
+ * @ignore
+ */
+function encodeBinary(value: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt8(typeCodes.vbin32, 0);
+  header.writeUInt32BE(value.length, 1);
+  return Buffer.concat([header, value]);
+}
+
+/**
+ * Encodes the given boolean value.
+ * @ignore
+ */
+function encodeBoolean(value: boolean): Buffer {
+  return Buffer.from([value ? typeCodes.true : typeCodes.false]);
+}
+
+/**
+ * Creates the described accepted outcome.
+ * @ignore
+ */
+function createAccepted(): any {
+  return types.described_nc(types.wrap_ulong(amqpCodes.accepted), types.wrap_list([]));
+}
+
+/**
+ * Indicates whether the given value is described with the given descriptor code.
+ * @ignore
+ */
+function isDescribedAs(value: any, code: number): boolean {
+  return Boolean(value && value.descriptor && Number(value.descriptor.value) === code);
+}
+
+/**
+ * Indicates whether the given frame is the performative with the given descriptor code.
+ * @ignore
+ */
+function isPerformative(frame: any, code: number): boolean {
+  const descriptor = frame && frame.constructor && frame.constructor.descriptor;
+  return Boolean(descriptor && descriptor.numeric === code);
+}
+
+/**
+ * Returns the rhea session of the given session of rhea-promise, after checking that it has the
+ * internals that the support of transactions relies on.
+ * @ignore
+ */
+function getRheaSession(session: Session): any {
+  const rheaSession = (session as any)._session;
+  if (
+    !rheaSession ||
+    typeof rheaSession.output !== "function" ||
+    typeof rheaSession.on_disposition !== "function" ||
+    typeof rheaSession.on_attach !== "function" ||
+    !rheaSession.outgoing ||
+    !rheaSession.outgoing.deliveries
+  ) {
+    throw new Error(
+      "The installed versions of rhea and rhea-promise do not provide the session internals " +
+        "that the transactions rely on."
+    );
+  }
+  return rheaSession;
+}
+
+/**
+ * Makes the given rhea session, which has no support for transactions, put the transactional
+ * state on the transfers of the enlisted deliveries. The transactional state and the declared
+ * outcome of the dispositions that are received are unwrapped into the outcome they carry, so
+ * that rhea raises the events of that outcome.
+ * @ignore
+ */
+function supportTransactions(session: any): void {
+  transactionalSessions.add(session);
+  const output = session.output;
+  session.output = (frame: any, payload?: Buffer): void => {
+    if (isPerformative(frame, amqpCodes.transfer)) {
+      const delivery = session.outgoing.deliveries.by_id(frame.delivery_id);
+      const id = delivery && transactionalDeliveries.get(delivery);
+      if (id) {
+        for (let i = frame.value.length; i < transferStateIndex; i++) frame.value[i] = undefined;
+        frame.value[transferStateIndex] = createTransactionalState(id);
+      }
+    }
+    return output.call(session, frame, payload);
+  };
+  const onDisposition = session.on_disposition;
+  session.on_disposition = (frame: any): void => {
+    const fields = frame.performative;
+    const state = fields.state;
+    if (isDescribedAs(state, amqpCodes.declared)) {
+      const last = fields.last != undefined ? fields.last : fields.first;
+      for (let i = fields.first; i <= last; i++) {
+        const delivery = session.outgoing.deliveries.by_id(i);
+        if (delivery) declaredIds.set(delivery, state.value[0].value);
+      }
+      fields.state = createAccepted();
+    } else if (isDescribedAs(state, amqpCodes.transactionalState)) {
+      // A transactional state without an outcome is the acknowledgement of the transfer.
+      fields.state = state.value[1] || createAccepted();
+    }
+    return onDisposition.call(session, frame);
+  };
+}
+
+/**
+ * Makes the link with the given name, that is attached on the given rhea session, a coordinator
+ * link: rhea can only attach a link to a regular target.
+ * @ignore
+ */
+function attachAsCoordinator(session: any, name: string): void {
+  const onAttach = session.on_attach;
+  session.on_attach = (frame: any): void => {
+    if (isDescribedAs(frame.performative.target, amqpCodes.coordinator)) {
+      frame.performative.target = undefined;
+    }
+    return onAttach.call(session, frame);
+  };
+  const output = session.output;
+  session.output = (frame: any, payload?: Buffer): void => {
+    if (isPerformative(frame, amqpCodes.attach) && frame.name === name) {
+      frame.target = types.described_nc(
+        types.wrap_ulong(amqpCodes.coordinator),
+        types.wrap_list([types.wrap_symbol("amqp:local-transactions")])
+      );
+    }
+    return output.call(session, frame, payload);
+  };
+}
@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { MessagingError } from "@azure/amqp-common";
+
+/**
+ * Describes the error that occurs when the HTTP proxy rejects the credentials (or the lack of
+ * them) with the status code `407`. The error is not retryable, since the same credentials would
+ * be rejected again.
+ * @class ProxyAuthenticationError
+ */
+export class ProxyAuthenticationError extends MessagingError {
+  /**
+   * @param {string} message The error message that provides more information about the error.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "ProxyAuthenticationError";
+    this.retryable = false;
+  }
+}
+
+/**
+ * Describes the error that occurs when an operation is cancelled through the `abortSignal` that
+ * was provided in the options of the operation. The error is not retryable.
+ * @class AbortError
+ */
+export class AbortError extends MessagingError {
+  /**
+   * @param {string} message The error message that provides more information about the error.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "AbortError";
+    this.retryable = false;
+  }
+}
+
+/**
+ * Describes the error that occurs when an operation fails fast, because the circuit breaker of
+ * the connection is open after too many consecutive failures. The error is not retryable.
+ * @class CircuitOpenError
+ */
+export class CircuitOpenError extends MessagingError {
+  /**
+   * @param {string} message The error message that provides more information about the error.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+    this.retryable = false;
+  }
+}
+
+/**
+ * Describes the error that occurs when a SQL filter or a SQL rule action expression is not valid
+ * as per the SQL grammar of Service Bus. The error is not retryable.
+ * @class SqlSyntaxError
+ */
+export class SqlSyntaxError extends MessagingError {
+  /**
+   * @property {string} expression The expression that is not valid.
+   */
+  expression: string;
+  /**
+   * @property {number} position The zero-based offset in the expression at which the error was
+   * found.
+   */
+  position: number;
+  /**
+   * @property {number} line The one-based line in the expression at which the error was found.
+   */
+  line: number;
+  /**
+   * @property {number} column The one-based column in the line at which the error was found.
+   */
+  column: number;
+
+  /**
+   * @param {string} message The description of the error, without its location.
+   * @param {string} expression The expression that is not valid.
+   * @param {number} position The zero-based offset in the expression at which the error was found.
+   */
+  constructor(message: string, expression: string, position: number) {
+    const lines = expression.substring(0, position).split("\n");
+    const line = lines.length;
+    const column = lines[lines.length - 1].length + 1;
+    super(`${message} (at line ${line}, column ${column})`);
+    this.name = "SqlSyntaxError";
+    this.retryable = false;
+    this.expression = expression;
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
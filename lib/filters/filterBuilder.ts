@@ -0,0 +1,488 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { CorrelationFilter, SQLExpression } from "../core/managementClient";
+import { keywords } from "./sqlParser";
+
+/**
+ * Describes the values that can be compared with a property in a SQL filter.
+ */
+export type SqlFilterValue = string | number | boolean;
+
+/**
+ * Formats the given value as a SQL constant. Strings are enclosed in single quotes, in which the
+ * single quotes are escaped by doubling them.
+ * @ignore
+ */
+function formatValue(value: SqlFilterValue): string {
+  if (typeof value === "string") {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (typeof value === "number") {
+    if (!isFinite(value)) {
+      throw new Error("A number that is compared in a SQL filter must be finite.");
+    }
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  throw new Error(
+    "A value that is compared in a SQL filter must be of type 'string', 'number' or 'boolean'."
+  );
+}
+
+/**
+ * Formats the given property name, that is delimited with square brackets unless it is a plain
+ * identifier that is not a keyword.
+ * @ignore
+ */
+function formatProperty(scope: "sys" | "user", name: string): string {
+  if (!name || typeof name !== "string") {
+    throw new Error("The property name is a required parameter and must be of type 'string'.");
+  }
+  const isPlain =
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && keywords.indexOf(name.toLowerCase()) === -1;
+  const formattedName = isPlain ? name : `[${name.replace(/]/g, "]]")}]`;
+  // The user properties are always qualified, so that a property named e.g. "sys" is not mistaken
+  // for the scope.
+  return `${scope}.${formattedName}`;
+}
+
+/**
+ * Describes a complete SQL filter expression, that can be provided to
+ * `SubscriptionClient.addRule()` as is, or combined with another condition with `and()` or
+ * `or()`. As in SQL, `AND` takes precedence over `OR`; use `Filter.sql().group()` to override it.
+ * @class SqlFilterExpression
+ */
+export class SqlFilterExpression {
+  /**
+   * @property {string} _expression The SQL expression.
+   * @private
+   */
+  private readonly _expression: string;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {string} expression The SQL expression.
+   */
+  constructor(expression: string) {
+    this._expression = expression;
+  }
+
+  /**
+   * Starts a condition that must be satisfied along with the conditions so far.
+   * @returns {SqlFilterBuilder} SqlFilterBuilder
+   */
+  and(): SqlFilterBuilder {
+    return createSqlFilterBuilder(`${this._expression} AND `);
+  }
+
+  /**
+   * Starts a condition that must be satisfied if the conditions so far are not.
+   * @returns {SqlFilterBuilder} SqlFilterBuilder
+   */
+  or(): SqlFilterBuilder {
+    return createSqlFilterBuilder(`${this._expression} OR `);
+  }
+
+  /**
+   * Provides the SQL expression.
+   * @returns {string} The SQL expression.
+   */
+  build(): string {
+    return this._expression;
+  }
+
+  /**
+   * Provides the SQL expression in the form that is returned by `SubscriptionClient.getRules()`.
+   * @returns {SQLExpression} SQLExpression
+   */
+  toSQLExpression(): SQLExpression {
+    return { expression: this._expression };
+  }
+
+  /**
+   * Provides the SQL expression.
+   * @returns {string} The SQL expression.
+   */
+  toString(): string {
+    return this._expression;
+  }
+}
+
+/**
+ * Builds a condition on a property of a SQL filter.
+ * @class SqlConditionBuilder
+ */
+export class SqlConditionBuilder {
+  /**
+   * @property {string} _prefix The SQL expression that precedes the condition.
+   * @private
+   */
+  private readonly _prefix: string;
+  /**
+   * @property {string} _property The formatted name of the property.
+   * @private
+   */
+  private readonly _property: string;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {string} prefix The SQL expression that precedes the condition.
+   * @param {string} property The formatted name of the property.
+   */
+  constructor(prefix: string, property: string) {
+    this._prefix = prefix;
+    this._property = property;
+  }
+
+  /**
+   * The property is equal to the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  eq(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare("=", value);
+  }
+
+  /**
+   * The property is not equal to the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  ne(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare("<>", value);
+  }
+
+  /**
+   * The property is greater than the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  gt(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare(">", value);
+  }
+
+  /**
+   * The property is greater than or equal to the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  ge(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare(">=", value);
+  }
+
+  /**
+   * The property is less than the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  lt(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare("<", value);
+  }
+
+  /**
+   * The property is less than or equal to the given value.
+   * @param {SqlFilterValue} value The value.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  le(value: SqlFilterValue): SqlFilterExpression {
+    return this._compare("<=", value);
+  }
+
+  /**
+   * The property matches the given pattern, in which "%" matches any sequence of characters and
+   * "_" matches any single character.
+   * @param {string} pattern The pattern.
+   * @param {string} [escape] The character that makes the following "%" or "_" in the pattern
+   * match itself.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  like(pattern: string, escape?: string): SqlFilterExpression {
+    return this._like("LIKE", pattern, escape);
+  }
+
+  /**
+   * The property does not match the given pattern, as in `like()`.
+   * @param {string} pattern The pattern.
+   * @param {string} [escape] The character that makes the following "%" or "_" in the pattern
+   * match itself.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  notLike(pattern: string, escape?: string): SqlFilterExpression {
+    return this._like("NOT LIKE", pattern, escape);
+  }
+
+  /**
+   * The property is equal to one of the given values.
+   * @param {SqlFilterValue[]} values The values.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  in(...values: SqlFilterValue[]): SqlFilterExpression {
+    return this._in("IN", values);
+  }
+
+  /**
+   * The property is equal to none of the given values.
+   * @param {SqlFilterValue[]} values The values.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  notIn(...values: SqlFilterValue[]): SqlFilterExpression {
+    return this._in("NOT IN", values);
+  }
+
+  /**
+   * The property is not set, or is set to null.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  isNull(): SqlFilterExpression {
+    return new SqlFilterExpression(`${this._prefix}${this._property} IS NULL`);
+  }
+
+  /**
+   * The property is set to a value other than null.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  isNotNull(): SqlFilterExpression {
+    return new SqlFilterExpression(`${this._prefix}${this._property} IS NOT NULL`);
+  }
+
+  /**
+   * The property is set.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  exists(): SqlFilterExpression {
+    return new SqlFilterExpression(`${this._prefix}EXISTS(${this._property})`);
+  }
+
+  private _compare(operator: string, value: SqlFilterValue): SqlFilterExpression {
+    return new SqlFilterExpression(
+      `${this._prefix}${this._property} ${operator} ${formatValue(value)}`
+    );
+  }
+
+  private _like(operator: string, pattern: string, escape?: string): SqlFilterExpression {
+    if (typeof pattern !== "string") {
+      throw new Error("'pattern' is a required parameter and must be of type 'string'.");
+    }
+    let expression = `${this._prefix}${this._property} ${operator} ${formatValue(pattern)}`;
+    if (escape != undefined) {
+      if (typeof escape !== "string" || escape.length !== 1) {
+        throw new Error("'escape' must be of type 'string' with a single character.");
+      }
+      expression += ` ESCAPE ${formatValue(escape)}`;
+    }
+    return new SqlFilterExpression(expression);
+  }
+
+  private _in(operator: string, values: SqlFilterValue[]): SqlFilterExpression {
+    if (!values.length) {
+      throw new Error("At least one value must be provided.");
+    }
+    return new SqlFilterExpression(
+      `${this._prefix}${this._property} ${operator} (${values.map(formatValue).join(", ")})`
+    );
+  }
+}
+
+/**
+ * Builds a SQL filter expression, in which the property names and the values are escaped. It is
+ * created with `Filter.sql()`, e.g.
+ * `Filter.sql().where("quantity").gt(10).and().label().eq(label)`.
+ * @class SqlFilterBuilder
+ */
+export class SqlFilterBuilder {
+  /**
+   * @property {string} _prefix The SQL expression that precedes the next condition.
+   * @private
+   */
+  private readonly _prefix: string;
+
+  /**
+   * @constructor
+   * @ignore
+   * @param {string} [prefix] The SQL expression that precedes the next condition.
+   */
+  constructor(prefix?: string) {
+    this._prefix = prefix || "";
+  }
+
+  /**
+   * Starts a condition on a user property.
+   * @param {string} name The name of the user property.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  where(name: string): SqlConditionBuilder {
+    return new SqlConditionBuilder(this._prefix, formatProperty("user", name));
+  }
+
+  /**
+   * Starts a condition on a system property, e.g. "Label".
+   * @param {string} name The name of the system property.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  sys(name: string): SqlConditionBuilder {
+    return new SqlConditionBuilder(this._prefix, formatProperty("sys", name));
+  }
+
+  /**
+   * Starts a condition on the label of the message.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  label(): SqlConditionBuilder {
+    return this.sys("Label");
+  }
+
+  /**
+   * Starts a condition on the message id.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  messageId(): SqlConditionBuilder {
+    return this.sys("MessageId");
+  }
+
+  /**
+   * Starts a condition on the correlation id of the message.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  correlationId(): SqlConditionBuilder {
+    return this.sys("CorrelationId");
+  }
+
+  /**
+   * Starts a condition on the content type of the message.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  contentType(): SqlConditionBuilder {
+    return this.sys("ContentType");
+  }
+
+  /**
+   * Starts a condition on the session id of the message.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  sessionId(): SqlConditionBuilder {
+    return this.sys("SessionId");
+  }
+
+  /**
+   * Starts a condition on the "to" address of the message.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  to(): SqlConditionBuilder {
+    return this.sys("To");
+  }
+
+  /**
+   * Starts a condition on the address to reply to.
+   * @returns {SqlConditionBuilder} SqlConditionBuilder
+   */
+  replyTo(): SqlConditionBuilder {
+    return this.sys("ReplyTo");
+  }
+
+  /**
+   * Negates the next condition.
+   * @returns {SqlFilterBuilder} SqlFilterBuilder
+   */
+  not(): SqlFilterBuilder {
+    return new SqlFilterBuilder(`${this._prefix}NOT `);
+  }
+
+  /**
+   * Adds the given expression as a condition, enclosed in parentheses.
+   * @param {SqlFilterExpression} expression The expression.
+   * @returns {SqlFilterExpression} SqlFilterExpression
+   */
+  group(expression: SqlFilterExpression): SqlFilterExpression {
+    if (!(expression instanceof SqlFilterExpression)) {
+      throw new Error("'expression' must be an instance of 'SqlFilterExpression'.");
+    }
+    return new SqlFilterExpression(`${this._prefix}(${expression.build()})`);
+  }
+}
+
+/**
+ * Creates a SqlFilterBuilder that continues the given SQL expression.
+ * @ignore
+ */
+function createSqlFilterBuilder(prefix: string): SqlFilterBuilder {
+  return new SqlFilterBuilder(prefix);
+}
+
+/**
+ * Provides the filters that can be provided to `SubscriptionClient.addRule()`.
+ */
+export namespace Filter {
+  /**
+   * Starts a SQL filter expression.
+   * @returns {SqlFilterBuilder} SqlFilterBuilder
+   */
+  export function sql(): SqlFilterBuilder {
+    return new SqlFilterBuilder();
+  }
+
+  /**
+   * Provides a correlation filter, that matches the messages whose properties are equal to all
+   * the given properties. It is more efficient than the equivalent SQL filter.
+   * @param {CorrelationFilter} properties The properties to match.
+   * @returns {CorrelationFilter} CorrelationFilter
+   */
+  export function correlation(properties: CorrelationFilter): CorrelationFilter {
+    if (!properties || typeof properties !== "object") {
+      throw new Error("'properties' is a required parameter and must be of type 'object'.");
+    }
+    const result: CorrelationFilter = {};
+    for (const name of Object.keys(properties) as Array<keyof CorrelationFilter>) {
+      const value = properties[name];
+      if (value == undefined) continue;
+      if (name === "userProperties") {
+        if (typeof value !== "object") {
+          throw new Error("'userProperties' must be of type 'object'.");
+        }
+        if (!Object.keys(value).length) continue;
+        for (const key of Object.keys(value)) {
+          const type = typeof value[key];
+          if (
+            type !== "string" &&
+            type !== "number" &&
+            type !== "boolean" &&
+            !(value[key] instanceof Date)
+          ) {
+            throw new Error(
+              `The user property '${key}' must be of type 'string', 'number', 'boolean' or 'Date'.`
+            );
+          }
+        }
+        result.userProperties = { ...value };
+      } else if (typeof value !== "string") {
+        throw new Error(`'${name}' must be of type 'string'.`);
+      } else {
+        result[name] = value;
+      }
+    }
+    if (!Object.keys(result).length) {
+      throw new Error("At least one property of the correlation filter must be provided.");
+    }
+    return result;
+  }
+
+  /**
+   * Provides the filter that matches all the messages.
+   * @returns {boolean} boolean
+   */
+  export function trueFilter(): boolean {
+    return true;
+  }
+
+  /**
+   * Provides the filter that matches no message.
+   * @returns {boolean} boolean
+   */
+  export function falseFilter(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,223 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Long from "long";
+import { generate_uuid } from "rhea-promise";
+import { SendableMessageInfo } from "../serviceBusMessage";
+import {
+  SqlNode,
+  SqlPropertyNode,
+  SqlActionStatement,
+  parseSqlFilter,
+  parseSqlRuleAction
+} from "./sqlParser";
+
+/**
+ * Describes the values that a SQL expression can evaluate to. `undefined` stands for the unknown
+ * value (NULL in SQL), e.g. of a property that is not set.
+ * @ignore
+ */
+type SqlValue = string | number | boolean | Date | undefined;
+
+/**
+ * Provides the name of the property of the message that corresponds to the given system
+ * property, e.g. "messageId" for "MessageId".
+ * @ignore
+ */
+function getMessagePropertyName(systemPropertyName: string): string {
+  return systemPropertyName[0].toLowerCase() + systemPropertyName.substring(1);
+}
+
+function toSqlValue(value: any): SqlValue {
+  if (Long.isLong(value)) return (value as Long).toNumber();
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  // The values of other types, e.g. Buffers, can not be compared and are treated as unknown.
+  return undefined;
+}
+
+function getProperty(property: SqlPropertyNode, message: SendableMessageInfo): any {
+  if (property.scope === "user") {
+    return message.userProperties ? message.userProperties[property.name] : undefined;
+  }
+  return (message as any)[getMessagePropertyName(property.name)];
+}
+
+/**
+ * Compares the given values if they are of the same type, which is the only case in which the
+ * broker compares them.
+ * @ignore
+ */
+function compare(left: SqlValue, right: SqlValue): number | undefined {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (left == undefined || typeof left !== typeof right || typeof left === "object") {
+    return undefined;
+  }
+  if (left === right) return 0;
+  if (typeof left === "boolean") return NaN;
+  return left < right! ? -1 : 1;
+}
+
+function likeToRegExp(pattern: string, escape?: string): RegExp {
+  let source = "";
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === escape && index + 1 < pattern.length) {
+      index++;
+      source += pattern[index].replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+    } else if (char === "%") {
+      source += "[\\s\\S]*";
+    } else if (char === "_") {
+      source += "[\\s\\S]";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function evaluate(node: SqlNode, message: SendableMessageInfo): SqlValue {
+  switch (node.kind) {
+    case "constant":
+      return node.value;
+    case "property":
+      return toSqlValue(getProperty(node, message));
+    case "function":
+      return generate_uuid();
+    case "exists":
+      return getProperty(node.property, message) !== undefined;
+    case "isNull": {
+      const isNull = evaluate(node.operand, message) === undefined;
+      return node.negated ? !isNull : isNull;
+    }
+    case "like": {
+      const value = evaluate(node.operand, message);
+      if (typeof value !== "string") return undefined;
+      const isMatch = likeToRegExp(node.pattern, node.escape).test(value);
+      return node.negated ? !isMatch : isMatch;
+    }
+    case "in": {
+      const value = evaluate(node.operand, message);
+      if (value === undefined) return undefined;
+      const isMatch = node.values.some(
+        (item: SqlNode) => compare(value, evaluate(item, message)) === 0
+      );
+      return node.negated ? !isMatch : isMatch;
+    }
+    case "unary": {
+      const value = evaluate(node.operand, message);
+      if (node.operator === "not") {
+        return typeof value === "boolean" ? !value : undefined;
+      }
+      if (typeof value !== "number") return undefined;
+      return node.operator === "-" ? -value : value;
+    }
+    case "binary":
+      return evaluateBinary(node, message);
+  }
+}
+
+function evaluateBinary(
+  node: Extract<SqlNode, { kind: "binary" }>,
+  message: SendableMessageInfo
+): SqlValue {
+  const left = evaluate(node.left, message);
+  const right = evaluate(node.right, message);
+  switch (node.operator) {
+    // AND and OR follow the three-valued logic of SQL.
+    case "and":
+      if (left === false || right === false) return false;
+      return left === true && right === true ? true : undefined;
+    case "or":
+      if (left === true || right === true) return true;
+      return left === false && right === false ? false : undefined;
+    case "=":
+    case "<>":
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const result = compare(left, right);
+      if (result === undefined) return undefined;
+      if (node.operator === "=") return result === 0;
+      if (node.operator === "<>") return result !== 0;
+      if (isNaN(result)) return undefined;
+      if (node.operator === "<") return result < 0;
+      if (node.operator === "<=") return result <= 0;
+      if (node.operator === ">") return result > 0;
+      return result >= 0;
+    }
+    default:
+      if (node.operator === "+" && typeof left === "string" && typeof right === "string") {
+        return left + right;
+      }
+      if (typeof left !== "number" || typeof right !== "number") return undefined;
+      if (node.operator === "+") return left + right;
+      if (node.operator === "-") return left - right;
+      if (node.operator === "*") return left * right;
+      if (right === 0) return undefined;
+      return node.operator === "/" ? left / right : left % right;
+  }
+}
+
+/**
+ * Evaluates the given SQL filter against the given message, as the broker would when the message
+ * is sent to the topic. The comparisons and the arithmetic operations on the properties that are
+ * not set, or on values of different types, evaluate to unknown (as in SQL), in which case the
+ * message does not match the filter. The system properties that are assigned by the broker, e.g.
+ * `sys.SequenceNumber`, are only known for received messages.
+ * @param {string | SqlNode} filter The SQL filter expression, or its parsed form as provided by
+ * `parseSqlFilter()`.
+ * @param {SendableMessageInfo} message The message.
+ * @returns {boolean} `true` if the message matches the filter.
+ * @throws {SqlSyntaxError} If the filter expression is not valid.
+ */
+export function evaluateSqlFilter(filter: string | SqlNode, message: SendableMessageInfo): boolean {
+  const node = typeof filter === "string" ? parseSqlFilter(filter) : filter;
+  if (!message || typeof message !== "object") {
+    throw new Error("'message' is a required parameter and must be of type 'object'.");
+  }
+  return evaluate(node, message) === true;
+}
+
+/**
+ * Applies the given SQL rule action to a copy of the given message, as the broker would when the
+ * message matches the filter of the rule. The statements are applied in order, hence a statement
+ * observes the changes made by the previous ones.
+ * @param {string | SqlActionStatement[]} action The SQL rule action expression, or its parsed form
+ * as provided by `parseSqlRuleAction()`.
+ * @param {SendableMessageInfo} message The message, that is not modified.
+ * @returns {SendableMessageInfo} The modified copy of the message.
+ * @throws {SqlSyntaxError} If the action expression is not valid.
+ */
+export function applySqlRuleAction(
+  action: string | SqlActionStatement[],
+  message: SendableMessageInfo
+): SendableMessageInfo {
+  const statements = typeof action === "string" ? parseSqlRuleAction(action) : action;
+  if (!message || typeof message !== "object") {
+    throw new Error("'message' is a required parameter and must be of type 'object'.");
+  }
+  const result: SendableMessageInfo = { ...message, userProperties: { ...message.userProperties } };
+  for (const statement of statements) {
+    const target: any = statement.property.scope === "user" ? result.userProperties : result;
+    const name =
+      statement.property.scope === "user"
+        ? statement.property.name
+        : getMessagePropertyName(statement.property.name);
+    if (statement.kind === "set") {
+      target[name] = evaluate(statement.value, result);
+    } else {
+      delete target[name];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,570 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { SqlSyntaxError } from "../errors";
+
+/**
+ * Describes the scope of a property in a SQL expression: the system properties (`sys.`) or the
+ * user properties (`user.`, which is the default scope).
+ */
+export type SqlPropertyScope = "sys" | "user";
+
+/**
+ * Describes the binary operators of the SQL grammar.
+ */
+export type SqlBinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "="
+  | "<>"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "and"
+  | "or";
+
+/**
+ * Describes a node of a parsed SQL expression. The `position` of every node is the zero-based
+ * offset in the expression at which the node starts.
+ */
+export type SqlNode =
+  | { kind: "constant"; value: string | number | boolean | undefined; position: number }
+  | { kind: "property"; scope: SqlPropertyScope; name: string; position: number }
+  | { kind: "function"; name: "newid"; position: number }
+  | { kind: "unary"; operator: "+" | "-" | "not"; operand: SqlNode; position: number }
+  | {
+      kind: "binary";
+      operator: SqlBinaryOperator;
+      left: SqlNode;
+      right: SqlNode;
+      position: number;
+    }
+  | {
+      kind: "like";
+      operand: SqlNode;
+      pattern: string;
+      escape?: string;
+      negated: boolean;
+      position: number;
+    }
+  | { kind: "in"; operand: SqlNode; values: SqlNode[]; negated: boolean; position: number }
+  | { kind: "isNull"; operand: SqlNode; negated: boolean; position: number }
+  | { kind: "exists"; property: SqlPropertyNode; position: number };
+
+/**
+ * Describes a node of a parsed SQL expression that refers to a property.
+ */
+export type SqlPropertyNode = Extract<SqlNode, { kind: "property" }>;
+
+/**
+ * Describes a statement of a parsed SQL rule action.
+ */
+export type SqlActionStatement =
+  | { kind: "set"; property: SqlPropertyNode; value: SqlNode; position: number }
+  | { kind: "remove"; property: SqlPropertyNode; position: number };
+
+/**
+ * The known system properties, by their lower-case name. The properties that are assigned by the
+ * broker can only be read.
+ * @ignore
+ */
+export const systemProperties: { [name: string]: { name: string; readOnly: boolean } } = {};
+for (const name of [
+  "MessageId",
+  "CorrelationId",
+  "ContentType",
+  "Label",
+  "To",
+  "ReplyTo",
+  "ReplyToSessionId",
+  "SessionId",
+  "PartitionKey",
+  "ViaPartitionKey",
+  "TimeToLive",
+  "ScheduledEnqueueTimeUtc"
+]) {
+  systemProperties[name.toLowerCase()] = { name: name, readOnly: false };
+}
+for (const name of [
+  "DeliveryCount",
+  "EnqueuedSequenceNumber",
+  "EnqueuedTimeUtc",
+  "ExpiresAtUtc",
+  "LockedUntilUtc",
+  "SequenceNumber",
+  "Size",
+  "State",
+  "DeadLetterSource"
+]) {
+  systemProperties[name.toLowerCase()] = { name: name, readOnly: true };
+}
+
+type TokenType = "number" | "string" | "identifier" | "keyword" | "symbol" | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+/**
+ * The keywords of the SQL grammar, that can not be used as property names unless delimited.
+ * @ignore
+ */
+export const keywords: string[] = [
+  "and",
+  "or",
+  "not",
+  "like",
+  "escape",
+  "in",
+  "is",
+  "null",
+  "exists",
+  "true",
+  "false",
+  "set",
+  "remove"
+];
+
+const symbols: string[] = [
+  "<>",
+  "!=",
+  "<=",
+  ">=",
+  "=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  ",",
+  ".",
+  ";"
+];
+
+function describeToken(token: Token): string {
+  if (token.type === "end") return "the end of the expression";
+  if (token.type === "string") return `the string '${token.value}'`;
+  return `'${token.value}'`;
+}
+
+/**
+ * Splits a SQL expression into tokens.
+ * @ignore
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < expression.length) {
+    const char = expression[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    const start = index;
+    const rest = expression.substring(index);
+    const numberMatch = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+    if (numberMatch) {
+      if (/^[A-Za-z_]/.test(rest.substring(numberMatch[0].length))) {
+        throw new SqlSyntaxError(
+          `The number '${numberMatch[0]}' must not be followed by a letter`,
+          expression,
+          start + numberMatch[0].length
+        );
+      }
+      tokens.push({ type: "number", value: numberMatch[0], position: start });
+      index += numberMatch[0].length;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "[") {
+      // Strings are enclosed in single quotes, while delimited identifiers are enclosed in double
+      // quotes or square brackets. The closing character is escaped by doubling it.
+      const closing = char === "[" ? "]" : char;
+      let value = "";
+      index++;
+      while (true) {
+        if (index >= expression.length) {
+          throw new SqlSyntaxError(
+            char === "'" ? "The string is not terminated" : "The identifier is not terminated",
+            expression,
+            start
+          );
+        }
+        if (expression[index] === closing) {
+          if (expression[index + 1] !== closing) break;
+          index++;
+        }
+        value += expression[index];
+        index++;
+      }
+      index++;
+      if (char !== "'" && !value) {
+        throw new SqlSyntaxError("The identifier must not be empty", expression, start);
+      }
+      tokens.push({ type: char === "'" ? "string" : "identifier", value: value, position: start });
+      continue;
+    }
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (identifierMatch) {
+      const value = identifierMatch[0];
+      const isKeyword = keywords.indexOf(value.toLowerCase()) !== -1;
+      tokens.push({
+        type: isKeyword ? "keyword" : "identifier",
+        value: isKeyword ? value.toLowerCase() : value,
+        position: start
+      });
+      index += value.length;
+      continue;
+    }
+    const symbol = symbols.find((s: string) => rest.startsWith(s));
+    if (!symbol) {
+      throw new SqlSyntaxError(`The character '${char}' is not expected`, expression, start);
+    }
+    tokens.push({ type: "symbol", value: symbol === "!=" ? "<>" : symbol, position: start });
+    index += symbol.length;
+  }
+  tokens.push({ type: "end", value: "", position: expression.length });
+  return tokens;
+}
+
+/**
+ * A recursive descent parser for the SQL grammar of the filters and the rule actions.
+ * @ignore
+ */
+class SqlParser {
+  private _expression: string;
+  private _tokens: Token[];
+  private _index: number = 0;
+
+  constructor(expression: string) {
+    this._expression = expression;
+    this._tokens = tokenize(expression);
+  }
+
+  parseFilter(): SqlNode {
+    const result = this._parseOr();
+    this._expect("end");
+    return result;
+  }
+
+  parseAction(): SqlActionStatement[] {
+    const statements: SqlActionStatement[] = [];
+    do {
+      if (this._peek().type === "end") break;
+      statements.push(this._parseStatement());
+    } while (this._accept("symbol", ";"));
+    this._expect("end");
+    if (!statements.length) {
+      throw this._unexpected("'SET' or 'REMOVE'", this._peek());
+    }
+    return statements;
+  }
+
+  private _parseStatement(): SqlActionStatement {
+    const token = this._peek();
+    if (this._accept("keyword", "set")) {
+      const property = this._parseProperty(true);
+      this._expect("symbol", "=");
+      return { kind: "set", property: property, value: this._parseOr(), position: token.position };
+    }
+    if (this._accept("keyword", "remove")) {
+      return { kind: "remove", property: this._parseProperty(true), position: token.position };
+    }
+    throw this._unexpected("'SET' or 'REMOVE'", token);
+  }
+
+  private _parseOr(): SqlNode {
+    let left = this._parseAnd();
+    while (this._accept("keyword", "or")) {
+      left = {
+        kind: "binary",
+        operator: "or",
+        left: left,
+        right: this._parseAnd(),
+        position: left.position
+      };
+    }
+    return left;
+  }
+
+  private _parseAnd(): SqlNode {
+    let left = this._parseNot();
+    while (this._accept("keyword", "and")) {
+      left = {
+        kind: "binary",
+        operator: "and",
+        left: left,
+        right: this._parseNot(),
+        position: left.position
+      };
+    }
+    return left;
+  }
+
+  private _parseNot(): SqlNode {
+    const token = this._peek();
+    if (this._accept("keyword", "not")) {
+      return {
+        kind: "unary",
+        operator: "not",
+        operand: this._parseNot(),
+        position: token.position
+      };
+    }
+    return this._parsePredicate();
+  }
+
+  private _parsePredicate(): SqlNode {
+    const token = this._peek();
+    if (this._accept("keyword", "exists")) {
+      this._expect("symbol", "(");
+      const property = this._parseProperty(false);
+      this._expect("symbol", ")");
+      return { kind: "exists", property: property, position: token.position };
+    }
+    const operand = this._parseAdditive();
+    const next = this._peek();
+    if (next.type === "symbol" && ["=", "<>", "<", "<=", ">", ">="].indexOf(next.value) !== -1) {
+      this._index++;
+      return {
+        kind: "binary",
+        operator: next.value as SqlBinaryOperator,
+        left: operand,
+        right: this._parseAdditive(),
+        position: operand.position
+      };
+    }
+    if (this._accept("keyword", "is")) {
+      const negated = this._accept("keyword", "not");
+      this._expect("keyword", "null");
+      return { kind: "isNull", operand: operand, negated: negated, position: operand.position };
+    }
+    const negated = this._accept("keyword", "not");
+    if (this._accept("keyword", "like")) {
+      const pattern = this._expect("string");
+      let escape: string | undefined;
+      if (this._accept("keyword", "escape")) {
+        const escapeToken = this._expect("string");
+        if (escapeToken.value.length !== 1) {
+          throw this._error("The escape character must be a single character", escapeToken);
+        }
+        escape = escapeToken.value;
+      }
+      return {
+        kind: "like",
+        operand: operand,
+        pattern: pattern.value,
+        escape: escape,
+        negated: negated,
+        position: operand.position
+      };
+    }
+    if (this._accept("keyword", "in")) {
+      this._expect("symbol", "(");
+      const values: SqlNode[] = [this._parseAdditive()];
+      while (this._accept("symbol", ",")) {
+        values.push(this._parseAdditive());
+      }
+      this._expect("symbol", ")");
+      return {
+        kind: "in",
+        operand: operand,
+        values: values,
+        negated: negated,
+        position: operand.position
+      };
+    }
+    if (negated) {
+      throw this._unexpected("'LIKE' or 'IN'", this._peek());
+    }
+    return operand;
+  }
+
+  private _parseAdditive(): SqlNode {
+    let left = this._parseMultiplicative();
+    let token = this._peek();
+    while (token.type === "symbol" && (token.value === "+" || token.value === "-")) {
+      this._index++;
+      left = {
+        kind: "binary",
+        operator: token.value as SqlBinaryOperator,
+        left: left,
+        right: this._parseMultiplicative(),
+        position: left.position
+      };
+      token = this._peek();
+    }
+    return left;
+  }
+
+  private _parseMultiplicative(): SqlNode {
+    let left = this._parseUnary();
+    let token = this._peek();
+    while (token.type === "symbol" && ["*", "/", "%"].indexOf(token.value) !== -1) {
+      this._index++;
+      left = {
+        kind: "binary",
+        operator: token.value as SqlBinaryOperator,
+        left: left,
+        right: this._parseUnary(),
+        position: left.position
+      };
+      token = this._peek();
+    }
+    return left;
+  }
+
+  private _parseUnary(): SqlNode {
+    const token = this._peek();
+    if (token.type === "symbol" && (token.value === "+" || token.value === "-")) {
+      this._index++;
+      return {
+        kind: "unary",
+        operator: token.value as "+" | "-",
+        operand: this._parseUnary(),
+        position: token.position
+      };
+    }
+    return this._parsePrimary();
+  }
+
+  private _parsePrimary(): SqlNode {
+    const token = this._peek();
+    if (token.type === "number") {
+      this._index++;
+      return { kind: "constant", value: Number(token.value), position: token.position };
+    }
+    if (token.type === "string") {
+      this._index++;
+      return { kind: "constant", value: token.value, position: token.position };
+    }
+    if (token.type === "keyword" && ["true", "false", "null"].indexOf(token.value) !== -1) {
+      this._index++;
+      const value = token.value === "null" ? undefined : token.value === "true";
+      return { kind: "constant", value: value, position: token.position };
+    }
+    if (this._accept("symbol", "(")) {
+      const result = this._parseOr();
+      this._expect("symbol", ")");
+      return result;
+    }
+    const next = this._tokens[this._index + 1];
+    if (token.type === "identifier" && next.type === "symbol" && next.value === "(") {
+      if (token.value.toLowerCase() !== "newid") {
+        throw this._error(`The function '${token.value}' is not supported`, token);
+      }
+      this._index++;
+      this._expect("symbol", "(");
+      this._expect("symbol", ")");
+      return { kind: "function", name: "newid", position: token.position };
+    }
+    if (token.type === "identifier") {
+      return this._parseProperty(false);
+    }
+    throw this._unexpected("a constant, a property or '('", token);
+  }
+
+  private _parseProperty(isAssigned: boolean): SqlPropertyNode {
+    const token = this._expect("identifier");
+    let scope: SqlPropertyScope = "user";
+    let nameToken = token;
+    const prefix = token.value.toLowerCase();
+    if (
+      (prefix === "sys" || prefix === "user") &&
+      this._expression[token.position] !== "[" &&
+      this._expression[token.position] !== '"' &&
+      this._accept("symbol", ".")
+    ) {
+      scope = prefix as SqlPropertyScope;
+      nameToken = this._expect("identifier");
+    }
+    if (scope === "user") {
+      return { kind: "property", scope: scope, name: nameToken.value, position: token.position };
+    }
+    // The service does not reject the system properties that it does not know, hence only the
+    // name of a known system property is normalized to its casing.
+    const systemProperty = systemProperties[nameToken.value.toLowerCase()];
+    if (!systemProperty) {
+      return { kind: "property", scope: scope, name: nameToken.value, position: token.position };
+    }
+    if (isAssigned && systemProperty.readOnly) {
+      throw this._error(
+        `The system property '${systemProperty.name}' can not be modified`,
+        nameToken
+      );
+    }
+    return { kind: "property", scope: scope, name: systemProperty.name, position: token.position };
+  }
+
+  private _peek(): Token {
+    return this._tokens[this._index];
+  }
+
+  private _accept(type: TokenType, value?: string): boolean {
+    const token = this._peek();
+    if (token.type !== type || (value != undefined && token.value !== value)) return false;
+    this._index++;
+    return true;
+  }
+
+  private _expect(type: TokenType, value?: string): Token {
+    const token = this._peek();
+    if (!this._accept(type, value)) {
+      const expected =
+        value != undefined
+          ? `'${value.toUpperCase()}'`
+          : type === "end"
+          ? "the end of the expression"
+          : `a ${type === "identifier" ? "property name" : type}`;
+      throw this._unexpected(expected, token);
+    }
+    return token;
+  }
+
+  private _unexpected(expected: string, token: Token): SqlSyntaxError {
+    return this._error(`Expected ${expected}, but found ${describeToken(token)}`, token);
+  }
+
+  private _error(message: string, token: Token): SqlSyntaxError {
+    return new SqlSyntaxError(message, this._expression, token.position);
+  }
+}
+
+/**
+ * Parses the given SQL filter expression, as in `SQLExpression.expression`, into a tree of nodes
+ * that can be evaluated with `evaluateSqlFilter()`. It supports the system (`sys.`) and user
+ * (`user.`) properties, the comparison and arithmetic operators, `AND`, `OR`, `NOT`, `LIKE`,
+ * `IN`, `IS [NOT] NULL`, `EXISTS` and the `newid()` function.
+ * @param {string} expression The SQL filter expression.
+ * @returns {SqlNode} The root node of the expression.
+ * @throws {SqlSyntaxError} If the expression is not valid, with the position of the error.
+ */
+export function parseSqlFilter(expression: string): SqlNode {
+  if (typeof expression !== "string") {
+    throw new Error("'expression' must be of type 'string'.");
+  }
+  return new SqlParser(expression).parseFilter();
+}
+
+/**
+ * Parses the given SQL rule action expression, i.e. one or more `SET` and `REMOVE` statements
+ * separated by ";", into statements that can be applied with `applySqlRuleAction()`.
+ * @param {string} expression The SQL rule action expression.
+ * @returns {SqlActionStatement[]} The statements of the action.
+ * @throws {SqlSyntaxError} If the expression is not valid, with the position of the error.
+ */
+export function parseSqlRuleAction(expression: string): SqlActionStatement[] {
+  if (typeof expression !== "string") {
+    throw new Error("'expression' must be of type 'string'.");
+  }
+  return new SqlParser(expression).parseAction();
+}
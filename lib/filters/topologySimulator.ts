@@ -0,0 +1,198 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Long from "long";
+import { SendableMessageInfo } from "../serviceBusMessage";
+import { RuleDescription, CorrelationFilter, SQLExpression } from "../core/managementClient";
+import { evaluateSqlFilter, applySqlRuleAction } from "./sqlEvaluator";
+
+/**
+ * Describes the rules of a subscription, as provided by `SubscriptionClient.getRules()`.
+ * @interface SubscriptionRules
+ */
+export interface SubscriptionRules {
+  /**
+   * @property {string} subscriptionName The name of the subscription.
+   */
+  subscriptionName: string;
+  /**
+   * @property {RuleDescription[]} rules The rules of the subscription.
+   */
+  rules: RuleDescription[];
+}
+
+/**
+ * Describes a rule whose filter matches the message.
+ * @interface RuleMatch
+ */
+export interface RuleMatch {
+  /**
+   * @property {string} ruleName The name of the rule.
+   */
+  ruleName: string;
+  /**
+   * @property {SendableMessageInfo} message The message that the subscription receives for the
+   * rule, after the action of the rule was applied.
+   */
+  message: SendableMessageInfo;
+}
+
+/**
+ * Describes a rule whose filter or action could not be evaluated.
+ * @interface RuleFailure
+ */
+export interface RuleFailure {
+  /**
+   * @property {string} ruleName The name of the rule.
+   */
+  ruleName: string;
+  /**
+   * @property {Error} error The error, e.g. a `SqlSyntaxError` if the expression is not supported.
+   */
+  error: Error;
+}
+
+/**
+ * Describes the outcome of the simulation for a subscription.
+ * @interface SubscriptionSimulation
+ */
+export interface SubscriptionSimulation {
+  /**
+   * @property {string} subscriptionName The name of the subscription.
+   */
+  subscriptionName: string;
+  /**
+   * @property {RuleMatch[]} matchedRules The rules that match the message. The subscription
+   * receives a copy of the message for each of them.
+   */
+  matchedRules: RuleMatch[];
+  /**
+   * @property {RuleFailure[]} failedRules The rules that could not be evaluated.
+   */
+  failedRules: RuleFailure[];
+}
+
+/**
+ * Describes the outcome of the simulation for a topic.
+ * @interface TopologySimulation
+ */
+export interface TopologySimulation {
+  /**
+   * @property {string[]} receivingSubscriptions The names of the subscriptions that receive the
+   * message.
+   */
+  receivingSubscriptions: string[];
+  /**
+   * @property {SubscriptionSimulation[]} subscriptions The outcome for each subscription, in the
+   * order in which the subscriptions were provided.
+   */
+  subscriptions: SubscriptionSimulation[];
+}
+
+/**
+ * The properties of a correlation filter that are compared with the properties of the message of
+ * the same name.
+ * @ignore
+ */
+const correlationProperties: Array<keyof CorrelationFilter> = [
+  "correlationId",
+  "messageId",
+  "to",
+  "replyTo",
+  "label",
+  "sessionId",
+  "replyToSessionId",
+  "contentType"
+];
+
+function isEqualValue(filterValue: any, messageValue: any): boolean {
+  if (Long.isLong(filterValue)) filterValue = (filterValue as Long).toNumber();
+  if (Long.isLong(messageValue)) messageValue = (messageValue as Long).toNumber();
+  if (filterValue instanceof Date && messageValue instanceof Date) {
+    return filterValue.getTime() === messageValue.getTime();
+  }
+  return filterValue === messageValue;
+}
+
+/**
+ * Evaluates the given correlation filter against the given message, as the broker would: every
+ * property that is set on the filter must be equal to the property of the message, including its
+ * type, e.g. the user property `1` does not match `"1"`.
+ * @ignore
+ */
+function matchesCorrelationFilter(
+  filter: CorrelationFilter,
+  message: SendableMessageInfo
+): boolean {
+  for (const name of correlationProperties) {
+    if (filter[name] != undefined && !isEqualValue(filter[name], (message as any)[name])) {
+      return false;
+    }
+  }
+  if (filter.userProperties) {
+    const userProperties = message.userProperties || {};
+    for (const key of Object.keys(filter.userProperties)) {
+      if (!isEqualValue(filter.userProperties[key], userProperties[key])) return false;
+    }
+  }
+  return true;
+}
+
+function matchesRule(rule: RuleDescription, message: SendableMessageInfo): boolean {
+  // A rule without a filter matches all the messages, as does the default rule.
+  if (!rule.filter) return true;
+  if (typeof (rule.filter as SQLExpression).expression === "string") {
+    return evaluateSqlFilter((rule.filter as SQLExpression).expression, message);
+  }
+  return matchesCorrelationFilter(rule.filter as CorrelationFilter, message);
+}
+
+/**
+ * Predicts which subscriptions of a topic receive the given message, without sending it: the
+ * filter of every rule is evaluated against the message (see `evaluateSqlFilter()` for the SQL
+ * filters), and the action of every matching rule is applied to a copy of the message (see
+ * `applySqlRuleAction()`). A subscription receives a copy of the message for each matching
+ * rule. The rules that can not be evaluated, e.g. because they use an expression that is not
+ * supported, are reported instead of failing the simulation.
+ * @param {SubscriptionRules[]} subscriptions The rules of the subscriptions of the topic.
+ * @param {SendableMessageInfo} message The message, that is not modified.
+ * @returns {TopologySimulation} TopologySimulation
+ */
+export function simulateTopology(
+  subscriptions: SubscriptionRules[],
+  message: SendableMessageInfo
+): TopologySimulation {
+  if (!Array.isArray(subscriptions)) {
+    throw new Error("'subscriptions' is a required parameter and must be of type 'Array'.");
+  }
+  if (!message || typeof message !== "object") {
+    throw new Error("'message' is a required parameter and must be of type 'object'.");
+  }
+  const result: TopologySimulation = { receivingSubscriptions: [], subscriptions: [] };
+  for (const subscription of subscriptions) {
+    const simulation: SubscriptionSimulation = {
+      subscriptionName: subscription.subscriptionName,
+      matchedRules: [],
+      failedRules: []
+    };
+    for (const rule of subscription.rules || []) {
+      try {
+        if (!matchesRule(rule, message)) continue;
+        simulation.matchedRules.push({
+          ruleName: rule.name,
+          message:
+            rule.action && rule.action.expression
+              ? applySqlRuleAction(rule.action.expression, message)
+              : { ...message, userProperties: { ...message.userProperties } }
+        });
+      } catch (err) {
+        simulation.failedRules.push({ ruleName: rule.name, error: err });
+      }
+    }
+    if (simulation.matchedRules.length) {
+      result.receivingSubscriptions.push(subscription.subscriptionName);
+    }
+    result.subscriptions.push(simulation);
+  }
+  return result;
+}
@@ -33,6 +33,18 @@ export {
 } from "./serviceBusMessage";
 export { ReceiveHandler, MessageHandlerOptions } from "./core/streamingReceiver";
 export { OnError, OnMessage } from "./core/messageReceiver";
+export {
+  MessageBatch,
+  CreateBatchOptions,
+  SendOptions,
+  SendBatchOptions,
+  SendBatchSlice,
+  SendBatchResult
+} from "./core/messageBatch";
+export { SendResult, SendOutcome } from "./core/sendResult";
+export { IdempotencyOptions } from "./core/idempotency";
+export { Transaction, SettleOptions } from "./core/transaction";
+export { BufferedSender, BufferedSenderOptions, BufferedMessage } from "./core/bufferedSender";
 export {
   MessageSession,
   OnSessionMessage,
@@ -40,7 +52,83 @@ export {
   SessionHandlerOptions
 } from "./session/messageSession";
 export { QueueClientOptions, QueueClient } from "./queueClient";
-export { Namespace, NamespaceOptions } from "./namespace";
-export { TopicClient } from "./topicClient";
+export { Namespace, NamespaceOptions, ConnectionPoolStrategy, WebSocketOptions } from "./namespace";
+export {
+  ConnectionState,
+  ConnectionStateChange,
+  ClientReconnectOutcome
+} from "./connectionContext";
+export { TopicClientOptions, TopicClient } from "./topicClient";
+export { CloseOptions, DrainResult } from "./client";
 export { SubscriptionClient, SubscriptionClientOptions } from "./subscriptionClient";
-export { SQLExpression, CorrelationFilter, RuleDescription } from "./core/managementClient";
+export {
+  SQLExpression,
+  CorrelationFilter,
+  RuleDescription,
+  RuleDefinition,
+  RuleChanges
+} from "./core/managementClient";
+export { RetryOptions, RetryMode } from "./util/retry";
+export { ProxyOptions } from "./util/proxy";
+export { OperationOptions, AbortSignalLike } from "./util/abort";
+export { ProxyAuthenticationError, AbortError, CircuitOpenError, SqlSyntaxError } from "./errors";
+export {
+  BackoffStrategy,
+  ExponentialBackoffStrategy,
+  ExponentialBackoffOptions
+} from "./util/backoff";
+export { CircuitState, CircuitBreakerOptions } from "./util/circuitBreaker";
+export {
+  HealthCheckStep,
+  HealthCheckOptions,
+  HealthCheckStepResult,
+  HealthCheckResult
+} from "./core/healthProbe";
+export {
+  EntityManager,
+  EntityManagerOptions,
+  ListEntitiesOptions
+} from "./management/entityManager";
+export { EntityStatus, QueueDescription, QueueInfo } from "./management/queueDescription";
+export { TopicDescription, TopicInfo } from "./management/topicDescription";
+export {
+  SubscriptionDescription,
+  SubscriptionInfo,
+  DefaultRuleDescription
+} from "./management/subscriptionDescription";
+export { EntityRuntimeInfo } from "./management/runtimeInfo";
+export {
+  TopologySpec,
+  TopicSpec,
+  SubscriptionSpec,
+  ApplyTopologyOptions,
+  TopologyChangeKind,
+  TopologyChange,
+  TopologyResult,
+  SkippedEntity
+} from "./management/topology";
+export {
+  SqlNode,
+  SqlPropertyNode,
+  SqlPropertyScope,
+  SqlBinaryOperator,
+  SqlActionStatement,
+  parseSqlFilter,
+  parseSqlRuleAction
+} from "./filters/sqlParser";
+export { evaluateSqlFilter, applySqlRuleAction } from "./filters/sqlEvaluator";
+export {
+  Filter,
+  SqlFilterBuilder,
+  SqlConditionBuilder,
+  SqlFilterExpression,
+  SqlFilterValue
+} from "./filters/filterBuilder";
+export {
+  simulateTopology,
+  SubscriptionRules,
+  RuleMatch,
+  RuleFailure,
+  SubscriptionSimulation,
+  TopologySimulation
+} from "./filters/topologySimulator";
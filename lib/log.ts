@@ -97,3 +97,28 @@ export const semaphore = debugModule("azure:service-bus:semaphore");
  * log statements for sessionManager
  */
 export const sessionManager = debugModule("azure:service-bus:sessionManager");
+/**
+ * @ignore
+ * log statements for retry
+ */
+export const retry = debugModule("azure:service-bus:retry");
+/**
+ * @ignore
+ * log statements for proxy
+ */
+export const proxy = debugModule("azure:service-bus:proxy");
+/**
+ * @ignore
+ * log statements for circuitBreaker
+ */
+export const circuitBreaker = debugModule("azure:service-bus:circuitBreaker");
+/**
+ * @ignore
+ * log statements for entityManager
+ */
+export const entityManager = debugModule("azure:service-bus:entityManager");
+/**
+ * @ignore
+ * log statements for transaction
+ */
+export const transaction = debugModule("azure:service-bus:transaction");
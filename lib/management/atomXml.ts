@@ -0,0 +1,336 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Dictionary } from "@azure/amqp-common";
+
+/**
+ * The namespace of the entity descriptions in the ATOM feeds and entries.
+ * @ignore
+ */
+export const serviceBusNamespace: string =
+  "http://schemas.microsoft.com/netservices/2010/10/servicebus/connect";
+
+/**
+ * Describes an element of a parsed XML document. The namespace prefixes of the element and of the
+ * attributes are removed.
+ * @ignore
+ * @interface XmlElement
+ */
+export interface XmlElement {
+  /**
+   * @property {string} name The local name of the element.
+   */
+  name: string;
+  /**
+   * @property {Dictionary<string>} attributes The attributes of the element, by their local name.
+   */
+  attributes: Dictionary<string>;
+  /**
+   * @property {XmlElement[]} children The child elements.
+   */
+  children: XmlElement[];
+  /**
+   * @property {string} text The text content of the element, excluding the child elements.
+   */
+  text: string;
+}
+
+/**
+ * Describes the type of a property of an entity description, that determines how it is
+ * represented in XML.
+ * @ignore
+ */
+export type PropertyType = "string" | "number" | "boolean" | "duration" | "date" | "object";
+
+/**
+ * Describes how a property of an entity description maps to an element of the XML description.
+ * @ignore
+ * @interface PropertyMapping
+ */
+export interface PropertyMapping {
+  /**
+   * @property {string} property The name of the property in the description object.
+   */
+  property: string;
+  /**
+   * @property {string} element The name of the element in the XML description. The read-only
+   * properties may be provided by nested elements, in which case their names are separated by
+   * "/", e.g. "CountDetails/ActiveMessageCount".
+   */
+  element: string;
+  /**
+   * @property {PropertyType} type The type of the property.
+   */
+  type: PropertyType;
+  /**
+   * @property {boolean} [readOnly] Indicates whether the property is only provided by the
+   * service, in which case it is never serialized.
+   */
+  readOnly?: boolean;
+  /**
+   * @property {Function} [serialize] Serializes the value into the content of the element. It is
+   * required for the properties of the type "object", that are only serialized, since the service
+   * does not provide them.
+   */
+  serialize?: (value: any) => string;
+}
+
+const entities: Dictionary<string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'"
+};
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match: string, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return String.fromCharCode(code);
+    }
+    return entities[entity] != undefined ? entities[entity] : match;
+  });
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(":");
+  return index === -1 ? name : name.substring(index + 1);
+}
+
+/**
+ * Escapes the characters that are not allowed in the text content or attributes of XML.
+ * @ignore
+ * @param {string} value The value to be escaped.
+ * @returns {string} The escaped value.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Parses the given XML document. It supports the subset of XML that is used by the ATOM feeds
+ * of the service: elements, attributes, text, CDATA sections, comments and processing
+ * instructions. Document type declarations are not supported.
+ * @ignore
+ * @param {string} xml The XML document.
+ * @returns {XmlElement} The root element.
+ */
+export function parseXml(xml: string): XmlElement {
+  const tokenizer = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([^\s>\/]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(xml))) {
+    const [, cdata, closing, name, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (cdata != undefined || text != undefined) {
+      if (current) current.text += cdata != undefined ? cdata : decodeXml(text);
+    } else if (name != undefined) {
+      if (name.startsWith("!")) {
+        throw new Error("The XML must not have a document type declaration.");
+      }
+      if (closing) {
+        const element = stack.pop();
+        if (!element || element.name !== localName(name)) {
+          throw new Error(`The XML is malformed, since the element '${name}' is not expected.`);
+        }
+        continue;
+      }
+      const element: XmlElement = {
+        name: localName(name),
+        attributes: {},
+        children: [],
+        text: ""
+      };
+      let attribute: RegExpExecArray | null;
+      attributePattern.lastIndex = 0;
+      while ((attribute = attributePattern.exec(attributes))) {
+        const value = attribute[2] != undefined ? attribute[2] : attribute[3];
+        element.attributes[localName(attribute[1])] = decodeXml(value);
+      }
+      if (current) {
+        current.children.push(element);
+      } else if (!root) {
+        root = element;
+      } else {
+        throw new Error("The XML is malformed, since it has more than one root element.");
+      }
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  if (!root || stack.length) {
+    throw new Error("The XML is malformed, since it is empty or has unclosed elements.");
+  }
+  return root;
+}
+
+/**
+ * Finds the first child element with the given local name.
+ * @ignore
+ * @param {XmlElement} element The element whose children are searched.
+ * @param {string} name The local name of the child element.
+ * @returns {XmlElement | undefined} The child element, if any.
+ */
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child: XmlElement) => child.name === name);
+}
+
+/**
+ * Converts the given amount of milliseconds to an ISO 8601 duration, e.g. `"P1DT2H3M4.5S"`.
+ * @ignore
+ * @param {number} ms The amount of milliseconds.
+ * @returns {string} The ISO 8601 duration.
+ */
+export function toIsoDuration(ms: number): string {
+  const days = Math.floor(ms / 86400000);
+  const hours = Math.floor((ms % 86400000) / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = (ms % 60000) / 1000;
+  let time = "";
+  if (hours) time += `${hours}H`;
+  if (minutes) time += `${minutes}M`;
+  if (seconds || (!days && !time)) time += `${seconds}S`;
+  return `P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+/**
+ * Converts the given ISO 8601 duration, as provided by the service, to milliseconds.
+ * @ignore
+ * @param {string} duration The ISO 8601 duration. Years and months are not supported, since
+ * their length in milliseconds is not fixed.
+ * @returns {number} The amount of milliseconds.
+ */
+export function fromIsoDuration(duration: string): number {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(
+    duration.trim()
+  );
+  if (!match) {
+    throw new Error(`'${duration}' is not a supported ISO 8601 duration.`);
+  }
+  const [, weeks, days, hours, minutes, seconds] = match.map((part: string | undefined) =>
+    part ? parseFloat(part) : 0
+  );
+  return Math.round(((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+/**
+ * Validates the types of the properties of the given entity description.
+ * @ignore
+ * @param {PropertyMapping[]} mappings The mappings of the properties of the description.
+ * @param {any} description The description to be validated.
+ * @returns {void}
+ */
+export function validateDescription(mappings: PropertyMapping[], description: any): void {
+  if (!description || typeof description !== "object") {
+    throw new Error("'description' must be of type 'object'.");
+  }
+  for (const mapping of mappings) {
+    const value = description[mapping.property];
+    if (value == undefined || mapping.readOnly) continue;
+    if (mapping.type === "number" || mapping.type === "duration") {
+      if (typeof value !== "number" || !isFinite(value) || value < 0) {
+        throw new Error(
+          `'${mapping.property}' must be of type 'number' with a value greater than or equal to 0.`
+        );
+      }
+    } else if (mapping.type === "date") {
+      if (!(value instanceof Date)) {
+        throw new Error(`'${mapping.property}' must be an instance of 'Date'.`);
+      }
+    } else if (typeof value !== mapping.type) {
+      throw new Error(`'${mapping.property}' must be of type '${mapping.type}'.`);
+    }
+  }
+}
+
+/**
+ * Serializes the given entity description into an ATOM entry, in the order of the mappings.
+ * @ignore
+ * @param {string} descriptionName The name of the description element, e.g. "QueueDescription".
+ * @param {PropertyMapping[]} mappings The mappings of the properties of the description, in the
+ * order that is expected by the service.
+ * @param {any} description The description to be serialized.
+ * @returns {string} The ATOM entry.
+ */
+export function serializeEntry(
+  descriptionName: string,
+  mappings: PropertyMapping[],
+  description: any
+): string {
+  let properties = "";
+  for (const mapping of mappings) {
+    const value = description[mapping.property];
+    if (value == undefined || mapping.readOnly) continue;
+    let text: string;
+    if (mapping.serialize) {
+      text = mapping.serialize(value);
+    } else if (mapping.type === "duration") {
+      text = toIsoDuration(value);
+    } else if (mapping.type === "date") {
+      text = (value as Date).toISOString();
+    } else {
+      text = escapeXml(String(value));
+    }
+    properties += `<${mapping.element}>${text}</${mapping.element}>`;
+  }
+  return (
+    `<?xml version="1.0" encoding="utf-8"?>` +
+    `<entry xmlns="http://www.w3.org/2005/Atom">` +
+    `<content type="application/xml">` +
+    `<${descriptionName} xmlns="${serviceBusNamespace}" ` +
+    `xmlns:i="http://www.w3.org/2001/XMLSchema-instance">` +
+    properties +
+    `</${descriptionName}>` +
+    `</content>` +
+    `</entry>`
+  );
+}
+
+/**
+ * Deserializes the entity description in the given ATOM entry.
+ * @ignore
+ * @param {string} descriptionName The name of the description element, e.g. "QueueDescription".
+ * @param {PropertyMapping[]} mappings The mappings of the properties of the description.
+ * @param {XmlElement} entry The ATOM entry.
+ * @returns {any} The description, with the name of the entity (the title of the entry) in the
+ * `name` property. It is `undefined` if the entry does not contain the given description.
+ */
+export function deserializeEntry(
+  descriptionName: string,
+  mappings: PropertyMapping[],
+  entry: XmlElement
+): any {
+  const content = findChild(entry, "content");
+  const element = content ? findChild(content, descriptionName) : undefined;
+  if (!element) return undefined;
+  const title = findChild(entry, "title");
+  const result: any = { name: title ? title.text : undefined };
+  for (const mapping of mappings) {
+    let child: XmlElement | undefined = element;
+    for (const name of mapping.element.split("/")) {
+      child = child && findChild(child, name);
+    }
+    if (!child || child.attributes.nil === "true" || mapping.type === "object") continue;
+    const text = child.text.trim();
+    if (mapping.type === "number") {
+      result[mapping.property] = Number(text);
+    } else if (mapping.type === "boolean") {
+      result[mapping.property] = text === "true";
+    } else if (mapping.type === "duration") {
+      result[mapping.property] = fromIsoDuration(text);
+    } else if (mapping.type === "date") {
+      result[mapping.property] = new Date(text);
+    } else {
+      result[mapping.property] = child.text;
+    }
+  }
+  return result;
+}
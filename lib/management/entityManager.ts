@@ -0,0 +1,787 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import * as https from "https";
+import * as url from "url";
+import {
+  translate,
+  Dictionary,
+  MessagingError,
+  RetryOperationType,
+  TokenType
+} from "@azure/amqp-common";
+import * as log from "../log";
+import { ConnectionContext } from "../connectionContext";
+import { OperationOptions, OperationCancellation, runOperation } from "../util/abort";
+import { HttpProxyAgent, ProxyAgent } from "../util/proxy";
+import { RetryConfig, normalizeRetryOptions, retry } from "../util/retry";
+import {
+  PropertyMapping,
+  XmlElement,
+  parseXml,
+  findChild,
+  serializeEntry,
+  deserializeEntry,
+  validateDescription
+} from "./atomXml";
+import { QueueDescription, QueueInfo, queueProperties } from "./queueDescription";
+import { TopicDescription, TopicInfo, topicProperties } from "./topicDescription";
+import {
+  SubscriptionDescription,
+  SubscriptionInfo,
+  subscriptionProperties
+} from "./subscriptionDescription";
+import {
+  EntityRuntimeInfo,
+  queueRuntimeInfoProperties,
+  subscriptionRuntimeInfoProperties
+} from "./runtimeInfo";
+
+/**
+ * The version of the REST API that is used by the EntityManager.
+ * @ignore
+ */
+const apiVersion: string = "2017-04";
+
+/**
+ * Describes the options that can be provided while creating the EntityManager.
+ * @interface EntityManagerOptions
+ */
+export interface EntityManagerOptions {
+  /**
+   * @property {string} [endpoint] The base URL of the REST API, e.g. of a local emulator.
+   * Default value: `https://<namespace-host>/`.
+   */
+  endpoint?: string;
+}
+
+/**
+ * Describes the options that can be provided while listing entities.
+ * @interface ListEntitiesOptions
+ */
+export interface ListEntitiesOptions extends OperationOptions {
+  /**
+   * @property {number} [skip] The number of entities to skip. Default value: `0`.
+   */
+  skip?: number;
+  /**
+   * @property {number} [top] The maximum number of entities to list. Default value: `100`.
+   */
+  top?: number;
+}
+
+/**
+ * Describes the response to a request to the REST API.
+ * @ignore
+ * @interface HttpResponse
+ */
+interface HttpResponse {
+  statusCode: number;
+  body: string;
+}
+
+/**
+ * Describes a request to the REST API.
+ * @ignore
+ * @interface HttpRequest
+ */
+interface HttpRequest {
+  method: string;
+  path: string;
+  query?: Dictionary<string | number>;
+  body?: string;
+  headers?: Dictionary<string>;
+}
+
+/**
+ * The AMQP error conditions that correspond to the status codes of the REST API.
+ * @ignore
+ */
+const statusCodeConditions: { [statusCode: number]: string } = {
+  400: "com.microsoft:argument-error",
+  401: "amqp:unauthorized-access",
+  403: "amqp:resource-limit-exceeded",
+  409: "com.microsoft:entity-already-exists",
+  412: "com.microsoft:precondition-failed",
+  429: "com.microsoft:server-busy",
+  500: "amqp:internal-error",
+  503: "com.microsoft:server-busy"
+};
+
+/**
+ * Translates the given error response of the REST API to a MessagingError, with the same name
+ * and retryability as the errors that are received over AMQP.
+ * @ignore
+ */
+function translateHttpError(response: HttpResponse, entityPath: string): MessagingError {
+  let detail = response.body;
+  try {
+    const detailElement = findChild(parseXml(response.body), "Detail");
+    if (detailElement) detail = detailElement.text;
+  } catch (err) {
+    // The body is not XML, hence it is used as is.
+  }
+  const description =
+    `The request for the entity '${entityPath}' failed with the status code ` +
+    `${response.statusCode}: ${detail}`;
+  if (response.statusCode === 404) {
+    return entityNotFoundError(entityPath);
+  }
+  let condition = statusCodeConditions[response.statusCode];
+  if (!condition && response.statusCode >= 500) {
+    condition = "com.microsoft:timeout";
+  }
+  if (!condition) {
+    const error = new MessagingError(description);
+    error.retryable = false;
+    return error;
+  }
+  return translate({ condition: condition, description: description }) as MessagingError;
+}
+
+function entityNotFoundError(entityPath: string): MessagingError {
+  return translate({
+    condition: "amqp:not-found",
+    description: `The messaging entity '${entityPath}' could not be found.`
+  }) as MessagingError;
+}
+
+function validateEntityName(parameterName: string, value: string): void {
+  if (!value || typeof value !== "string") {
+    throw new Error(`'${parameterName}' is a required parameter and must be of type 'string'.`);
+  }
+}
+
+function getSubscriptionPath(topicName: string, subscriptionName: string): string {
+  return `${topicName}/Subscriptions/${subscriptionName}`;
+}
+
+function encodeEntityPath(entityPath: string): string {
+  return entityPath
+    .split("/")
+    .map((segment: string) => encodeURIComponent(segment))
+    .join("/");
+}
+
+/**
+ * Manages the queues, topics and subscriptions of the Service Bus namespace through the REST API, that exchanges the
+ * entity descriptions as ATOM entries. The requests are authorized with the token provider of
+ * the Namespace and are retried as per its retry options.
+ * @class EntityManager
+ */
+export class EntityManager {
+  /**
+   * @property {ConnectionContext} _context The connection context of the Namespace, that
+   * provides the token provider and the retry options.
+   * @private
+   */
+  private _context: ConnectionContext;
+  /**
+   * @property {url.UrlWithStringQuery} _endpoint The base URL of the REST API.
+   * @private
+   */
+  private _endpoint: url.UrlWithStringQuery;
+  /**
+   * @property {http.Agent} [_agent] The agent that tunnels the requests through the proxy of the
+   * Namespace, if any.
+   * @private
+   */
+  private _agent?: http.Agent;
+
+  /**
+   * @constructor
+   * @param {ConnectionContext} context The connection context of the Namespace.
+   * @param {EntityManagerOptions} [options] The options for the EntityManager.
+   */
+  constructor(context: ConnectionContext, options?: EntityManagerOptions) {
+    if (!options) options = {};
+    if (options.endpoint != undefined && typeof options.endpoint !== "string") {
+      throw new Error("'endpoint' must be of type 'string'.");
+    }
+    let endpoint = options.endpoint || `https://${context.config.host}/`;
+    if (!endpoint.endsWith("/")) endpoint += "/";
+    this._context = context;
+    this._endpoint = url.parse(endpoint);
+    if (context.proxy) {
+      this._agent =
+        this._endpoint.protocol === "http:"
+          ? new HttpProxyAgent(context.proxy)
+          : new ProxyAgent(context.proxy);
+    }
+  }
+
+  /**
+   * Creates a queue.
+   * @param {string} queueName The name of the queue.
+   * @param {QueueDescription} [description] The settings of the queue.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<QueueInfo>} Promise<QueueInfo> The queue, as created by the service. It is
+   * rejected with a `MessagingEntityAlreadyExistsError` if the queue already exists.
+   */
+  async createQueue(
+    queueName: string,
+    description?: QueueDescription,
+    options?: OperationOptions
+  ): Promise<QueueInfo> {
+    validateEntityName("queueName", queueName);
+    return this._putEntity(queueName, "QueueDescription", queueProperties, description || {}, {
+      isUpdate: false,
+      operationOptions: options
+    });
+  }
+
+  /**
+   * Gets a queue.
+   * @param {string} queueName The name of the queue.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<QueueInfo>} Promise<QueueInfo> It is rejected with a
+   * `MessagingEntityNotFoundError` if the queue does not exist.
+   */
+  async getQueue(queueName: string, options?: OperationOptions): Promise<QueueInfo> {
+    validateEntityName("queueName", queueName);
+    return this._getEntity(queueName, "QueueDescription", queueProperties, options);
+  }
+
+  /**
+   * Updates the settings of a queue. The settings that are not provided keep their current value.
+   * @param {string} queueName The name of the queue.
+   * @param {QueueDescription} description The settings to be updated.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<QueueInfo>} Promise<QueueInfo> The queue, as updated by the service. It is
+   * rejected with a `MessagingEntityNotFoundError` if the queue does not exist.
+   */
+  async updateQueue(
+    queueName: string,
+    description: QueueDescription,
+    options?: OperationOptions
+  ): Promise<QueueInfo> {
+    validateEntityName("queueName", queueName);
+    validateDescription(queueProperties, description);
+    // The service replaces the whole description, hence the current settings are merged in.
+    const current = await this.getQueue(queueName, options);
+    return this._putEntity(
+      queueName,
+      "QueueDescription",
+      queueProperties,
+      { ...current, ...description },
+      { isUpdate: true, operationOptions: options }
+    );
+  }
+
+  /**
+   * Deletes a queue.
+   * @param {string} queueName The name of the queue.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<void>} Promise<void> It is rejected with a `MessagingEntityNotFoundError`
+   * if the queue does not exist.
+   */
+  async deleteQueue(queueName: string, options?: OperationOptions): Promise<void> {
+    validateEntityName("queueName", queueName);
+    return this._deleteEntity(queueName, options);
+  }
+
+  /**
+   * Lists the queues of the namespace.
+   * @param {ListEntitiesOptions} [options] The options to page through the queues and to bound or
+   * cancel the operation.
+   * @returns {Promise<QueueInfo[]>} Promise<QueueInfo[]>
+   */
+  async listQueues(options?: ListEntitiesOptions): Promise<QueueInfo[]> {
+    return this._listEntities("$Resources/Queues", "QueueDescription", queueProperties, options);
+  }
+
+  /**
+   * Gets the runtime information of a queue, i.e. the counts of its messages, its size and the
+   * times at which it was created, updated and accessed.
+   * @param {string} queueName The name of the queue.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<EntityRuntimeInfo>} Promise<EntityRuntimeInfo> It is rejected with a
+   * `MessagingEntityNotFoundError` if the queue does not exist.
+   */
+  async getQueueRuntimeInfo(
+    queueName: string,
+    options?: OperationOptions
+  ): Promise<EntityRuntimeInfo> {
+    validateEntityName("queueName", queueName);
+    const result = await this._getEntity(
+      queueName,
+      "QueueDescription",
+      queueRuntimeInfoProperties,
+      options
+    );
+    delete result.name;
+    return { entityPath: queueName, ...result };
+  }
+
+  /**
+   * Creates a topic.
+   * @param {string} topicName The name of the topic.
+   * @param {TopicDescription} [description] The settings of the topic.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<TopicInfo>} Promise<TopicInfo> The topic, as created by the service. It is
+   * rejected with a `MessagingEntityAlreadyExistsError` if the topic already exists.
+   */
+  async createTopic(
+    topicName: string,
+    description?: TopicDescription,
+    options?: OperationOptions
+  ): Promise<TopicInfo> {
+    validateEntityName("topicName", topicName);
+    return this._putEntity(topicName, "TopicDescription", topicProperties, description || {}, {
+      isUpdate: false,
+      operationOptions: options
+    });
+  }
+
+  /**
+   * Gets a topic.
+   * @param {string} topicName The name of the topic.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<TopicInfo>} Promise<TopicInfo> It is rejected with a
+   * `MessagingEntityNotFoundError` if the topic does not exist.
+   */
+  async getTopic(topicName: string, options?: OperationOptions): Promise<TopicInfo> {
+    validateEntityName("topicName", topicName);
+    return this._getEntity(topicName, "TopicDescription", topicProperties, options);
+  }
+
+  /**
+   * Updates the settings of a topic. The settings that are not provided keep their current value.
+   * @param {string} topicName The name of the topic.
+   * @param {TopicDescription} description The settings to be updated.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<TopicInfo>} Promise<TopicInfo> The topic, as updated by the service. It is
+   * rejected with a `MessagingEntityNotFoundError` if the topic does not exist.
+   */
+  async updateTopic(
+    topicName: string,
+    description: TopicDescription,
+    options?: OperationOptions
+  ): Promise<TopicInfo> {
+    validateEntityName("topicName", topicName);
+    validateDescription(topicProperties, description);
+    const current = await this.getTopic(topicName, options);
+    return this._putEntity(
+      topicName,
+      "TopicDescription",
+      topicProperties,
+      { ...current, ...description },
+      { isUpdate: true, operationOptions: options }
+    );
+  }
+
+  /**
+   * Deletes a topic, along with its subscriptions.
+   * @param {string} topicName The name of the topic.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<void>} Promise<void> It is rejected with a `MessagingEntityNotFoundError`
+   * if the topic does not exist.
+   */
+  async deleteTopic(topicName: string, options?: OperationOptions): Promise<void> {
+    validateEntityName("topicName", topicName);
+    return this._deleteEntity(topicName, options);
+  }
+
+  /**
+   * Lists the topics of the namespace.
+   * @param {ListEntitiesOptions} [options] The options to page through the topics and to bound or
+   * cancel the operation.
+   * @returns {Promise<TopicInfo[]>} Promise<TopicInfo[]>
+   */
+  async listTopics(options?: ListEntitiesOptions): Promise<TopicInfo[]> {
+    return this._listEntities("$Resources/Topics", "TopicDescription", topicProperties, options);
+  }
+
+  /**
+   * Creates a subscription of a topic.
+   * @param {string} topicName The name of the topic.
+   * @param {string} subscriptionName The name of the subscription.
+   * @param {SubscriptionDescription} [description] The settings of the subscription, including
+   * the rule that replaces the default rule that matches all the messages.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<SubscriptionInfo>} Promise<SubscriptionInfo> The subscription, as created
+   * by the service. It is rejected with a `MessagingEntityAlreadyExistsError` if the
+   * subscription already exists.
+   */
+  async createSubscription(
+    topicName: string,
+    subscriptionName: string,
+    description?: SubscriptionDescription,
+    options?: OperationOptions
+  ): Promise<SubscriptionInfo> {
+    validateEntityName("topicName", topicName);
+    validateEntityName("subscriptionName", subscriptionName);
+    const result = await this._putEntity(
+      getSubscriptionPath(topicName, subscriptionName),
+      "SubscriptionDescription",
+      subscriptionProperties,
+      description || {},
+      { isUpdate: false, operationOptions: options }
+    );
+    return { ...result, topicName: topicName, name: subscriptionName };
+  }
+
+  /**
+   * Gets a subscription of a topic.
+   * @param {string} topicName The name of the topic.
+   * @param {string} subscriptionName The name of the subscription.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<SubscriptionInfo>} Promise<SubscriptionInfo> It is rejected with a
+   * `MessagingEntityNotFoundError` if the subscription does not exist.
+   */
+  async getSubscription(
+    topicName: string,
+    subscriptionName: string,
+    options?: OperationOptions
+  ): Promise<SubscriptionInfo> {
+    validateEntityName("topicName", topicName);
+    validateEntityName("subscriptionName", subscriptionName);
+    const result = await this._getEntity(
+      getSubscriptionPath(topicName, subscriptionName),
+      "SubscriptionDescription",
+      subscriptionProperties,
+      options
+    );
+    return { ...result, topicName: topicName, name: subscriptionName };
+  }
+
+  /**
+   * Updates the settings of a subscription. The settings that are not provided keep their
+   * current value. The rules of the subscription are not affected.
+   * @param {string} topicName The name of the topic.
+   * @param {string} subscriptionName The name of the subscription.
+   * @param {SubscriptionDescription} description The settings to be updated. The `defaultRule`
+   * can not be provided.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<SubscriptionInfo>} Promise<SubscriptionInfo> The subscription, as updated
+   * by the service. It is rejected with a `MessagingEntityNotFoundError` if the subscription does
+   * not exist.
+   */
+  async updateSubscription(
+    topicName: string,
+    subscriptionName: string,
+    description: SubscriptionDescription,
+    options?: OperationOptions
+  ): Promise<SubscriptionInfo> {
+    validateEntityName("topicName", topicName);
+    validateEntityName("subscriptionName", subscriptionName);
+    validateDescription(subscriptionProperties, description);
+    if (description.defaultRule != undefined) {
+      throw new Error("'defaultRule' can only be provided while creating the subscription.");
+    }
+    const current = await this.getSubscription(topicName, subscriptionName, options);
+    const result = await this._putEntity(
+      getSubscriptionPath(topicName, subscriptionName),
+      "SubscriptionDescription",
+      subscriptionProperties,
+      { ...current, ...description },
+      { isUpdate: true, operationOptions: options }
+    );
+    return { ...result, topicName: topicName, name: subscriptionName };
+  }
+
+  /**
+   * Deletes a subscription of a topic, along with its rules.
+   * @param {string} topicName The name of the topic.
+   * @param {string} subscriptionName The name of the subscription.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<void>} Promise<void> It is rejected with a `MessagingEntityNotFoundError`
+   * if the subscription does not exist.
+   */
+  async deleteSubscription(
+    topicName: string,
+    subscriptionName: string,
+    options?: OperationOptions
+  ): Promise<void> {
+    validateEntityName("topicName", topicName);
+    validateEntityName("subscriptionName", subscriptionName);
+    return this._deleteEntity(getSubscriptionPath(topicName, subscriptionName), options);
+  }
+
+  /**
+   * Gets the runtime information of a subscription, i.e. the counts of its messages and the times
+   * at which it was created, updated and accessed.
+   * @param {string} topicName The name of the topic.
+   * @param {string} subscriptionName The name of the subscription.
+   * @param {OperationOptions} [options] The options to bound or cancel the operation.
+   * @returns {Promise<EntityRuntimeInfo>} Promise<EntityRuntimeInfo> It is rejected with a
+   * `MessagingEntityNotFoundError` if the subscription does not exist.
+   */
+  async getSubscriptionRuntimeInfo(
+    topicName: string,
+    subscriptionName: string,
+    options?: OperationOptions
+  ): Promise<EntityRuntimeInfo> {
+    validateEntityName("topicName", topicName);
+    validateEntityName("subscriptionName", subscriptionName);
+    const entityPath = getSubscriptionPath(topicName, subscriptionName);
+    const result = await this._getEntity(
+      entityPath,
+      "SubscriptionDescription",
+      subscriptionRuntimeInfoProperties,
+      options
+    );
+    delete result.name;
+    return { entityPath: entityPath, ...result };
+  }
+
+  /**
+   * Lists the subscriptions of a topic.
+   * @param {string} topicName The name of the topic.
+   * @param {ListEntitiesOptions} [options] The options to page through the subscriptions and to
+   * bound or cancel the operation.
+   * @returns {Promise<SubscriptionInfo[]>} Promise<SubscriptionInfo[]>
+   */
+  async listSubscriptions(
+    topicName: string,
+    options?: ListEntitiesOptions
+  ): Promise<SubscriptionInfo[]> {
+    validateEntityName("topicName", topicName);
+    const result = await this._listEntities(
+      `${topicName}/Subscriptions`,
+      "SubscriptionDescription",
+      subscriptionProperties,
+      options
+    );
+    return result.map((subscription: any) => ({ ...subscription, topicName: topicName }));
+  }
+
+  private async _putEntity(
+    entityPath: string,
+    descriptionName: string,
+    mappings: PropertyMapping[],
+    description: any,
+    options: { isUpdate: boolean; operationOptions?: OperationOptions }
+  ): Promise<any> {
+    validateDescription(mappings, description);
+    description = { ...description };
+    delete description.name;
+    const headers: Dictionary<string> = {
+      "Content-Type": "application/atom+xml;type=entry;charset=utf-8"
+    };
+    if (options.isUpdate) headers["If-Match"] = "*";
+    // Forwarding requires the sender to be authorized on the entity to which the messages are
+    // forwarded, which is proven with the supplementary authorization headers.
+    const forwardHeaders: Dictionary<string> = {
+      forwardTo: "ServiceBusSupplementaryAuthorization",
+      forwardDeadLetteredMessagesTo: "ServiceBusDlqSupplementaryAuthorization"
+    };
+    for (const property of Object.keys(forwardHeaders)) {
+      if (!description[property]) continue;
+      description[property] = this._getEntityUrl(description[property]);
+      headers[forwardHeaders[property]] = await this._getAuthorization(description[property]);
+    }
+    const response = await this._sendRequest(
+      {
+        method: "PUT",
+        path: entityPath,
+        body: serializeEntry(descriptionName, mappings, description),
+        headers: headers
+      },
+      options.operationOptions
+    );
+    const result = deserializeEntry(descriptionName, mappings, parseXml(response.body));
+    if (!result) {
+      throw new Error(
+        `The response for the entity '${entityPath}' does not contain a ${descriptionName}.`
+      );
+    }
+    if (!result.name) result.name = entityPath;
+    return result;
+  }
+
+  private async _getEntity(
+    entityPath: string,
+    descriptionName: string,
+    mappings: PropertyMapping[],
+    options?: OperationOptions
+  ): Promise<any> {
+    const response = await this._sendRequest({ method: "GET", path: entityPath }, options);
+    // The service responds with an empty feed, instead of the status code 404, if the entity
+    // does not exist.
+    const root = parseXml(response.body);
+    const result =
+      root.name === "entry" ? deserializeEntry(descriptionName, mappings, root) : undefined;
+    if (!result) {
+      throw entityNotFoundError(entityPath);
+    }
+    if (!result.name) result.name = entityPath;
+    return result;
+  }
+
+  private async _deleteEntity(entityPath: string, options?: OperationOptions): Promise<void> {
+    await this._sendRequest({ method: "DELETE", path: entityPath }, options);
+  }
+
+  private async _listEntities(
+    resourcePath: string,
+    descriptionName: string,
+    mappings: PropertyMapping[],
+    options?: ListEntitiesOptions
+  ): Promise<any[]> {
+    if (!options) options = {};
+    for (const prop of ["skip", "top"] as Array<"skip" | "top">) {
+      const value = options[prop];
+      if (
+        value != undefined &&
+        (typeof value !== "number" || !Number.isInteger(value) || value < 0)
+      ) {
+        throw new Error(
+          `'${prop}' must be of type 'number' with an integer value greater than or equal to 0.`
+        );
+      }
+    }
+    const response = await this._sendRequest(
+      {
+        method: "GET",
+        path: resourcePath,
+        query: {
+          $skip: options.skip != undefined ? options.skip : 0,
+          $top: options.top != undefined ? options.top : 100
+        }
+      },
+      options
+    );
+    const feed = parseXml(response.body);
+    const result: any[] = [];
+    for (const entry of feed.children.filter((child: XmlElement) => child.name === "entry")) {
+      const description = deserializeEntry(descriptionName, mappings, entry);
+      if (description) result.push(description);
+    }
+    return result;
+  }
+
+  /**
+   * Provides the URL of the given entity, unless it is already a URL.
+   * @param {string} entityPath The path of the entity.
+   * @returns {string} The URL of the entity.
+   * @private
+   */
+  private _getEntityUrl(entityPath: string): string {
+    if (/^https?:\/\//i.test(entityPath)) return entityPath;
+    return `https://${this._context.config.host}/${entityPath}`;
+  }
+
+  /**
+   * Provides the value of the authorization header for the given audience, as per the type of
+   * the token that is provided by the token provider of the Namespace.
+   * @param {string} audience The URL of the resource that is accessed.
+   * @returns {Promise<string>} Promise<string>
+   * @private
+   */
+  private async _getAuthorization(audience: string): Promise<string> {
+    const tokenObject = await this._context.tokenProvider.getToken(audience);
+    return tokenObject.tokenType === TokenType.CbsTokenTypeJwt
+      ? `Bearer ${tokenObject.token}`
+      : tokenObject.token;
+  }
+
+  /**
+   * Sends the given request and retries it as per the retry options of the Namespace.
+   * @param {HttpRequest} request The request to be sent.
+   * @param {OperationOptions} [options] The options to bound or cancel the request.
+   * @returns {Promise<HttpResponse>} Promise<HttpResponse> The successful response. It is
+   * rejected with the translated error if the service responds with an error.
+   * @private
+   */
+  private _sendRequest(request: HttpRequest, options?: OperationOptions): Promise<HttpResponse> {
+    const retryOptions = normalizeRetryOptions(this._context.retryOptions);
+    const operationName = `${request.method} ${request.path}`;
+    return runOperation(operationName, options, (cancellation: OperationCancellation) => {
+      const config: RetryConfig<HttpResponse> = {
+        operation: async () => {
+          cancellation.throwIfCancelled();
+          const response = await this._sendRequestOnce(
+            request,
+            retryOptions.timeoutInMs,
+            cancellation
+          );
+          if (response.statusCode >= 400) {
+            throw translateHttpError(response, request.path);
+          }
+          return response;
+        },
+        connectionId: this._context.connectionId,
+        operationType: RetryOperationType.management,
+        retryOptions: retryOptions
+      };
+      return retry<HttpResponse>(config);
+    });
+  }
+
+  private async _sendRequestOnce(
+    request: HttpRequest,
+    timeoutInMs: number,
+    cancellation: OperationCancellation
+  ): Promise<HttpResponse> {
+    const query: Dictionary<string | number> = { ...request.query, "api-version": apiVersion };
+    const queryString = Object.keys(query)
+      .map((key: string) => `${key}=${encodeURIComponent(String(query[key]))}`)
+      .join("&");
+    const headers: Dictionary<string> = {
+      ...request.headers,
+      Authorization: await this._getAuthorization(this._getEntityUrl(request.path))
+    };
+    if (request.body != undefined) {
+      headers["Content-Length"] = String(Buffer.byteLength(request.body));
+    }
+    const requestOptions: https.RequestOptions = {
+      protocol: this._endpoint.protocol,
+      hostname: this._endpoint.hostname,
+      port: this._endpoint.port,
+      method: request.method,
+      path: `${this._endpoint.pathname}${encodeEntityPath(request.path)}?${queryString}`,
+      headers: headers,
+      agent: this._agent
+    };
+    log.entityManager(
+      "[%s] Sending the request '%s %s'.",
+      this._context.connectionId,
+      request.method,
+      requestOptions.path
+    );
+    return new Promise<HttpResponse>((resolve, reject) => {
+      let removeCancelHandler: () => void = () => undefined;
+      const transport = this._endpoint.protocol === "http:" ? http : https;
+      const httpRequest = transport.request(requestOptions, (response: http.IncomingMessage) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("error", reject);
+        response.on("end", () => {
+          removeCancelHandler();
+          const result: HttpResponse = {
+            statusCode: response.statusCode!,
+            body: Buffer.concat(chunks).toString("utf8")
+          };
+          log.entityManager(
+            "[%s] Received the status code %d for the request '%s %s'.",
+            this._context.connectionId,
+            result.statusCode,
+            request.method,
+            requestOptions.path
+          );
+          resolve(result);
+        });
+      });
+      // The request is aborted when the operation is cancelled, that rejects the operation.
+      removeCancelHandler = cancellation.onCancel(() => httpRequest.abort());
+      httpRequest.setTimeout(timeoutInMs, () => {
+        httpRequest.abort();
+        reject(
+          translate({
+            condition: "com.microsoft:timeout",
+            description:
+              `The request '${request.method} ${request.path}' did not complete within ` +
+              `${timeoutInMs} milliseconds.`
+          })
+        );
+      });
+      httpRequest.on("error", (err: Error) => {
+        removeCancelHandler();
+        reject(err);
+      });
+      httpRequest.end(request.body);
+    });
+  }
+}
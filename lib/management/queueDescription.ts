@@ -0,0 +1,162 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { PropertyMapping } from "./atomXml";
+
+/**
+ * Describes the status of a messaging entity.
+ */
+export enum EntityStatus {
+  /**
+   * The entity can be used to send and receive messages.
+   */
+  active = "Active",
+  /**
+   * The entity can not be used to send and receive messages.
+   */
+  disabled = "Disabled",
+  /**
+   * The entity can be used to receive messages, but messages can not be sent to it.
+   */
+  sendDisabled = "SendDisabled",
+  /**
+   * The entity can be used to send messages, but messages can not be received from it.
+   */
+  receiveDisabled = "ReceiveDisabled"
+}
+
+/**
+ * Describes the settings of a queue. The settings that are not provided while creating a queue
+ * take the default values of the service.
+ * @interface QueueDescription
+ */
+export interface QueueDescription {
+  /**
+   * @property {number} [lockDurationInMs] The duration of the peek-lock, i.e. the amount of time
+   * for which a received message is locked for other receivers. The maximum value is 5 minutes.
+   * Default value: 1 minute.
+   */
+  lockDurationInMs?: number;
+  /**
+   * @property {number} [maxSizeInMegabytes] The maximum size of the queue in megabytes.
+   * Default value: `1024`.
+   */
+  maxSizeInMegabytes?: number;
+  /**
+   * @property {boolean} [requiresDuplicateDetection] Indicates whether the queue detects
+   * duplicate messages by their `messageId`. It can only be set while creating the queue.
+   */
+  requiresDuplicateDetection?: boolean;
+  /**
+   * @property {boolean} [requiresSession] Indicates whether the queue supports sessions. It can
+   * only be set while creating the queue.
+   */
+  requiresSession?: boolean;
+  /**
+   * @property {number} [defaultMessageTimeToLiveInMs] The time to live of the messages that do
+   * not have their own `timeToLive`.
+   */
+  defaultMessageTimeToLiveInMs?: number;
+  /**
+   * @property {boolean} [deadLetteringOnMessageExpiration] Indicates whether the expired messages
+   * are moved to the dead-letter queue.
+   */
+  deadLetteringOnMessageExpiration?: boolean;
+  /**
+   * @property {number} [duplicateDetectionHistoryTimeWindowInMs] The time window within which
+   * duplicate messages are detected. Default value: 10 minutes.
+   */
+  duplicateDetectionHistoryTimeWindowInMs?: number;
+  /**
+   * @property {number} [maxDeliveryCount] The number of deliveries after which a message is
+   * moved to the dead-letter queue. Default value: `10`.
+   */
+  maxDeliveryCount?: number;
+  /**
+   * @property {boolean} [enableBatchedOperations] Indicates whether the server-side batched
+   * operations are enabled.
+   */
+  enableBatchedOperations?: boolean;
+  /**
+   * @property {EntityStatus} [status] The status of the queue.
+   */
+  status?: EntityStatus;
+  /**
+   * @property {string} [forwardTo] The name of the queue or topic to which the messages are
+   * automatically forwarded.
+   */
+  forwardTo?: string;
+  /**
+   * @property {string} [userMetadata] Custom metadata of the queue.
+   */
+  userMetadata?: string;
+  /**
+   * @property {number} [autoDeleteOnIdleInMs] The idle time after which the queue is
+   * automatically deleted. The minimum value is 5 minutes.
+   */
+  autoDeleteOnIdleInMs?: number;
+  /**
+   * @property {boolean} [enablePartitioning] Indicates whether the queue is partitioned across
+   * multiple message brokers. It can only be set while creating the queue.
+   */
+  enablePartitioning?: boolean;
+  /**
+   * @property {string} [forwardDeadLetteredMessagesTo] The name of the queue or topic to which
+   * the dead-lettered messages are automatically forwarded.
+   */
+  forwardDeadLetteredMessagesTo?: string;
+}
+
+/**
+ * Describes a queue, as provided by the service.
+ * @interface QueueInfo
+ */
+export interface QueueInfo extends QueueDescription {
+  /**
+   * @property {string} name The name of the queue.
+   */
+  name: string;
+}
+
+/**
+ * The mappings of the properties of a queue description, in the order that is expected by the
+ * service.
+ * @ignore
+ */
+export const queueProperties: PropertyMapping[] = [
+  { property: "lockDurationInMs", element: "LockDuration", type: "duration" },
+  { property: "maxSizeInMegabytes", element: "MaxSizeInMegabytes", type: "number" },
+  {
+    property: "requiresDuplicateDetection",
+    element: "RequiresDuplicateDetection",
+    type: "boolean"
+  },
+  { property: "requiresSession", element: "RequiresSession", type: "boolean" },
+  {
+    property: "defaultMessageTimeToLiveInMs",
+    element: "DefaultMessageTimeToLive",
+    type: "duration"
+  },
+  {
+    property: "deadLetteringOnMessageExpiration",
+    element: "DeadLetteringOnMessageExpiration",
+    type: "boolean"
+  },
+  {
+    property: "duplicateDetectionHistoryTimeWindowInMs",
+    element: "DuplicateDetectionHistoryTimeWindow",
+    type: "duration"
+  },
+  { property: "maxDeliveryCount", element: "MaxDeliveryCount", type: "number" },
+  { property: "enableBatchedOperations", element: "EnableBatchedOperations", type: "boolean" },
+  { property: "status", element: "Status", type: "string" },
+  { property: "forwardTo", element: "ForwardTo", type: "string" },
+  { property: "userMetadata", element: "UserMetadata", type: "string" },
+  { property: "autoDeleteOnIdleInMs", element: "AutoDeleteOnIdle", type: "duration" },
+  { property: "enablePartitioning", element: "EnablePartitioning", type: "boolean" },
+  {
+    property: "forwardDeadLetteredMessagesTo",
+    element: "ForwardDeadLetteredMessagesTo",
+    type: "string"
+  }
+];
@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { CorrelationFilter } from "../core/managementClient";
+import { SqlFilterExpression } from "../filters/filterBuilder";
+import { escapeXml } from "./atomXml";
+
+/**
+ * The elements of a correlation filter, in the order that is expected by the service.
+ * @ignore
+ */
+const correlationFilterElements: Array<[keyof CorrelationFilter, string]> = [
+  ["correlationId", "CorrelationId"],
+  ["messageId", "MessageId"],
+  ["to", "To"],
+  ["replyTo", "ReplyTo"],
+  ["label", "Label"],
+  ["sessionId", "SessionId"],
+  ["replyToSessionId", "ReplyToSessionId"],
+  ["contentType", "ContentType"]
+];
+
+/**
+ * Serializes the value of a user property of a correlation filter, with its XML schema type.
+ * @ignore
+ */
+function serializePropertyValue(key: string, value: any): string {
+  let type: string;
+  let text: string;
+  if (typeof value === "string") {
+    type = "string";
+    text = escapeXml(value);
+  } else if (typeof value === "boolean") {
+    type = "boolean";
+    text = String(value);
+  } else if (typeof value === "number") {
+    type = !Number.isInteger(value) ? "double" : Math.abs(value) > 2147483647 ? "long" : "int";
+    text = String(value);
+  } else if (value instanceof Date) {
+    type = "dateTime";
+    text = value.toISOString();
+  } else {
+    throw new Error(
+      `The value of the user property '${key}' of the correlation filter must be of type ` +
+        `'string', 'number', 'boolean' or 'Date'.`
+    );
+  }
+  return (
+    `<Value i:type="d6p1:${type}" xmlns:d6p1="http://www.w3.org/2001/XMLSchema">` +
+    `${text}</Value>`
+  );
+}
+
+/**
+ * Serializes the filter of a rule, in the same forms that are accepted by
+ * `SubscriptionClient.addRule()`, into the `Filter` element of a rule description.
+ * @ignore
+ * @param {boolean | string | CorrelationFilter | SqlFilterExpression} filter A boolean, an SQL
+ * expression or a correlation filter.
+ * @returns {string} The `Filter` element.
+ */
+export function serializeRuleFilter(
+  filter: boolean | string | CorrelationFilter | SqlFilterExpression
+): string {
+  if (filter instanceof SqlFilterExpression) filter = filter.build();
+  if (filter === "" || filter == undefined) {
+    throw new Error("'filter' is a required parameter.");
+  }
+  if (typeof filter === "boolean") {
+    const type = filter ? "TrueFilter" : "FalseFilter";
+    return `<Filter i:type="${type}"><SqlExpression>${
+      filter ? "1=1" : "1=0"
+    }</SqlExpression></Filter>`;
+  }
+  if (typeof filter === "string") {
+    return `<Filter i:type="SqlFilter"><SqlExpression>${escapeXml(
+      filter
+    )}</SqlExpression></Filter>`;
+  }
+  if (typeof filter !== "object") {
+    throw new Error("'filter' must be of type 'boolean', 'string' or 'CorrelationFilter'.");
+  }
+  let content = "";
+  for (const [property, element] of correlationFilterElements) {
+    const value = filter[property];
+    if (value != undefined) {
+      content += `<${element}>${escapeXml(String(value))}</${element}>`;
+    }
+  }
+  if (filter.userProperties) {
+    content += "<Properties>";
+    for (const key of Object.keys(filter.userProperties)) {
+      content +=
+        `<KeyValueOfstringanyType><Key>${escapeXml(key)}</Key>` +
+        `${serializePropertyValue(key, filter.userProperties[key])}</KeyValueOfstringanyType>`;
+    }
+    content += "</Properties>";
+  }
+  return `<Filter i:type="CorrelationFilter">${content}</Filter>`;
+}
+
+/**
+ * Serializes the SQL action of a rule into the `Action` element of a rule description.
+ * @ignore
+ * @param {string} [sqlRuleActionExpression] The SQL action expression, if any.
+ * @returns {string} The `Action` element.
+ */
+export function serializeRuleAction(sqlRuleActionExpression?: string): string {
+  if (sqlRuleActionExpression == undefined || sqlRuleActionExpression === "") {
+    return `<Action i:type="EmptyRuleAction"/>`;
+  }
+  if (typeof sqlRuleActionExpression !== "string") {
+    throw new Error("'sqlRuleActionExpression' must be of type 'string'.");
+  }
+  return (
+    `<Action i:type="SqlRuleAction">` +
+    `<SqlExpression>${escapeXml(sqlRuleActionExpression)}</SqlExpression></Action>`
+  );
+}
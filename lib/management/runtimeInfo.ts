@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { PropertyMapping } from "./atomXml";
+
+/**
+ * Describes the runtime information of a queue or a subscription, as provided by the service.
+ * The counts are maintained by the service asynchronously, hence they may lag behind the actual
+ * state of the entity by a few seconds.
+ * @interface EntityRuntimeInfo
+ */
+export interface EntityRuntimeInfo {
+  /**
+   * @property {string} entityPath The path of the queue, or of the subscription in the form
+   * `"<topic-name>/Subscriptions/<subscription-name>"`.
+   */
+  entityPath: string;
+  /**
+   * @property {number} messageCount The total number of messages in the entity, including the
+   * dead-lettered, scheduled and transfer messages.
+   */
+  messageCount: number;
+  /**
+   * @property {number} activeMessageCount The number of messages that can be received.
+   */
+  activeMessageCount: number;
+  /**
+   * @property {number} deadLetterMessageCount The number of messages in the dead-letter queue.
+   */
+  deadLetterMessageCount: number;
+  /**
+   * @property {number} scheduledMessageCount The number of messages that are scheduled to be
+   * enqueued later.
+   */
+  scheduledMessageCount: number;
+  /**
+   * @property {number} transferMessageCount The number of messages that are waiting to be
+   * forwarded to another entity.
+   */
+  transferMessageCount: number;
+  /**
+   * @property {number} transferDeadLetterMessageCount The number of messages that could not be
+   * forwarded to another entity and were moved to the transfer dead-letter queue.
+   */
+  transferDeadLetterMessageCount: number;
+  /**
+   * @property {number} [sizeInBytes] The size of the messages in the entity, in bytes. It is only
+   * provided for queues, since the service reports the size of the messages of the subscriptions
+   * for the topic as a whole.
+   */
+  sizeInBytes?: number;
+  /**
+   * @property {Date} createdAt The time at which the entity was created.
+   */
+  createdAt: Date;
+  /**
+   * @property {Date} updatedAt The time at which the settings of the entity were last updated.
+   */
+  updatedAt: Date;
+  /**
+   * @property {Date} accessedAt The time at which a message was last sent to or received from the
+   * entity.
+   */
+  accessedAt: Date;
+}
+
+/**
+ * The mappings of the runtime properties that are provided for both queues and subscriptions.
+ * @ignore
+ */
+const commonRuntimeInfoProperties: PropertyMapping[] = [
+  { property: "messageCount", element: "MessageCount", type: "number", readOnly: true },
+  {
+    property: "activeMessageCount",
+    element: "CountDetails/ActiveMessageCount",
+    type: "number",
+    readOnly: true
+  },
+  {
+    property: "deadLetterMessageCount",
+    element: "CountDetails/DeadLetterMessageCount",
+    type: "number",
+    readOnly: true
+  },
+  {
+    property: "scheduledMessageCount",
+    element: "CountDetails/ScheduledMessageCount",
+    type: "number",
+    readOnly: true
+  },
+  {
+    property: "transferMessageCount",
+    element: "CountDetails/TransferMessageCount",
+    type: "number",
+    readOnly: true
+  },
+  {
+    property: "transferDeadLetterMessageCount",
+    element: "CountDetails/TransferDeadLetterMessageCount",
+    type: "number",
+    readOnly: true
+  },
+  { property: "createdAt", element: "CreatedAt", type: "date", readOnly: true },
+  { property: "updatedAt", element: "UpdatedAt", type: "date", readOnly: true },
+  { property: "accessedAt", element: "AccessedAt", type: "date", readOnly: true }
+];
+
+/**
+ * The mappings of the runtime properties of a queue description.
+ * @ignore
+ */
+export const queueRuntimeInfoProperties: PropertyMapping[] = [
+  ...commonRuntimeInfoProperties,
+  { property: "sizeInBytes", element: "SizeInBytes", type: "number", readOnly: true }
+];
+
+/**
+ * The mappings of the runtime properties of a subscription description.
+ * @ignore
+ */
+export const subscriptionRuntimeInfoProperties: PropertyMapping[] = commonRuntimeInfoProperties;
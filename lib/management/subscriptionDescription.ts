@@ -0,0 +1,176 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { CorrelationFilter } from "../core/managementClient";
+import { SqlFilterExpression } from "../filters/filterBuilder";
+import { PropertyMapping, escapeXml } from "./atomXml";
+import { EntityStatus } from "./queueDescription";
+import { serializeRuleFilter, serializeRuleAction } from "./ruleXml";
+
+/**
+ * Describes the rule that is added to a subscription while it is created, instead of the default
+ * rule that matches all the messages.
+ * @interface DefaultRuleDescription
+ */
+export interface DefaultRuleDescription {
+  /**
+   * @property {boolean | string | CorrelationFilter | SqlFilterExpression} filter A Boolean, SQL
+   * expression or a Correlation filter, as in `SubscriptionClient.addRule()`.
+   */
+  filter: boolean | string | CorrelationFilter | SqlFilterExpression;
+  /**
+   * @property {string} [sqlRuleActionExpression] The action to perform if the message satisfies
+   * the filter.
+   */
+  sqlRuleActionExpression?: string;
+  /**
+   * @property {string} [name] The name of the rule. Default value: `"$Default"`.
+   */
+  name?: string;
+}
+
+/**
+ * Describes the settings of a subscription. The settings that are not provided while creating a
+ * subscription take the default values of the service.
+ * @interface SubscriptionDescription
+ */
+export interface SubscriptionDescription {
+  /**
+   * @property {number} [lockDurationInMs] The duration of the peek-lock, i.e. the amount of time
+   * for which a received message is locked for other receivers. The maximum value is 5 minutes.
+   * Default value: 1 minute.
+   */
+  lockDurationInMs?: number;
+  /**
+   * @property {boolean} [requiresSession] Indicates whether the subscription supports sessions.
+   * It can only be set while creating the subscription.
+   */
+  requiresSession?: boolean;
+  /**
+   * @property {number} [defaultMessageTimeToLiveInMs] The time to live of the messages that do
+   * not have their own `timeToLive`.
+   */
+  defaultMessageTimeToLiveInMs?: number;
+  /**
+   * @property {boolean} [deadLetteringOnMessageExpiration] Indicates whether the expired messages
+   * are moved to the dead-letter queue.
+   */
+  deadLetteringOnMessageExpiration?: boolean;
+  /**
+   * @property {boolean} [deadLetteringOnFilterEvaluationExceptions] Indicates whether the
+   * messages for which the evaluation of a filter fails are moved to the dead-letter queue.
+   */
+  deadLetteringOnFilterEvaluationExceptions?: boolean;
+  /**
+   * @property {DefaultRuleDescription} [defaultRule] The rule that is added while creating the
+   * subscription. It can only be provided while creating the subscription and it is not provided
+   * by the service. If not provided then a rule that matches all the messages is added.
+   */
+  defaultRule?: DefaultRuleDescription;
+  /**
+   * @property {number} [maxDeliveryCount] The number of deliveries after which a message is
+   * moved to the dead-letter queue. Default value: `10`.
+   */
+  maxDeliveryCount?: number;
+  /**
+   * @property {boolean} [enableBatchedOperations] Indicates whether the server-side batched
+   * operations are enabled.
+   */
+  enableBatchedOperations?: boolean;
+  /**
+   * @property {EntityStatus} [status] The status of the subscription.
+   */
+  status?: EntityStatus;
+  /**
+   * @property {string} [forwardTo] The name of the queue or topic to which the messages are
+   * automatically forwarded.
+   */
+  forwardTo?: string;
+  /**
+   * @property {string} [userMetadata] Custom metadata of the subscription.
+   */
+  userMetadata?: string;
+  /**
+   * @property {string} [forwardDeadLetteredMessagesTo] The name of the queue or topic to which
+   * the dead-lettered messages are automatically forwarded.
+   */
+  forwardDeadLetteredMessagesTo?: string;
+  /**
+   * @property {number} [autoDeleteOnIdleInMs] The idle time after which the subscription is
+   * automatically deleted. The minimum value is 5 minutes.
+   */
+  autoDeleteOnIdleInMs?: number;
+}
+
+/**
+ * Describes a subscription, as provided by the service.
+ * @interface SubscriptionInfo
+ */
+export interface SubscriptionInfo extends SubscriptionDescription {
+  /**
+   * @property {string} topicName The name of the topic of the subscription.
+   */
+  topicName: string;
+  /**
+   * @property {string} name The name of the subscription.
+   */
+  name: string;
+}
+
+/**
+ * Serializes the default rule of a subscription into the content of the `DefaultRuleDescription`
+ * element.
+ * @ignore
+ */
+function serializeDefaultRule(rule: DefaultRuleDescription): string {
+  if (rule.name != undefined && (!rule.name || typeof rule.name !== "string")) {
+    throw new Error("'name' of the default rule must be of type 'string'.");
+  }
+  return (
+    serializeRuleFilter(rule.filter) +
+    serializeRuleAction(rule.sqlRuleActionExpression) +
+    `<Name>${escapeXml(rule.name || "$Default")}</Name>`
+  );
+}
+
+/**
+ * The mappings of the properties of a subscription description, in the order that is expected
+ * by the service.
+ * @ignore
+ */
+export const subscriptionProperties: PropertyMapping[] = [
+  { property: "lockDurationInMs", element: "LockDuration", type: "duration" },
+  { property: "requiresSession", element: "RequiresSession", type: "boolean" },
+  {
+    property: "defaultMessageTimeToLiveInMs",
+    element: "DefaultMessageTimeToLive",
+    type: "duration"
+  },
+  {
+    property: "deadLetteringOnMessageExpiration",
+    element: "DeadLetteringOnMessageExpiration",
+    type: "boolean"
+  },
+  {
+    property: "deadLetteringOnFilterEvaluationExceptions",
+    element: "DeadLetteringOnFilterEvaluationExceptions",
+    type: "boolean"
+  },
+  {
+    property: "defaultRule",
+    element: "DefaultRuleDescription",
+    type: "object",
+    serialize: serializeDefaultRule
+  },
+  { property: "maxDeliveryCount", element: "MaxDeliveryCount", type: "number" },
+  { property: "enableBatchedOperations", element: "EnableBatchedOperations", type: "boolean" },
+  { property: "status", element: "Status", type: "string" },
+  { property: "forwardTo", element: "ForwardTo", type: "string" },
+  { property: "userMetadata", element: "UserMetadata", type: "string" },
+  {
+    property: "forwardDeadLetteredMessagesTo",
+    element: "ForwardDeadLetteredMessagesTo",
+    type: "string"
+  },
+  { property: "autoDeleteOnIdleInMs", element: "AutoDeleteOnIdle", type: "duration" }
+];
@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { PropertyMapping } from "./atomXml";
+import { EntityStatus } from "./queueDescription";
+
+/**
+ * Describes the settings of a topic. The settings that are not provided while creating a topic
+ * take the default values of the service.
+ * @interface TopicDescription
+ */
+export interface TopicDescription {
+  /**
+   * @property {number} [defaultMessageTimeToLiveInMs] The time to live of the messages that do
+   * not have their own `timeToLive`.
+   */
+  defaultMessageTimeToLiveInMs?: number;
+  /**
+   * @property {number} [maxSizeInMegabytes] The maximum size of the topic in megabytes.
+   * Default value: `1024`.
+   */
+  maxSizeInMegabytes?: number;
+  /**
+   * @property {boolean} [requiresDuplicateDetection] Indicates whether the topic detects
+   * duplicate messages by their `messageId`. It can only be set while creating the topic.
+   */
+  requiresDuplicateDetection?: boolean;
+  /**
+   * @property {number} [duplicateDetectionHistoryTimeWindowInMs] The time window within which
+   * duplicate messages are detected. Default value: 10 minutes.
+   */
+  duplicateDetectionHistoryTimeWindowInMs?: number;
+  /**
+   * @property {boolean} [enableBatchedOperations] Indicates whether the server-side batched
+   * operations are enabled.
+   */
+  enableBatchedOperations?: boolean;
+  /**
+   * @property {EntityStatus} [status] The status of the topic.
+   */
+  status?: EntityStatus;
+  /**
+   * @property {string} [userMetadata] Custom metadata of the topic.
+   */
+  userMetadata?: string;
+  /**
+   * @property {boolean} [supportOrdering] Indicates whether the topic preserves the order of the
+   * messages.
+   */
+  supportOrdering?: boolean;
+  /**
+   * @property {number} [autoDeleteOnIdleInMs] The idle time after which the topic is
+   * automatically deleted. The minimum value is 5 minutes.
+   */
+  autoDeleteOnIdleInMs?: number;
+  /**
+   * @property {boolean} [enablePartitioning] Indicates whether the topic is partitioned across
+   * multiple message brokers. It can only be set while creating the topic.
+   */
+  enablePartitioning?: boolean;
+}
+
+/**
+ * Describes a topic, as provided by the service.
+ * @interface TopicInfo
+ */
+export interface TopicInfo extends TopicDescription {
+  /**
+   * @property {string} name The name of the topic.
+   */
+  name: string;
+}
+
+/**
+ * The mappings of the properties of a topic description, in the order that is expected by the
+ * service.
+ * @ignore
+ */
+export const topicProperties: PropertyMapping[] = [
+  {
+    property: "defaultMessageTimeToLiveInMs",
+    element: "DefaultMessageTimeToLive",
+    type: "duration"
+  },
+  { property: "maxSizeInMegabytes", element: "MaxSizeInMegabytes", type: "number" },
+  {
+    property: "requiresDuplicateDetection",
+    element: "RequiresDuplicateDetection",
+    type: "boolean"
+  },
+  {
+    property: "duplicateDetectionHistoryTimeWindowInMs",
+    element: "DuplicateDetectionHistoryTimeWindow",
+    type: "duration"
+  },
+  { property: "enableBatchedOperations", element: "EnableBatchedOperations", type: "boolean" },
+  { property: "status", element: "Status", type: "string" },
+  { property: "userMetadata", element: "UserMetadata", type: "string" },
+  { property: "supportOrdering", element: "SupportOrdering", type: "boolean" },
+  { property: "autoDeleteOnIdleInMs", element: "AutoDeleteOnIdle", type: "duration" },
+  { property: "enablePartitioning", element: "EnablePartitioning", type: "boolean" }
+];
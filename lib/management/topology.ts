@@ -0,0 +1,527 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as log from "../log";
+import { OperationOptions } from "../util/abort";
+import { SubscriptionClient } from "../subscriptionClient";
+import { RuleDefinition, RuleDescription, getRuleKey } from "../core/managementClient";
+import { parseSqlFilter, parseSqlRuleAction } from "../filters/sqlParser";
+import { EntityManager } from "./entityManager";
+import { TopicDescription } from "./topicDescription";
+import { SubscriptionDescription } from "./subscriptionDescription";
+
+/**
+ * Describes the desired state of the topics of a namespace, along with their subscriptions and
+ * rules. The entities that are not described are left untouched.
+ * @interface TopologySpec
+ */
+export interface TopologySpec {
+  /**
+   * @property {TopicSpec[]} topics The topics.
+   */
+  topics: TopicSpec[];
+}
+
+/**
+ * Describes the desired state of a topic.
+ * @interface TopicSpec
+ */
+export interface TopicSpec {
+  /**
+   * @property {string} name The name of the topic.
+   */
+  name: string;
+  /**
+   * @property {TopicDescription} [description] The settings of the topic. The settings that are
+   * not provided keep their current (or default) value.
+   */
+  description?: TopicDescription;
+  /**
+   * @property {SubscriptionSpec[]} [subscriptions] The subscriptions of the topic.
+   */
+  subscriptions?: SubscriptionSpec[];
+}
+
+/**
+ * Describes the desired state of a subscription.
+ * @interface SubscriptionSpec
+ */
+export interface SubscriptionSpec {
+  /**
+   * @property {string} name The name of the subscription.
+   */
+  name: string;
+  /**
+   * @property {SubscriptionDescription} [description] The settings of the subscription. The
+   * settings that are not provided keep their current (or default) value. The `defaultRule` can
+   * not be provided; the rules are provided with `rules` instead.
+   */
+  description?: SubscriptionDescription;
+  /**
+   * @property {RuleDefinition[]} [rules] The complete rule set of the subscription, as in
+   * `SubscriptionClient.replaceRules()`: the rules that are not provided, including the default
+   * rule, are removed. If it is not provided then the rules are left untouched.
+   */
+  rules?: RuleDefinition[];
+}
+
+/**
+ * Describes the options that can be provided while applying a topology.
+ * @interface ApplyTopologyOptions
+ */
+export interface ApplyTopologyOptions extends OperationOptions {
+  /**
+   * @property {boolean} [dryRun] Whether to only compute the changes, without applying them.
+   * Default value: `false`.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Describes the kinds of changes that are applied to a topology.
+ */
+export type TopologyChangeKind =
+  | "createTopic"
+  | "updateTopic"
+  | "createSubscription"
+  | "updateSubscription"
+  | "addRule"
+  | "updateRule"
+  | "removeRule";
+
+/**
+ * Describes a change that is applied to a topology.
+ * @interface TopologyChange
+ */
+export interface TopologyChange {
+  /**
+   * @property {TopologyChangeKind} kind The kind of the change.
+   */
+  kind: TopologyChangeKind;
+  /**
+   * @property {string} topicName The name of the topic.
+   */
+  topicName: string;
+  /**
+   * @property {string} [subscriptionName] The name of the subscription, if the change applies to
+   * a subscription or to a rule.
+   */
+  subscriptionName?: string;
+  /**
+   * @property {string} [ruleName] The name of the rule, if the change applies to a rule.
+   */
+  ruleName?: string;
+  /**
+   * @property {string[]} [properties] The settings that are updated, if the change updates a
+   * topic or a subscription.
+   */
+  properties?: string[];
+  /**
+   * @property {string} description A human readable description of the change, e.g.
+   * "Add rule 'red' to subscription 'orders/red'".
+   */
+  description: string;
+}
+
+/**
+ * Describes a topic or a subscription whose settings could not be read through the
+ * EntityManager, e.g. because the credentials only grant the Send and Listen rights. Its settings
+ * are left untouched and it is assumed to exist; only its rules are brought about.
+ * @interface SkippedEntity
+ */
+export interface SkippedEntity {
+  /**
+   * @property {string} topicName The name of the topic.
+   */
+  topicName: string;
+  /**
+   * @property {string} [subscriptionName] The name of the subscription, if the entity is a
+   * subscription.
+   */
+  subscriptionName?: string;
+  /**
+   * @property {Error} error The error that occurred while reading the settings of the entity, or
+   * of its topic.
+   */
+  error: Error;
+}
+
+/**
+ * Describes the outcome of applying a topology.
+ * @interface TopologyResult
+ */
+export interface TopologyResult {
+  /**
+   * @property {boolean} dryRun Whether the changes were only computed, without being applied.
+   */
+  dryRun: boolean;
+  /**
+   * @property {TopologyChange[]} changes The changes, in the order in which they are applied.
+   */
+  changes: TopologyChange[];
+  /**
+   * @property {SkippedEntity[]} skippedEntities The topics and the subscriptions whose settings
+   * were not brought about, since they could not be read.
+   */
+  skippedEntities: SkippedEntity[];
+}
+
+/**
+ * Describes a change along with the operation that applies it.
+ * @ignore
+ * @interface PlannedChange
+ */
+interface PlannedChange {
+  change: TopologyChange;
+  apply: () => Promise<any>;
+}
+
+/**
+ * The rules of a subscription that was just created.
+ * @ignore
+ */
+const defaultRules: RuleDescription[] = [{ name: "$Default", filter: { expression: "1=1" } }];
+
+function validateName(parameterName: string, value: any): void {
+  if (!value || typeof value !== "string") {
+    throw new Error(`'${parameterName}' is a required parameter and must be of type 'string'.`);
+  }
+}
+
+function validateUniqueNames(kind: string, items: Array<{ name: string }>, scope: string): void {
+  const names = new Set<string>();
+  for (const item of items) {
+    if (names.has(item.name)) {
+      throw new Error(`The ${kind} '${item.name}' is provided more than once${scope}.`);
+    }
+    names.add(item.name);
+  }
+}
+
+/**
+ * Validates the given topology, so that no change is applied if a part of it is not valid.
+ * @ignore
+ */
+function validateTopologySpec(spec: TopologySpec): void {
+  if (!spec || typeof spec !== "object" || !Array.isArray(spec.topics)) {
+    throw new Error("'spec' must be of type 'object' with a 'topics' property of type 'Array'.");
+  }
+  for (const topic of spec.topics) {
+    validateName("name", topic && topic.name);
+    if (topic.subscriptions == undefined) continue;
+    if (!Array.isArray(topic.subscriptions)) {
+      throw new Error(`The subscriptions of the topic '${topic.name}' must be of type 'Array'.`);
+    }
+    for (const subscription of topic.subscriptions) {
+      validateName("name", subscription && subscription.name);
+      if (subscription.description && subscription.description.defaultRule != undefined) {
+        throw new Error(
+          `The subscription '${topic.name}/${subscription.name}' can not have a 'defaultRule'. ` +
+            `Provide the 'rules' instead.`
+        );
+      }
+      if (subscription.rules == undefined) continue;
+      if (!Array.isArray(subscription.rules)) {
+        throw new Error(
+          `The rules of the subscription '${topic.name}/${subscription.name}' must be of type ` +
+            `'Array'.`
+        );
+      }
+      for (const rule of subscription.rules) {
+        validateName("name", rule && rule.name);
+        if (rule.filter === "" || rule.filter == undefined) {
+          throw new Error(`Cannot update rule '${rule.name}'. Filter is missing.`);
+        }
+        if (typeof rule.filter === "string") parseSqlFilter(rule.filter);
+        if (rule.sqlRuleActionExpression) parseSqlRuleAction(rule.sqlRuleActionExpression);
+      }
+      validateUniqueNames("rule", subscription.rules, ` for '${topic.name}/${subscription.name}'`);
+    }
+    validateUniqueNames("subscription", topic.subscriptions, ` for '${topic.name}'`);
+  }
+  validateUniqueNames("topic", spec.topics, "");
+}
+
+/**
+ * Provides the names of the settings whose desired value is different from the current one.
+ * @ignore
+ */
+function getChangedProperties(desired: any, current: any): string[] {
+  const result: string[] = [];
+  for (const property of Object.keys(desired || {})) {
+    const desiredValue = desired[property];
+    const currentValue = current[property];
+    if (desiredValue == undefined) continue;
+    // The service provides the entity to which the messages are forwarded as a URL.
+    if (
+      (property === "forwardTo" || property === "forwardDeadLetteredMessagesTo") &&
+      typeof currentValue === "string" &&
+      currentValue.toLowerCase().endsWith(`/${String(desiredValue).toLowerCase()}`)
+    ) {
+      continue;
+    }
+    if (desiredValue !== currentValue) result.push(property);
+  }
+  return result;
+}
+
+function isNotFoundError(err: any): boolean {
+  return err && err.name === "MessagingEntityNotFoundError";
+}
+
+function isAbortError(err: any): boolean {
+  return err && err.name === "AbortError";
+}
+
+/**
+ * Adds the changes that bring the given rule set about to the plan, in the same order as
+ * `SubscriptionClient.replaceRules()`.
+ * @ignore
+ */
+function planRules(
+  plan: PlannedChange[],
+  topicName: string,
+  subscriptionName: string,
+  rules: RuleDefinition[],
+  currentRules: RuleDescription[],
+  createSubscriptionClient: (topicName: string, subscriptionName: string) => SubscriptionClient,
+  operationOptions: OperationOptions
+): void {
+  const subscriptionPath = `${topicName}/${subscriptionName}`;
+  const withClient = (operation: (client: SubscriptionClient) => Promise<any>) => async () => {
+    const client = createSubscriptionClient(topicName, subscriptionName);
+    try {
+      await operation(client);
+    } finally {
+      await client.close();
+    }
+  };
+  const names = new Set<string>();
+  for (const rule of rules) {
+    names.add(rule.name);
+    const currentRule = currentRules.find((x: RuleDescription) => x.name === rule.name);
+    if (!currentRule) {
+      plan.push({
+        change: {
+          kind: "addRule",
+          topicName: topicName,
+          subscriptionName: subscriptionName,
+          ruleName: rule.name,
+          description: `Add rule '${rule.name}' to subscription '${subscriptionPath}'`
+        },
+        apply: withClient((client: SubscriptionClient) =>
+          client.addRule(rule.name, rule.filter, rule.sqlRuleActionExpression, operationOptions)
+        )
+      });
+    } else if (
+      getRuleKey(currentRule.filter, currentRule.action && currentRule.action.expression) !==
+      getRuleKey(rule.filter, rule.sqlRuleActionExpression)
+    ) {
+      plan.push({
+        change: {
+          kind: "updateRule",
+          topicName: topicName,
+          subscriptionName: subscriptionName,
+          ruleName: rule.name,
+          description: `Update rule '${rule.name}' of subscription '${subscriptionPath}'`
+        },
+        apply: withClient((client: SubscriptionClient) =>
+          client.updateRule(rule.name, rule.filter, rule.sqlRuleActionExpression, operationOptions)
+        )
+      });
+    }
+  }
+  for (const currentRule of currentRules) {
+    if (names.has(currentRule.name)) continue;
+    plan.push({
+      change: {
+        kind: "removeRule",
+        topicName: topicName,
+        subscriptionName: subscriptionName,
+        ruleName: currentRule.name,
+        description: `Remove rule '${currentRule.name}' from subscription '${subscriptionPath}'`
+      },
+      apply: withClient((client: SubscriptionClient) =>
+        client.removeRule(currentRule.name, operationOptions)
+      )
+    });
+  }
+}
+
+/**
+ * Computes the changes that bring the given topology about, and applies them unless it is a dry
+ * run. The topics and the subscriptions are created or updated before their rules are changed;
+ * the rules of a subscription are added and updated before the rules that are not provided are
+ * removed, as in `SubscriptionClient.replaceRules()`. The entities and the rules that exist but
+ * are not described are left untouched, except for the rules of a subscription whose rules are
+ * described. If a change fails then the error is thrown and the changes that were applied so far
+ * are kept; applying the topology again resumes from there. If the settings of a topic or of a
+ * subscription can not be read (for a reason other than it not existing, or the cancellation of
+ * the operation) then it is reported as skipped, and only its rules are brought about.
+ * @ignore
+ * @param {EntityManager} entityManager The EntityManager that gets, creates and updates the
+ * entities.
+ * @param {Function} createSubscriptionClient Creates the client that gets and changes the rules
+ * of a subscription. The client is closed by this function.
+ * @param {TopologySpec | string} spec The topology, or its JSON representation.
+ * @param {ApplyTopologyOptions} [options] The options to make a dry run and to bound or cancel
+ * the operations on the entities.
+ * @returns {Promise<TopologyResult>} Promise<TopologyResult>
+ */
+export async function applyTopology(
+  entityManager: EntityManager,
+  createSubscriptionClient: (topicName: string, subscriptionName: string) => SubscriptionClient,
+  spec: TopologySpec | string,
+  options?: ApplyTopologyOptions
+): Promise<TopologyResult> {
+  if (!options) options = {};
+  if (typeof spec === "string") spec = JSON.parse(spec) as TopologySpec;
+  validateTopologySpec(spec);
+  const operationOptions: OperationOptions = {
+    timeoutInMs: options.timeoutInMs,
+    abortSignal: options.abortSignal
+  };
+  const plan: PlannedChange[] = [];
+  const skippedEntities: SkippedEntity[] = [];
+  const skip = (error: Error, topicName: string, subscriptionName?: string): void => {
+    log.error(
+      "The settings of '%s' are skipped, since they could not be read: %O",
+      subscriptionName ? `${topicName}/${subscriptionName}` : topicName,
+      error
+    );
+    skippedEntities.push({
+      topicName: topicName,
+      subscriptionName: subscriptionName,
+      error: error
+    });
+  };
+  for (const topic of spec.topics) {
+    let topicExists = true;
+    let topicError: Error | undefined;
+    try {
+      const current = await entityManager.getTopic(topic.name, operationOptions);
+      const properties = getChangedProperties(topic.description, current);
+      if (properties.length) {
+        plan.push({
+          change: {
+            kind: "updateTopic",
+            topicName: topic.name,
+            properties: properties,
+            description: `Update ${properties.join(", ")} of topic '${topic.name}'`
+          },
+          apply: () => entityManager.updateTopic(topic.name, topic.description!, operationOptions)
+        });
+      }
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (isNotFoundError(err)) {
+        topicExists = false;
+      } else {
+        // The topic is assumed to exist, so that the rules of its subscriptions are still
+        // brought about.
+        topicError = err;
+        skip(err, topic.name);
+      }
+    }
+    if (!topicExists) {
+      plan.push({
+        change: {
+          kind: "createTopic",
+          topicName: topic.name,
+          description: `Create topic '${topic.name}'`
+        },
+        apply: () => entityManager.createTopic(topic.name, topic.description, operationOptions)
+      });
+    }
+    for (const subscription of topic.subscriptions || []) {
+      const subscriptionPath = `${topic.name}/${subscription.name}`;
+      let currentRules: RuleDescription[] = defaultRules;
+      let subscriptionExists = topicExists;
+      if (topicError) {
+        skip(topicError, topic.name, subscription.name);
+      } else if (subscriptionExists) {
+        try {
+          const current = await entityManager.getSubscription(
+            topic.name,
+            subscription.name,
+            operationOptions
+          );
+          const properties = getChangedProperties(subscription.description, current);
+          if (properties.length) {
+            plan.push({
+              change: {
+                kind: "updateSubscription",
+                topicName: topic.name,
+                subscriptionName: subscription.name,
+                properties: properties,
+                description: `Update ${properties.join(", ")} of subscription '${subscriptionPath}'`
+              },
+              apply: () =>
+                entityManager.updateSubscription(
+                  topic.name,
+                  subscription.name,
+                  subscription.description!,
+                  operationOptions
+                )
+            });
+          }
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          if (isNotFoundError(err)) {
+            subscriptionExists = false;
+          } else {
+            skip(err, topic.name, subscription.name);
+          }
+        }
+      }
+      if (!subscriptionExists) {
+        plan.push({
+          change: {
+            kind: "createSubscription",
+            topicName: topic.name,
+            subscriptionName: subscription.name,
+            description: `Create subscription '${subscriptionPath}'`
+          },
+          apply: () =>
+            entityManager.createSubscription(
+              topic.name,
+              subscription.name,
+              subscription.description,
+              operationOptions
+            )
+        });
+      }
+      if (!subscription.rules) continue;
+      if (subscriptionExists) {
+        const client = createSubscriptionClient(topic.name, subscription.name);
+        try {
+          currentRules = await client.getRules(operationOptions);
+        } finally {
+          await client.close();
+        }
+      }
+      planRules(
+        plan,
+        topic.name,
+        subscription.name,
+        subscription.rules,
+        currentRules,
+        createSubscriptionClient,
+        operationOptions
+      );
+    }
+  }
+  const changes = plan.map((item: PlannedChange) => item.change);
+  log.entityManager("The topology requires %d change(s): %O", changes.length, changes);
+  if (!options.dryRun) {
+    for (const item of plan) {
+      log.entityManager("Applying the change: %s.", item.change.description);
+      await item.apply();
+    }
+  }
+  return {
+    dryRun: Boolean(options.dryRun),
+    changes: changes,
+    skippedEntities: skippedEntities
+  };
+}
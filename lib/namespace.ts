@@ -2,22 +2,81 @@
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
 import * as log from "./log";
+import { EventEmitter } from "events";
 import {
   ApplicationTokenCredentials,
   DeviceTokenCredentials,
   UserTokenCredentials,
   MSITokenCredentials
 } from "ms-rest-azure";
-import { ConnectionContext } from "./connectionContext";
+import { ConnectionContext, ConnectionStateChange } from "./connectionContext";
 import { QueueClientOptions, QueueClient } from "./queueClient";
-import { TopicClient } from "./topicClient";
+import { TopicClientOptions, TopicClient } from "./topicClient";
 import {
   ConnectionConfig,
   DataTransformer,
   TokenProvider,
-  AadTokenProvider
+  AadTokenProvider,
+  SasTokenProvider
 } from "@azure/amqp-common";
 import { SubscriptionClient, SubscriptionClientOptions } from "./subscriptionClient";
+import { Client, CloseOptions, DrainResult } from "./client";
+import { RetryOptions, validateRetryOptions } from "./util/retry";
+import { ProxyOptions, validateProxyOptions } from "./util/proxy";
+import { BackoffStrategy } from "./util/backoff";
+import { HealthProbe, HealthCheckOptions, HealthCheckResult } from "./core/healthProbe";
+import { EntityManager, EntityManagerOptions } from "./management/entityManager";
+import { Transaction } from "./core/transaction";
+import {
+  TopologySpec,
+  ApplyTopologyOptions,
+  TopologyResult,
+  applyTopology
+} from "./management/topology";
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  validateCircuitBreakerOptions
+} from "./util/circuitBreaker";
+
+/**
+ * Describes the strategy that is used to assign clients to the AMQP connections of a Namespace.
+ */
+export enum ConnectionPoolStrategy {
+  /**
+   * Clients are assigned to the connections one after another.
+   */
+  roundRobin = "roundRobin",
+  /**
+   * Clients are assigned to a connection based on the hash of the entity path. All the clients
+   * for the same entity share the same connection. A client that sends via a transfer entity
+   * (`viaEntityPath`) is assigned as per the path of that entity.
+   */
+  entityHash = "entityHash"
+}
+
+/**
+ * Describes the options that can be provided to tunnel the AMQP connection over WebSockets.
+ * @interface WebSocketOptions
+ */
+export interface WebSocketOptions {
+  /**
+   * @property {Function} webSocketImpl The WebSocket constructor that will be used to create the
+   * WebSocket, for example the one from the `ws` package or `window.WebSocket` in the browser.
+   * It is invoked with the url, the protocols and the `webSocketConstructorOptions`.
+   */
+  webSocketImpl: new (url: string, protocols?: string | string[], options?: any) => any;
+  /**
+   * @property {any} [webSocketConstructorOptions] The options that will be passed to the
+   * WebSocket constructor, for example an `agent` for connecting through a proxy.
+   */
+  webSocketConstructorOptions?: any;
+  /**
+   * @property {string} [url] The url of the WebSocket endpoint.
+   * Default value: `wss://<host>:443/$servicebus/websocket`.
+   */
+  url?: string;
+}
 
 /**
  * Describes the base namesapce options.
@@ -31,6 +90,72 @@ export interface NamespaceOptionsBase {
    * option needs to be used only for specialized scenarios.
    */
   dataTransformer?: DataTransformer;
+  /**
+   * @property {RetryOptions} [retryOptions] The retry policy that will be applied while sending
+   * messages and making requests to the $management endpoint. If not provided then the default
+   * retry policy will be used. The renewal of message and session locks keeps its own retry
+   * policy, which is bound by the duration of the locks, and so does the re-establishment of the
+   * links, which is attempted 150 times with a fixed delay of 15 seconds.
+   */
+  retryOptions?: RetryOptions;
+  /**
+   * @property {number} [maxInFlightSends] The maximum number of messages that a sender link has
+   * sent without having received their outcome yet. A message that timed out keeps its place
+   * until its outcome is received or the link is closed. The messages are sent in the order in
+   * which `send()` or `sendBatch()` is called, and wait while the link has no credit from
+   * ServiceBus. A message that is retried is sent again after the messages that were sent in the
+   * meantime, hence retries can change the order in which the messages reach ServiceBus.
+   * Default value: `100`.
+   */
+  maxInFlightSends?: number;
+  /**
+   * @property {number} [connectionCount] The number of AMQP connections that will be opened by
+   * the Namespace. Clients are spread across these connections as per the
+   * `connectionPoolStrategy`. Default value: `1`.
+   */
+  connectionCount?: number;
+  /**
+   * @property {ConnectionPoolStrategy} [connectionPoolStrategy] The strategy that is used to
+   * assign clients to connections when `connectionCount` is greater than `1`.
+   * Default value: `ConnectionPoolStrategy.roundRobin`.
+   */
+  connectionPoolStrategy?: ConnectionPoolStrategy;
+  /**
+   * @property {WebSocketOptions} [webSocket] The options to tunnel the AMQP connection over
+   * WebSockets on port 443, instead of using AMQP over TCP on port 5671. This is useful when
+   * port 5671 is blocked by a firewall.
+   */
+  webSocket?: WebSocketOptions;
+  /**
+   * @property {ProxyOptions} [proxy] The HTTP proxy through which the AMQP connection (over TCP
+   * or over WebSockets) and the requests of the EntityManager are tunnelled by using the HTTP
+   * CONNECT method. If not provided then the proxy given by the `HTTPS_PROXY` environment
+   * variable (if any) will be used, unless the host of the namespace is excluded by the
+   * `NO_PROXY` environment variable. If the proxy rejects the credentials then sending or receiving
+   * messages fails with a `ProxyAuthenticationError`, that is not retried.
+   */
+  proxy?: ProxyOptions;
+  /**
+   * @property {BackoffStrategy} [reconnectBackoff] The strategy that provides the delay before
+   * the clients are reconnected after the AMQP connection was lost, and between the attempts to
+   * recover from an open circuit. Default value: an `ExponentialBackoffStrategy` with its
+   * default options.
+   */
+  reconnectBackoff?: BackoffStrategy;
+  /**
+   * @property {CircuitBreakerOptions} [circuitBreaker] The options to enable the circuit breaker
+   * on every AMQP connection. After `failureThreshold` consecutive failures to send messages or to
+   * reconnect, sending messages fails fast with a `CircuitOpenError` while the recovery is probed
+   * in the background. The state is provided by `Namespace.circuitState`. If not provided then
+   * the circuit breaker is disabled.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * @property {EntityManagerOptions} [entityManager] The options of the EntityManager that is
+   * used by the clients to get the runtime information of their entity, e.g. the endpoint of the
+   * REST API.
+   */
+  entityManager?: EntityManagerOptions;
 }
 
 /**
@@ -48,17 +173,39 @@ export interface NamespaceOptions extends NamespaceOptionsBase {
 /**
  * Describes the Service Bus Namespace and is the entry point for using Queues, Topics and
  * Subscriptions.
+ *
+ * The Namespace emits the following events with a `ConnectionStateChange` object whenever the
+ * state of the underlying AMQP connection changes:
+ * - `"connected"`: The AMQP connection has been opened.
+ * - `"disconnected"`: The AMQP connection has been closed or lost.
+ * - `"reconnecting"`: The AMQP connection was lost unexpectedly and the clients are being
+ * reconnected.
+ * - `"reconnected"`: An attempt has been made to reconnect all the clients. The outcome for every
+ * client is provided in `reconnectOutcomes`.
  */
-export class Namespace {
+export class Namespace extends EventEmitter {
   /**
    * @property {string} name The namespace name of the service bus.
    */
   name: string;
   /**
-   * @property {ConnectionContext} _context Describes the amqp connection context for the Namespace.
+   * @property {ConnectionContext[]} _contexts Describes the amqp connection contexts for the
+   * Namespace. Every context has its own amqp connection.
+   * @private
+   */
+  private _contexts: ConnectionContext[] = [];
+  /**
+   * @property {ConnectionPoolStrategy} _connectionPoolStrategy The strategy that is used to
+   * assign clients to connection contexts.
+   * @private
+   */
+  private _connectionPoolStrategy: ConnectionPoolStrategy;
+  /**
+   * @property {number} _nextContextIndex The index of the connection context to which the next
+   * client will be assigned in the round robin strategy.
    * @private
    */
-  private _context: ConnectionContext;
+  private _nextContextIndex: number = 0;
 
   /**
    * Instantiates a client pointing to the ServiceBus Queue given by this configuration.
@@ -69,9 +216,68 @@ export class Namespace {
    * authentication. Default value: `SasTokenProvider`.
    */
   constructor(config: ConnectionConfig, options?: NamespaceOptions) {
+    super();
     if (!options) options = {};
+    if (options.retryOptions) validateRetryOptions(options.retryOptions);
+    const connectionCount = options.connectionCount != undefined ? options.connectionCount : 1;
+    if (
+      typeof connectionCount !== "number" ||
+      !Number.isInteger(connectionCount) ||
+      connectionCount < 1
+    ) {
+      throw new Error(
+        "'connectionCount' must be of type 'number' with an integer value greater than 0."
+      );
+    }
+    if (
+      options.maxInFlightSends != undefined &&
+      (typeof options.maxInFlightSends !== "number" ||
+        !Number.isInteger(options.maxInFlightSends) ||
+        options.maxInFlightSends < 1)
+    ) {
+      throw new Error(
+        "'maxInFlightSends' must be of type 'number' with an integer value greater than 0."
+      );
+    }
+    this._connectionPoolStrategy =
+      options.connectionPoolStrategy || ConnectionPoolStrategy.roundRobin;
+    if (
+      this._connectionPoolStrategy !== ConnectionPoolStrategy.roundRobin &&
+      this._connectionPoolStrategy !== ConnectionPoolStrategy.entityHash
+    ) {
+      throw new Error(
+        `'connectionPoolStrategy' must be one of '${ConnectionPoolStrategy.roundRobin}' or ` +
+          `'${ConnectionPoolStrategy.entityHash}'.`
+      );
+    }
+    if (options.webSocket && typeof options.webSocket.webSocketImpl !== "function") {
+      throw new Error("'webSocketImpl' is a required parameter and must be of type 'function'.");
+    }
+    if (options.proxy) validateProxyOptions(options.proxy);
+    if (options.reconnectBackoff && typeof options.reconnectBackoff.getDelayInMs !== "function") {
+      throw new Error("'reconnectBackoff' must implement 'getDelayInMs'.");
+    }
+    if (options.circuitBreaker) validateCircuitBreakerOptions(options.circuitBreaker);
     this.name = config.endpoint;
-    this._context = ConnectionContext.create(config, options);
+    for (let i = 0; i < connectionCount; i++) {
+      const context = ConnectionContext.create(config, options);
+      context.onConnectionStateChange = (change: ConnectionStateChange) => {
+        this.emit(change.state, change);
+      };
+      this._contexts.push(context);
+    }
+  }
+
+  /**
+   * @property {CircuitState} circuitState The state of the circuit breaker. When there are
+   * multiple connections, it is `open` if the circuit of any connection is open.
+   * @readonly
+   */
+  get circuitState(): CircuitState {
+    const states = this._contexts.map((context) => context.circuitBreaker.state);
+    if (states.indexOf(CircuitState.open) !== -1) return CircuitState.open;
+    if (states.indexOf(CircuitState.halfOpen) !== -1) return CircuitState.halfOpen;
+    return CircuitState.closed;
   }
 
   /**
@@ -85,8 +291,9 @@ export class Namespace {
     if (!queueName || typeof queueName !== "string") {
       throw new Error("'queueName' is a required parameter and must be of type 'string'.");
     }
-    const client = new QueueClient(queueName, this._context, options);
-    this._context.clients[client.id] = client;
+    const context = this._getContext((options && options.viaEntityPath) || queueName);
+    const client = new QueueClient(queueName, context, options);
+    context.clients[client.id] = client;
     log.ns("Created the QueueClient for Queue: %s", queueName);
     return client;
   }
@@ -95,14 +302,16 @@ export class Namespace {
    * Creates a TopicClient for the given topic name. It assumes that the topic has already been
    * created.
    * @param {string} topicName The topic name.
+   * @param {TopicClientOptions} [options] The topic client options.
    * @returns TopicClient.
    */
-  createTopicClient(topicName: string): TopicClient {
+  createTopicClient(topicName: string, options?: TopicClientOptions): TopicClient {
     if (!topicName || typeof topicName !== "string") {
       throw new Error("'topicName' is a required parameter and must be of type 'string'.");
     }
-    const client = new TopicClient(topicName, this._context);
-    this._context.clients[client.id] = client;
+    const context = this._getContext((options && options.viaEntityPath) || topicName);
+    const client = new TopicClient(topicName, context, options);
+    context.clients[client.id] = client;
     log.ns("Created the TopicClient for Topic: %s", topicName);
     return client;
   }
@@ -127,8 +336,9 @@ export class Namespace {
     if (!subscriptionName || typeof subscriptionName !== "string") {
       throw new Error("'subscriptionName' is a required parameter and must be of type 'string'.");
     }
-    const client = new SubscriptionClient(topicName, subscriptionName, this._context, options);
-    this._context.clients[client.id] = client;
+    const context = this._getContext(`${topicName}/Subscriptions/${subscriptionName}`);
+    const client = new SubscriptionClient(topicName, subscriptionName, context, options);
+    context.clients[client.id] = client;
     log.ns(
       "Created the SubscriptionClient for Topic: %s and Subscription: %s",
       topicName,
@@ -138,38 +348,273 @@ export class Namespace {
   }
 
   /**
-   * Closes the namespace, the AMQP connection and all the entities on this conenction.
-   * @returns {Promise<any>}
+   * Declares a new transaction, in the scope of which messages can be sent and received messages
+   * can be settled as an atomic unit of work. The transaction is declared on the AMQP connection
+   * of the given client, which all the clients that take part in it must share. Clients that
+   * send to other entities than the one the messages are received from should be created with
+   * the `viaEntityPath` option, which also assigns them to the connection of that entity with
+   * the `entityHash` connection pool strategy.
+   * @param {Client} [client] The client whose connection is used. Default: the first
+   * connection of the Namespace.
+   * @returns {Promise<Transaction>} Promise<Transaction>
    */
-  async close(): Promise<any> {
+  async beginTransaction(client?: Client): Promise<Transaction> {
+    const context = client
+      ? this._contexts.find((item: ConnectionContext) => item.clients[client.id] === client)
+      : this._contexts[0];
+    if (!context) {
+      throw new Error("The client has not been created by this Namespace or has been closed.");
+    }
+    return context.transactionCoordinator.declare();
+  }
+
+  /**
+   * Creates an EntityManager to create, get, update, delete and list the entities of the
+   * namespace. It uses the token provider and the retry options of the Namespace.
+   * @param {EntityManagerOptions} [options] The options that can be provided while creating the
+   * EntityManager.
+   * @returns EntityManager.
+   */
+  createEntityManager(options?: EntityManagerOptions): EntityManager {
+    return new EntityManager(this._contexts[0], options);
+  }
+
+  /**
+   * Brings the topics of the namespace, along with their subscriptions and rules, to the state
+   * that is described by the given topology, e.g. one that is kept under source control. The
+   * changes are computed against the live entities and rules, and are applied with the
+   * EntityManager (as per the `entityManager` options of the Namespace) and with `addRule()`,
+   * `updateRule()` and `removeRule()` of the subscriptions. The entities that are not described
+   * are never deleted. A YAML document can be provided once it is parsed into an object.
+   * @param {TopologySpec | string} spec The topology, or its JSON representation.
+   * @param {ApplyTopologyOptions} [options] The options to make a dry run, which only computes
+   * the changes, and to bound or cancel the operations on the entities.
+   * @returns {Promise<TopologyResult>} Promise<TopologyResult> The changes, in the order in which
+   * they were (or would be) applied, and the entities whose settings could not be read (e.g.
+   * with credentials that only grant the Send and Listen rights), for which only the rules are
+   * brought about. If a change fails then it is rejected with the error, and the changes that were
+   * applied so far are kept.
+   */
+  async applyTopology(
+    spec: TopologySpec | string,
+    options?: ApplyTopologyOptions
+  ): Promise<TopologyResult> {
+    return applyTopology(
+      this._contexts[0].entityManager,
+      (topicName: string, subscriptionName: string) =>
+        this.createSubscriptionClient(topicName, subscriptionName),
+      spec,
+      options
+    );
+  }
+
+  /**
+   * Checks the health of the Namespace without sending or receiving messages, e.g. for a
+   * readiness probe. It opens (or verifies) every AMQP connection. If an entity is provided then
+   * it also negotiates the CBS claim for the entity and optionally makes a round trip to the
+   * `$management` endpoint of the entity, on the connection to which the clients for the entity
+   * are assigned (the first connection for the round robin strategy). The steps that follow a
+   * failed step are not performed.
+   * @param {string} [entityPath] The path of the queue, topic or subscription (in the form
+   * `"<topic-name>/Subscriptions/<subscription-name>"`) for which the claim is negotiated.
+   * @param {HealthCheckOptions} [options] The options that can be provided while checking the
+   * health. The timeout and the abort signal apply to every step.
+   * @returns {Promise<HealthCheckResult>} Promise<HealthCheckResult> The outcome of every step.
+   * It is never rejected due to a failed step.
+   */
+  async checkHealth(entityPath?: string, options?: HealthCheckOptions): Promise<HealthCheckResult> {
+    if (entityPath != undefined && (!entityPath || typeof entityPath !== "string")) {
+      throw new Error("'entityPath' must be of type 'string'.");
+    }
+    if (!options) options = {};
+    const start = Date.now();
+    const result: HealthCheckResult = {
+      healthy: false,
+      entityPath: entityPath,
+      latencyInMs: 0,
+      steps: []
+    };
+    let index = 0;
+    if (entityPath && this._connectionPoolStrategy === ConnectionPoolStrategy.entityHash) {
+      index = getHashCode(entityPath) % this._contexts.length;
+    }
+    const probes = this._contexts.map(
+      (context: ConnectionContext) => new HealthProbe(context, entityPath, options)
+    );
+    for (const probe of probes) {
+      result.steps.push(await probe.checkConnection());
+    }
+    let healthy = result.steps.every((step) => step.succeeded);
+    if (healthy && entityPath) {
+      const claimResult = await probes[index].checkClaim();
+      if (claimResult.token) {
+        result.tokenExpiresOn = new Date(claimResult.token.expiry * 1000);
+      }
+      delete claimResult.token;
+      result.steps.push(claimResult);
+      healthy = claimResult.succeeded;
+      if (healthy && options.includeManagement) {
+        const managementResult = await probes[index].checkManagement();
+        result.steps.push(managementResult);
+        healthy = managementResult.succeeded;
+      }
+    }
+    result.healthy = healthy;
+    result.latencyInMs = Date.now() - start;
+    log.ns("Health check result: %O", result);
+    return result;
+  }
+
+  /**
+   * Updates the credentials of the Namespace, e.g. after the SAS key has been rotated. The token
+   * provider is swapped on every AMQP connection and the claims of all the open senders,
+   * receivers, message sessions and `$management` links are negotiated again right away, without
+   * detaching the links. Hence the locks on the messages and sessions are not lost.
+   * @param {TokenProvider | string} credentials The token provider or the connection string
+   * (for the same Service Bus namespace) that provides the new credentials.
+   * @returns {Promise<void>} Promise<void> It is rejected with the first error that occurred
+   * while renewing the claims, after attempting to renew the claims of all the links.
+   */
+  async updateCredentials(credentials: TokenProvider | string): Promise<void> {
+    let tokenProvider: TokenProvider;
+    if (typeof credentials === "string") {
+      const config = ConnectionConfig.create(credentials);
+      if (config.host !== this._contexts[0].config.host) {
+        throw new Error(
+          `The connection string must be for the namespace '${this._contexts[0].config.host}'.`
+        );
+      }
+      tokenProvider = new SasTokenProvider(
+        config.endpoint,
+        config.sharedAccessKeyName,
+        config.sharedAccessKey
+      );
+    } else if (credentials && typeof credentials.getToken === "function") {
+      tokenProvider = credentials;
+    } else {
+      throw new Error(
+        "'credentials' is a required parameter and must be a connection string or a " +
+          "TokenProvider."
+      );
+    }
+    let renewError: Error | undefined;
+    for (const context of this._contexts) {
+      // The token provider is read every time a claim is negotiated, hence swapping it is enough
+      // for the token renewals that are yet to happen.
+      context.tokenProvider = tokenProvider;
+      log.ns("[%s] Updated the token provider of the connection.", context.connectionId);
+      for (const id of Object.keys(context.clients)) {
+        try {
+          await context.clients[id].renewClaims();
+        } catch (err) {
+          if (!renewError) renewError = err;
+        }
+      }
+    }
+    if (renewError) {
+      throw renewError;
+    }
+  }
+
+  /**
+   * Closes the namespace, the AMQP connections and all the entities on these connections.
+   * @param {CloseOptions} [options] The options that can be provided while closing the namespace.
+   * Provide `drainTimeoutInMs` to wait for the messages that are being processed or sent by all
+   * the clients.
+   * @returns {Promise<DrainResult[]>} Promise<DrainResult[]> The operations of every client that
+   * were still in progress when the links were closed.
+   */
+  async close(options?: CloseOptions): Promise<DrainResult[]> {
+    if (!options) options = {};
+    // Drain all the clients together, so that they share the same drain timeout.
+    const clients: Client[] = [];
+    for (const context of this._contexts) {
+      for (const id of Object.keys(context.clients)) {
+        clients.push(context.clients[id]);
+      }
+    }
+    const drainTimeoutInMs = options.drainTimeoutInMs;
+    const drainResults = await Promise.all(
+      clients.map((client: Client) => client.drain(drainTimeoutInMs))
+    );
+    // Attempt to close every connection, even if closing one of them fails.
+    let closeError: Error | undefined;
+    for (const context of this._contexts) {
+      context.circuitBreaker.reset();
+      context.failedReconnects = 0;
+      try {
+        await this._closeConnection(context);
+      } catch (err) {
+        if (!closeError) closeError = err;
+      }
+    }
+    if (closeError) {
+      throw closeError;
+    }
+    return drainResults;
+  }
+
+  /**
+   * Closes the AMQP connection of the given connection context and all the entities on it.
+   * @param {ConnectionContext} context The connection context to be closed.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _closeConnection(context: ConnectionContext): Promise<void> {
     try {
-      if (this._context.connection.isOpen()) {
+      if (context.connection.isOpen()) {
         // Close all the senders.
-        for (const id of Object.keys(this._context.clients)) {
-          const client = this._context.clients[id];
+        for (const id of Object.keys(context.clients)) {
+          const client = context.clients[id];
           await client.close();
         }
-        await this._context.cbsSession.close();
+        await context.transactionCoordinator.close();
+        await context.cbsSession.close();
 
         // Close management sessions
-        for (const id of Object.keys(this._context.clients)) {
-          const client = this._context.clients[id];
+        for (const id of Object.keys(context.clients)) {
+          const client = context.clients[id];
           await (client as any)._context.managementClient.close();
         }
 
-        await this._context.connection.close();
-        this._context.wasConnectionCloseCalled = true;
-        log.ns("Closed the amqp connection '%s' on the client.", this._context.connectionId);
+        await context.connection.close();
+        context.wasConnectionCloseCalled = true;
+        log.ns("Closed the amqp connection '%s' on the client.", context.connectionId);
       }
     } catch (err) {
       const msg =
         `An error occurred while closing the connection ` +
-        `"${this._context.connectionId}": ${err ? err.stack : JSON.stringify(err)}`;
+        `"${context.connectionId}": ${err ? err.stack : JSON.stringify(err)}`;
       log.error(msg);
       throw new Error(msg);
     }
   }
 
+  /**
+   * Gets the connection context to which a client for the given entity should be assigned, as
+   * per the connection pool strategy.
+   * @param {string} entityPath The path of the entity for which the client is being created.
+   * @returns {ConnectionContext} ConnectionContext.
+   * @private
+   */
+  private _getContext(entityPath: string): ConnectionContext {
+    let index = 0;
+    if (this._contexts.length > 1) {
+      if (this._connectionPoolStrategy === ConnectionPoolStrategy.entityHash) {
+        index = getHashCode(entityPath) % this._contexts.length;
+      } else {
+        index = this._nextContextIndex;
+        this._nextContextIndex = (this._nextContextIndex + 1) % this._contexts.length;
+      }
+    }
+    log.ns(
+      "Assigning the client for entity '%s' to the connection '%s'.",
+      entityPath,
+      this._contexts[index].connectionId
+    );
+    return this._contexts[index];
+  }
+
   /**
    * Creates a Namespace from connection string.
    * @param {string} connectionString - Connection string of the form
@@ -262,3 +707,17 @@ export class Namespace {
     return `${topicName}/Subscriptions/${subscriptionName}/$DeadLetterQueue`;
   }
 }
+
+/**
+ * Computes a non-negative hash code of the given string.
+ * @ignore
+ * @param {string} value The string to be hashed.
+ * @returns {number} The hash code.
+ */
+function getHashCode(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
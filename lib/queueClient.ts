@@ -3,9 +3,18 @@
 
 import * as Long from "long";
 import * as log from "./log";
-import { Delivery } from "rhea-promise";
 import { ConnectionContext } from "./connectionContext";
 import { MessageSender } from "./core/messageSender";
+import {
+  MessageBatch,
+  CreateBatchOptions,
+  SendOptions,
+  SendBatchOptions,
+  SendBatchResult
+} from "./core/messageBatch";
+import { SendResult } from "./core/sendResult";
+import { BufferedSender, BufferedSenderOptions } from "./core/bufferedSender";
+import { IdempotencyOptions, normalizeIdempotencyOptions } from "./core/idempotency";
 import { StreamingReceiver, ReceiveHandler, MessageHandlerOptions } from "./core/streamingReceiver";
 import { BatchingReceiver } from "./core/batchingReceiver";
 import {
@@ -14,7 +23,9 @@ import {
   ReceivedMessageInfo,
   ReceiveMode
 } from "./serviceBusMessage";
-import { Client } from "./client";
+import { OperationOptions } from "./util/abort";
+import { EntityRuntimeInfo } from "./management/runtimeInfo";
+import { Client, CloseOptions, DrainResult } from "./client";
 import { ReceiveOptions, OnError, OnMessage } from "./core/messageReceiver";
 import { ScheduleMessage, ListSessionsResponse } from "./core/managementClient";
 import {
@@ -35,6 +46,22 @@ export interface QueueClientOptions {
    * Default: ReceiveMode.peekLock
    */
   receiveMode?: ReceiveMode;
+  /**
+   * @property {boolean | IdempotencyOptions} [idempotency] Enables the idempotency mode, in
+   * which the `messageId` of every message that does not have one is derived from a business key
+   * or from the content of the message before the first attempt to send it. Sending the message
+   * again then reuses the same `messageId`, so that a Queue with duplicate detection enabled
+   * discards the duplicate. Provide `true` to derive it from the content. Default: `false`.
+   */
+  idempotency?: boolean | IdempotencyOptions;
+  /**
+   * @property {string} [viaEntityPath] The name/path of the transfer entity via which the
+   * messages are sent to the Queue, e.g. the entity the messages of a transaction are received
+   * from. Sending via that entity makes it possible to send to the Queue in the scope of a
+   * transaction that spans both entities. The messages are transferred to the Queue once they
+   * are accepted by the transfer entity; see `viaPartitionKey` of the messages.
+   */
+  viaEntityPath?: string;
 }
 
 export class QueueClient extends Client {
@@ -56,14 +83,27 @@ export class QueueClient extends Client {
     super(name, context);
     if (!options) options = {};
     this.receiveMode = options.receiveMode || ReceiveMode.peekLock;
+    this._context.idempotency = normalizeIdempotencyOptions(options.idempotency);
+    if (
+      options.viaEntityPath != undefined &&
+      (typeof options.viaEntityPath !== "string" || !options.viaEntityPath)
+    ) {
+      throw new Error("'viaEntityPath' must be of type 'string' with a non-empty value.");
+    }
+    this._context.viaEntityPath = options.viaEntityPath;
   }
 
   /**
    * Closes the AMQP connection to the ServiceBus Queue for this client,
    * returning a promise that will be resolved when disconnection is completed.
-   * @returns {Promise<any>}
+   * @param {CloseOptions} [options] The options that can be provided while closing the client.
+   * Provide `drainTimeoutInMs` to wait for the messages that are being processed or sent.
+   * @returns {Promise<DrainResult>} Promise<DrainResult> The operations that were still in
+   * progress when the links were closed.
    */
-  async close(): Promise<any> {
+  async close(options?: CloseOptions): Promise<DrainResult> {
+    if (!options) options = {};
+    const drainResult = await this.drain(options.drainTimeoutInMs);
     try {
       if (this._context.namespace.connection && this._context.namespace.connection.isOpen()) {
         const connectionId = this._context.namespace.connectionId;
@@ -118,6 +158,7 @@ export class QueueClient extends Client {
       log.error(msg);
       throw new Error(msg);
     }
+    return drainResult;
   }
 
   /**
@@ -128,12 +169,39 @@ export class QueueClient extends Client {
    * of the message.
    * For more information please see {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-partitioning#use-of-partition-keys Use of partition keys}
    *
-   * @param data - Message to send.  Will be sent as UTF8-encoded JSON string.
-   * @returns Promise<Delivery>
+   * @param data - Message to send.  Will be sent as UTF8-encoded JSON string. A MessageBatch
+   * that was created with `createBatch()` is sent as a single batch message.
+   * @param [options] - The options to bound or cancel the operation, and to send the message in
+   * the scope of a transaction.
+   * @returns Promise<SendResult> The SendResult once the message is accepted. If the message is
+   * not accepted then the error has a `sendResult` property with the outcome.
    */
-  async send(data: SendableMessageInfo): Promise<Delivery> {
+  async send(data: SendableMessageInfo | MessageBatch, options?: SendOptions): Promise<SendResult> {
+    const sender = MessageSender.create(this._context);
+    return sender.send(data, options);
+  }
+
+  /**
+   * Creates an empty MessageBatch, that is filled with `tryAdd()` up to the maximum message size
+   * of the link to the ServiceBus Queue, and sent with `send()`. The link is opened if it is not
+   * open.
+   * @param [options] - The options that can be provided while creating the batch.
+   * @returns Promise<MessageBatch>
+   */
+  async createBatch(options?: CreateBatchOptions): Promise<MessageBatch> {
+    if (!options) options = {};
     const sender = MessageSender.create(this._context);
-    return sender.send(data);
+    return sender.createBatch(options.maxSizeInBytes);
+  }
+
+  /**
+   * Creates a BufferedSender, that sends the messages that are added to it to the ServiceBus
+   * Queue in the background, grouped into batch messages. Close it before closing the client.
+   * @param [options] - The options that can be provided while creating the BufferedSender.
+   * @returns BufferedSender
+   */
+  createBufferedSender(options?: BufferedSenderOptions): BufferedSender {
+    return new BufferedSender(this._context, options);
   }
 
   /**
@@ -147,11 +215,26 @@ export class QueueClient extends Client {
    * For more information please see {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-partitioning#use-of-partition-keys Use of partition keys}
    *
    * @param datas - An array of SendableMessageInfo objects to be sent in a Batch message.
-   * @return Promise<Delivery>
+   * @param [options] - The options to bound or cancel the operation, and to send the messages in
+   * the scope of a transaction. Provide `split` to split the messages into as many batch messages
+   * as needed (see `SendBatchOptions`), in which case an aggregate SendBatchResult is returned
+   * instead of the SendResult.
+   * @return Promise<SendResult | SendBatchResult>
    */
-  async sendBatch(datas: SendableMessageInfo[]): Promise<Delivery> {
+  sendBatch(
+    datas: SendableMessageInfo[],
+    options: SendBatchOptions & { split: true }
+  ): Promise<SendBatchResult>;
+  sendBatch(datas: SendableMessageInfo[], options?: SendOptions): Promise<SendResult>;
+  async sendBatch(
+    datas: SendableMessageInfo[],
+    options?: SendBatchOptions
+  ): Promise<SendResult | SendBatchResult> {
     const sender = MessageSender.create(this._context);
-    return sender.sendBatch(datas);
+    if (options && options.split) {
+      return sender.sendSplitBatches(datas, options);
+    }
+    return sender.sendBatch(datas, options);
   }
 
   /**
@@ -198,12 +281,15 @@ export class QueueClient extends Client {
    * in that time frame then the batch receive operation ends. It is advised to keep this value at
    * 10% of the lockDuration value.
    * - **Default**: `2` seconds.
+   * @param [options] The options to bound or cancel the operation. When the operation is
+   * cancelled, the messages that were received so far are not returned.
    * @returns Promise<ServiceBusMessage[]> A promise that resolves with an array of Message objects.
    */
   async receiveBatch(
     maxMessageCount: number,
     maxWaitTimeInSeconds?: number,
-    maxMessageWaitTimeoutInSeconds?: number
+    maxMessageWaitTimeoutInSeconds?: number,
+    options?: OperationOptions
   ): Promise<ServiceBusMessage[]> {
     let bReceiver = this._context.batchingReceiver;
     if (bReceiver && bReceiver.isOpen() && bReceiver.isReceivingMessages) {
@@ -218,18 +304,22 @@ export class QueueClient extends Client {
     }
 
     if (!bReceiver || !bReceiver.isOpen()) {
-      const options: ReceiveOptions = {
+      const rcvOptions: ReceiveOptions = {
         maxConcurrentCalls: 0,
         receiveMode: this.receiveMode
       };
-      this._context.batchingReceiver = bReceiver = BatchingReceiver.create(this._context, options);
+      this._context.batchingReceiver = bReceiver = BatchingReceiver.create(
+        this._context,
+        rcvOptions
+      );
     }
 
     try {
       return await bReceiver.receive(
         maxMessageCount,
         maxWaitTimeInSeconds,
-        maxMessageWaitTimeoutInSeconds
+        maxMessageWaitTimeoutInSeconds,
+        options
       );
     } catch (err) {
       log.error(
@@ -262,10 +352,11 @@ export class QueueClient extends Client {
    * state of the log.
    *
    * @param [messageCount] The number of messages to retrieve. Default value `1`.
+   * @param [options] The options to bound or cancel the operation.
    * @returns Promise<ReceivedSBMessage[]>
    */
-  async peek(messageCount?: number): Promise<ReceivedMessageInfo[]> {
-    return this._context.managementClient!.peek(messageCount);
+  async peek(messageCount?: number, options?: OperationOptions): Promise<ReceivedMessageInfo[]> {
+    return this._context.managementClient!.peek(messageCount, options);
   }
 
   /**
@@ -283,6 +374,18 @@ export class QueueClient extends Client {
     });
   }
 
+  /**
+   * Gets the runtime information of the queue, i.e. the counts of its active, dead-lettered,
+   * scheduled and transfer messages, its size and the times at which it was created, updated and
+   * accessed. It is retrieved over the REST API of the namespace, rather than over the AMQP
+   * connection.
+   * @param [options] The options to bound or cancel the operation.
+   * @returns Promise<EntityRuntimeInfo>
+   */
+  async getRuntimeInfo(options?: OperationOptions): Promise<EntityRuntimeInfo> {
+    return this._context.namespace.entityManager.getQueueRuntimeInfo(this.name, options);
+  }
+
   /**
    * Renews the lock on the message. The lock will be renewed based on the setting specified on
    * the queue.
@@ -341,6 +444,7 @@ export class QueueClient extends Client {
    *
    * @param scheduledEnqueueTimeUtc - The UTC time at which the message should be enqueued.
    * @param message - The message that needs to be scheduled.
+   * @param [options] - The options to bound or cancel the operation.
    * @returns Promise<Long> - The sequence number of the message that was
    * scheduled. Please save the `Long` type as-is in your application. Do not convert it to a
    * number as that may cause loss of precision, since JS only supports 53 bit numbers.
@@ -351,12 +455,16 @@ export class QueueClient extends Client {
    */
   async scheduleMessage(
     scheduledEnqueueTimeUtc: Date,
-    message: SendableMessageInfo
+    message: SendableMessageInfo,
+    options?: OperationOptions
   ): Promise<Long> {
     const scheduleMessages: ScheduleMessage[] = [
       { message: message, scheduledEnqueueTimeUtc: scheduledEnqueueTimeUtc }
     ];
-    const result = await this._context.managementClient!.scheduleMessages(scheduleMessages);
+    const result = await this._context.managementClient!.scheduleMessages(
+      scheduleMessages,
+      options
+    );
     return result[0];
   }
 
@@ -365,6 +473,7 @@ export class QueueClient extends Client {
    *
    * @param scheduledEnqueueTimeUtc - The UTC time at which the message should be enqueued.
    * @param messages - Array of Messages that need to be scheduled.
+   * @param [options] - The options to bound or cancel the operation.
    * @returns Promise<Long[]> - The sequence numbers of messages that were scheduled. Please
    * save the `Long` type as-is in your application. Do not convert it to a number as that may
    * cause loss of precision, since JS only supports 53 bit numbers. `Long` type provides methods
@@ -374,7 +483,8 @@ export class QueueClient extends Client {
    */
   async scheduleMessages(
     scheduledEnqueueTimeUtc: Date,
-    messages: SendableMessageInfo[]
+    messages: SendableMessageInfo[],
+    options?: OperationOptions
   ): Promise<Long[]> {
     const scheduleMessages: ScheduleMessage[] = messages.map((message) => {
       return {
@@ -382,7 +492,7 @@ export class QueueClient extends Client {
         scheduledEnqueueTimeUtc
       };
     });
-    return this._context.managementClient!.scheduleMessages(scheduleMessages);
+    return this._context.managementClient!.scheduleMessages(scheduleMessages, options);
   }
 
   /**
@@ -420,7 +530,8 @@ export class QueueClient extends Client {
 
   /**
    * Accept a new session on the ServiceBus Queue.
-   * @param options Optional parameters that can be provided while accepting sessions.
+   * @param options Optional parameters that can be provided while accepting sessions. Provide
+   * `timeoutInMs` or `abortSignal` to bound or cancel waiting for a session to be accepted.
    */
   async acceptSession(options?: AcceptSessionOptions): Promise<MessageSession> {
     if (!options) options = {};
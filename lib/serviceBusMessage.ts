@@ -12,6 +12,7 @@ import {
 import { Constants, Dictionary, AmqpMessage } from "@azure/amqp-common";
 import * as log from "./log";
 import { ClientEntityContext } from "./clientEntityContext";
+import { Transaction, SettleOptions } from "./core/transaction";
 
 /**
  * The mode in which messages should be received
@@ -109,7 +110,7 @@ export interface ServiceBusMessageAnnotations extends MessageAnnotations {
  * Describes the reason and error description for dead lettering a message.
  * @interface DeadLetterOptions
  */
-export interface DeadLetterOptions {
+export interface DeadLetterOptions extends SettleOptions {
   /**
    * @property {string} [deadletterReason] The reason for deadlettering the message.
    */
@@ -164,7 +165,8 @@ export interface SendableMessageInfo {
    * via a partitioned transfer queue. Maximum length is 128 characters. If a message is sent via a
    * transfer queue in the scope of a transaction, this value selects the transfer queue partition:
    * This is functionally equivalent to `partitionKey` property and ensures that messages are kept
-   * together and in order as they are transferred.
+   * together and in order as they are transferred. It defaults to the `sessionId`, or else to the
+   * `partitionKey`, of a message that is sent by a client created with the `viaEntityPath` option.
    * See {@link https://docs.microsoft.com/azure/service-bus-messaging/service-bus-transactions#transfers-and-send-via Transfers and Send Via}.
    */
   viaPartitionKey?: string;
@@ -653,17 +655,21 @@ export module ReceivedMessageInfo {
 export interface ReceivedMessage extends ReceivedMessageInfo {
   /**
    * Completes a message using its lock token. This will delete the message from ServiceBus.
+   * @param {SettleOptions} [options] The options to complete the message in the scope of a
+   * transaction.
    * @returns Promise<void>.
    */
-  complete(): Promise<void>;
+  complete(options?: SettleOptions): Promise<void>;
   /**
    * Abandons a message using its lock token. This will make the message available again for
    * processing.
    * @param {Dictionary<any>} [propertiesToModify] The properties of the message to modify while
    * abandoning the message. Abandoning a message will increase the delivery count on the message.
+   * @param {SettleOptions} [options] The options to abandon the message in the scope of a
+   * transaction.
    * @return Promise<void>.
    */
-  abandon(propertiesToModify?: Dictionary<any>): Promise<void>;
+  abandon(propertiesToModify?: Dictionary<any>, options?: SettleOptions): Promise<void>;
   /**
    * Indicates that the receiver wants to defer the processing for the message. In order to receive
    * this message again in the future, you will need to save the `sequenceNumber` and receive it
@@ -671,13 +677,15 @@ export interface ReceivedMessage extends ReceivedMessageInfo {
    * message's expiration, meaning that deferred messages can still expire.
    * @param {Dictionary<any>} [propertiesToModify] The properties of the message to modify while
    * deferring the message
+   * @param {SettleOptions} [options] The options to defer the message in the scope of a
+   * transaction.
    * @return Promise<void>.
    */
-  defer(propertiesToModify?: Dictionary<any>): Promise<void>;
+  defer(propertiesToModify?: Dictionary<any>, options?: SettleOptions): Promise<void>;
   /**
    * Moves the message to the deadletter sub-queue.
    * @param {DeadLetterOptions} [options] The DeadLetter options that can be provided while rejecting
-   * the message.
+   * the message, including the transaction in the scope of which it is deadlettered.
    * @returns Promise<void>
    */
   deadLetter(options?: DeadLetterOptions): Promise<void>;
@@ -882,14 +890,17 @@ export class ServiceBusMessage implements ReceivedMessage {
 
   /**
    * Completes a message using it's lock token. This will delete the message from ServiceBus.
+   * @param [options] The options to complete the message in the scope of a transaction.
    * @returns Promise<void>.
    */
-  async complete(): Promise<void> {
+  async complete(options?: SettleOptions): Promise<void> {
     log.message(
       "[%s] Completing the message with id '%s'.",
       this._context.namespace.connectionId,
       this.messageId
     );
+    const transaction = options && options.transaction;
+    if (transaction) this._throwIfNotSettleableIn(transaction);
     if (this._context.requestResponseLockedMessages.has(this.lockToken!)) {
       await this._context.managementClient!.updateDispositionStatus(
         [this.lockToken!],
@@ -908,7 +919,7 @@ export class ServiceBusMessage implements ReceivedMessage {
       if (this.delivery.remote_settled) {
         throw new Error("This message has been already settled.");
       }
-      return receiver.settleMessage(this, DispositionType.complete);
+      return receiver.settleMessage(this, DispositionType.complete, { transaction: transaction });
     } else {
       throw new Error(`Cannot find the receiver with name '${this.delivery.link.name}'.`);
     }
@@ -918,15 +929,18 @@ export class ServiceBusMessage implements ReceivedMessage {
    * processing.
    * @param {Dictionary<any>} propertiesToModify The properties of the message to modify while
    * abandoning the message. Abandoning a message will increase the delivery count on the message.
+   * @param [options] The options to abandon the message in the scope of a transaction.
    * @return Promise<void>.
    */
-  async abandon(propertiesToModify?: Dictionary<any>): Promise<void> {
+  async abandon(propertiesToModify?: Dictionary<any>, options?: SettleOptions): Promise<void> {
     // TODO: Figure out a mechanism to convert specified properties to message_annotations.
     log.message(
       "[%s] Abandoning the message with id '%s'.",
       this._context.namespace.connectionId,
       this.messageId
     );
+    const transaction = options && options.transaction;
+    if (transaction) this._throwIfNotSettleableIn(transaction);
     if (this._context.requestResponseLockedMessages.has(this.lockToken!)) {
       await this._context.managementClient!.updateDispositionStatus(
         [this.lockToken!],
@@ -947,7 +961,8 @@ export class ServiceBusMessage implements ReceivedMessage {
         throw new Error("This message has been already settled.");
       }
       return receiver.settleMessage(this, DispositionType.abandon, {
-        propertiesToModify: propertiesToModify
+        propertiesToModify: propertiesToModify,
+        transaction: transaction
       });
     } else {
       throw new Error(`Cannot find the receiver with name '${this.delivery.link.name}'.`);
@@ -961,14 +976,17 @@ export class ServiceBusMessage implements ReceivedMessage {
    * expiration, meaning that deferred messages can still expire.
    * @param [propertiesToModify] The properties of the message to modify while
    * deferring the message
+   * @param [options] The options to defer the message in the scope of a transaction.
    * @returns Promise<void>
    */
-  async defer(propertiesToModify?: Dictionary<any>): Promise<void> {
+  async defer(propertiesToModify?: Dictionary<any>, options?: SettleOptions): Promise<void> {
     log.message(
       "[%s] Deferring the message with id '%s'.",
       this._context.namespace.connectionId,
       this.messageId
     );
+    const transaction = options && options.transaction;
+    if (transaction) this._throwIfNotSettleableIn(transaction);
     if (this._context.requestResponseLockedMessages.has(this.lockToken!)) {
       await this._context.managementClient!.updateDispositionStatus(
         [this.lockToken!],
@@ -989,7 +1007,8 @@ export class ServiceBusMessage implements ReceivedMessage {
         throw new Error("This message has been already settled.");
       }
       return receiver.settleMessage(this, DispositionType.defer, {
-        propertiesToModify: propertiesToModify
+        propertiesToModify: propertiesToModify,
+        transaction: transaction
       });
     } else {
       throw new Error(`Cannot find the receiver with name '${this.delivery.link.name}'.`);
@@ -999,7 +1018,7 @@ export class ServiceBusMessage implements ReceivedMessage {
   /**
    * Moves the message to the deadletter sub-queue.
    * @param [options] The DeadLetter options that can be provided while
-   * rejecting the message.
+   * rejecting the message, including the transaction in the scope of which it is deadlettered.
    * @returns Promise<void>
    */
   async deadLetter(options?: DeadLetterOptions): Promise<void> {
@@ -1017,6 +1036,8 @@ export class ServiceBusMessage implements ReceivedMessage {
       this._context.namespace.connectionId,
       this.messageId
     );
+    const transaction = options && options.transaction;
+    if (transaction) this._throwIfNotSettleableIn(transaction);
     if (this._context.requestResponseLockedMessages.has(this.lockToken!)) {
       await this._context.managementClient!.updateDispositionStatus(
         [this.lockToken!],
@@ -1040,7 +1061,8 @@ export class ServiceBusMessage implements ReceivedMessage {
         throw new Error("This message has been already settled.");
       }
       return receiver.settleMessage(this, DispositionType.deadletter, {
-        error: error
+        error: error,
+        transaction: transaction
       });
     } else {
       throw new Error(`Cannot find the receiver with name '${this.delivery.link.name}'.`);
@@ -1072,4 +1094,15 @@ export class ServiceBusMessage implements ReceivedMessage {
 
     return clone;
   }
+
+  /**
+   * Throws an error if the message can not be settled in the scope of the given transaction. A
+   * deferred message is settled through the $management endpoint, which is not transactional.
+   */
+  private _throwIfNotSettleableIn(transaction: Transaction): void {
+    transaction.throwIfNotUsable(this._context.namespace);
+    if (this._context.requestResponseLockedMessages.has(this.lockToken!)) {
+      throw new Error("A deferred message can not be settled in the scope of a transaction.");
+    }
+  }
 }
@@ -26,6 +26,14 @@ import {
   ReceiveMode
 } from "../serviceBusMessage";
 import { messageDispositionTimeout } from "../util/constants";
+import { withTransaction } from "../core/transaction";
+import { PendingOperations } from "../util/pendingOperations";
+import {
+  OperationOptions,
+  OperationCancellation,
+  AbortSignalLike,
+  runOperation
+} from "../util/abort";
 
 export enum Callee {
   standalone = "standalone",
@@ -75,7 +83,7 @@ export interface MessageSessionOptionsBase {
 /**
  * Describes the options that can be provided while accepting a message session (user creating it).
  */
-export interface AcceptSessionOptions extends MessageSessionOptionsBase {
+export interface AcceptSessionOptions extends MessageSessionOptionsBase, OperationOptions {
   /**
    * @property {string} [sessionId] The sessionId for the message session.
    */
@@ -116,6 +124,12 @@ export interface SessionHandlerOptions extends MessageSessionOptionsBase {
    * time frame then the session will be closed.
    */
   maxMessageWaitTimeoutInSeconds?: number;
+  /**
+   * @property {AbortSignalLike} [abortSignal] The signal to stop receiving messages from sessions.
+   * When it is aborted, no more sessions are accepted and the pending requests to accept a
+   * session are cancelled.
+   */
+  abortSignal?: AbortSignalLike;
 }
 
 /**
@@ -247,6 +261,16 @@ export class MessageSession extends LinkEntity {
    * `maxMessageWaitTimeoutInSeconds` seconds.
    */
   private _newMessageReceivedTimer?: NodeJS.Timer;
+  /**
+   * @property {PendingOperations} _pendingMessageHandlers The message handlers (including the
+   * auto completion of the message) that are in progress.
+   */
+  private _pendingMessageHandlers: PendingOperations = new PendingOperations();
+  /**
+   * @property {boolean} _isDraining Indicates whether the session is being drained before it is
+   * closed. No more credit is added and new messages are not passed to the message handler.
+   */
+  private _isDraining: boolean = false;
 
   private _isReceivingMessages: boolean;
   private _totalAutoLockRenewDuration: number;
@@ -526,7 +550,7 @@ export class MessageSession extends LinkEntity {
     this._onError = onError;
     const connectionId = this._context.namespace.connectionId;
     if (this._receiver && this._receiver.isOpen()) {
-      const onSessionMessage = async (context: EventContext) => {
+      const processMessage = async (context: EventContext) => {
         this._resetTimerOnNewMessageReceived();
         const bMessage: ServiceBusMessage = new ServiceBusMessage(
           this._context,
@@ -597,11 +621,24 @@ export class MessageSession extends LinkEntity {
           }
         }
       };
+      const onSessionMessage = async (context: EventContext) => {
+        if (this._isDraining && this.receiveMode === ReceiveMode.peekLock) {
+          // The message has not been settled yet. Release it, so that it can be received again.
+          log.messageSession(
+            "[%s] MessageSession '%s' is being drained. Hence releasing the received message.",
+            connectionId,
+            this.name
+          );
+          context.delivery!.release();
+          return;
+        }
+        this._topUpCredit();
+        await this._pendingMessageHandlers.track(processMessage(context));
+      };
       // setting the "message" event listener.
       this._receiver.on(ReceiverEvents.message, onSessionMessage);
       // adding credit
-      this._receiver!.setCreditWindow(this.maxConcurrentCallsPerSession);
-      this._receiver!.addCredit(this.maxConcurrentCallsPerSession);
+      this._topUpCredit();
     } else {
       this._isReceivingMessages = false;
       const msg =
@@ -612,6 +649,27 @@ export class MessageSession extends LinkEntity {
     }
   }
 
+  /**
+   * Stops adding credit to the receiver link and waits for the message handlers that are in
+   * progress to complete. Messages that are received after this, in `PeekLock` mode, are
+   * released instead of being passed to the message handler.
+   * @ignore
+   * @param {number} timeoutInMs The maximum amount of time to wait for the message handlers.
+   * @returns {Promise<number>} Promise<number> The number of message handlers that were still
+   * in progress when the timeout occurred.
+   */
+  async drain(timeoutInMs: number): Promise<number> {
+    this._isDraining = true;
+    log.messageSession(
+      "[%s] MessageSession '%s' is waiting for %d message handler(s) to complete.",
+      this._context.namespace.connectionId,
+      this.name,
+      this._pendingMessageHandlers.count
+    );
+    await this._pendingMessageHandlers.waitForAll(timeoutInMs);
+    return this._pendingMessageHandlers.count;
+  }
+
   /**
    * Receive a batch of Message objects from a ServiceBus Queue/Topic for a given count and
    * a given max wait time in seconds, whichever happens first. This method can be used directly
@@ -789,22 +847,24 @@ export class MessageSession extends LinkEntity {
         reject: reject,
         timer: timer
       });
+      // In the scope of a transaction, the outcome is wrapped into the transactional state.
+      const settlement = withTransaction(delivery, options.transaction);
       if (operation === DispositionType.complete) {
-        delivery.accept();
+        settlement.accept();
       } else if (operation === DispositionType.abandon) {
         const params: any = {
           undeliverable_here: false
         };
         if (options.propertiesToModify) params.message_annotations = options.propertiesToModify;
-        delivery.modified(params);
+        settlement.modified(params);
       } else if (operation === DispositionType.defer) {
         const params: any = {
           undeliverable_here: true
         };
         if (options.propertiesToModify) params.message_annotations = options.propertiesToModify;
-        delivery.modified(params);
+        settlement.modified(params);
       } else if (operation === DispositionType.deadletter) {
-        delivery.reject(options.error || {});
+        settlement.reject(options.error || {});
       }
     });
   }
@@ -1130,6 +1190,18 @@ export class MessageSession extends LinkEntity {
     }
   }
 
+  /**
+   * Adds credit to the receiver link, so that up to `maxConcurrentCallsPerSession` messages can
+   * be received at a time, unless the session is being drained.
+   */
+  private _topUpCredit(): void {
+    if (this._isDraining || !this._receiver || !this.maxConcurrentCallsPerSession) return;
+    const credit = this.maxConcurrentCallsPerSession - this._receiver.credit;
+    if (credit > 0 && credit >= this.maxConcurrentCallsPerSession / 4) {
+      this._receiver.addCredit(credit);
+    }
+  }
+
   /**
    * Resets the timer when a new message is received. It will close the receiver gracefully, if no
    * messages were received for the configured maxMessageWaitTimeoutInSeconds
@@ -1160,14 +1232,31 @@ export class MessageSession extends LinkEntity {
   /**
    * Creates a new instance of the MessageSession based on the provided parameters.
    * @param context The client entity context
-   * @param options Options that can be provided while creating the MessageSession.
+   * @param options Options that can be provided while creating the MessageSession. The
+   * `timeoutInMs` and the `abortSignal` bound or cancel the creation of the receiver link.
    */
   static async create(
     context: ClientEntityContext,
     options?: MessageSessionOptions
   ): Promise<MessageSession> {
     const messageSession = new MessageSession(context, options);
-    await messageSession._init();
+    await runOperation("acceptSession", options, (cancellation: OperationCancellation) => {
+      const initPromise = messageSession._init();
+      cancellation.onCancel(() => {
+        // The receiver link may still be created after the operation has been cancelled.
+        initPromise
+          .then(() => messageSession.close())
+          .catch((err) => {
+            log.error(
+              "[%s] An error occurred while closing the cancelled MessageSession '%s': %O",
+              context.namespace.connectionId,
+              messageSession.name,
+              err
+            );
+          });
+      });
+      return initPromise;
+    });
     return messageSession;
   }
 }
@@ -8,6 +8,8 @@ import { getProcessorCount } from "../util/utils";
 import * as log from "../log";
 import { Semaphore } from "../util/semaphore";
 import { delay, ConditionErrorNameMapper, Constants } from "@azure/amqp-common";
+import { AbortSignalLike } from "../util/abort";
+import { AbortError } from "../errors";
 
 export enum EntityType {
   queue = "Queue",
@@ -47,6 +49,8 @@ export class SessionManager {
   private _isCancelRequested: boolean = false;
   private _maxConcurrentSessionsSemaphore!: Semaphore;
   private _maxPendingAcceptSessionsSemaphore!: Semaphore;
+  private _abortSignal?: AbortSignalLike;
+  private _onAbort: () => void;
 
   /**
    * @property {ClientEntityContext} _context The client entity context.
@@ -57,6 +61,13 @@ export class SessionManager {
   constructor(context: ClientEntityContext) {
     this._context = context;
     this.maxConcurrentSessions = 2000;
+    this._onAbort = () => {
+      log.sessionManager(
+        "[%s] The abort signal has been aborted, hence stopping to accept sessions.",
+        this._context.namespace.connectionId
+      );
+      this.close();
+    };
   }
   /**
    * Manages MessageSessions based on the provided parameters.
@@ -78,9 +89,16 @@ export class SessionManager {
           `create a new one and receiveMessages from Sessions.`
       );
     }
+    if (!options) options = {};
+    if (options.abortSignal && options.abortSignal.aborted) {
+      throw new AbortError("The operation to receive messages from sessions has been cancelled.");
+    }
     this._isManagingSessions = true;
     this._isCancelRequested = false;
-    if (!options) options = {};
+    if (options.abortSignal) {
+      this._abortSignal = options.abortSignal;
+      this._abortSignal.addEventListener("abort", this._onAbort);
+    }
     if (options.maxConcurrentSessions) this.maxConcurrentSessions = options.maxConcurrentSessions;
     // We are explicitly configuring the messageSession to timeout in 60 seconds (if not provided
     // by the user) when no new messages are received.
@@ -105,6 +123,10 @@ export class SessionManager {
   close(): void {
     this._isCancelRequested = true;
     this._isManagingSessions = false;
+    if (this._abortSignal) {
+      this._abortSignal.removeEventListener("abort", this._onAbort);
+      this._abortSignal = undefined;
+    }
   }
 
   /**
@@ -120,9 +142,13 @@ export class SessionManager {
   ): Promise<void> {
     const connectionId = this._context.namespace.connectionId;
     const noActiveSessionBackOffInSeconds = 10;
+    const abortSignal = options && options.abortSignal;
     while (!this._isCancelRequested) {
+      let hasConcurrentSessionsLock = false;
+      let hasPendingAcceptSessionsLock = false;
       try {
-        await this._maxConcurrentSessionsSemaphore.acquire();
+        await this._maxConcurrentSessionsSemaphore.acquire(abortSignal);
+        hasConcurrentSessionsLock = true;
         log.sessionManager(
           "[%s] Acquired the semaphore for max concurrent sessions: %d, %d.",
           connectionId,
@@ -130,7 +156,8 @@ export class SessionManager {
           this._maxConcurrentSessionsSemaphore.awaitedTaskCount()
         );
 
-        await this._maxPendingAcceptSessionsSemaphore.acquire();
+        await this._maxPendingAcceptSessionsSemaphore.acquire(abortSignal);
+        hasPendingAcceptSessionsLock = true;
         log.sessionManager(
           "[%s] Acquired the semaphore for max pending accept sessions: %d, %d.",
           connectionId,
@@ -172,6 +199,7 @@ export class SessionManager {
             messageSession.sessionId
           );
           await closeMessageSession(messageSession);
+          continue;
         }
         const sessionId = messageSession.sessionId;
         this._context.messageSessions[sessionId as string] = messageSession;
@@ -193,14 +221,21 @@ export class SessionManager {
         messageSession.receive(onSessionMessage, onSessionError, options);
       } catch (err) {
         log.error("[%s] An error occurred while accepting a MessageSession: %O", connectionId, err);
-        this._maxConcurrentSessionsSemaphore.release();
-        log.sessionManager(
-          "[%s] Releasing the semaphore for max concurrent sessions " +
-            "because an error ocurred: %d, %d.",
-          connectionId,
-          this._maxConcurrentSessionsSemaphore.currentLockCount(),
-          this._maxConcurrentSessionsSemaphore.awaitedTaskCount()
-        );
+        if (hasConcurrentSessionsLock) {
+          this._maxConcurrentSessionsSemaphore.release();
+          log.sessionManager(
+            "[%s] Releasing the semaphore for max concurrent sessions " +
+              "because an error ocurred: %d, %d.",
+            connectionId,
+            this._maxConcurrentSessionsSemaphore.currentLockCount(),
+            this._maxConcurrentSessionsSemaphore.awaitedTaskCount()
+          );
+        }
+        if (err.name === "AbortError") {
+          // The user has cancelled receiving messages from sessions. Hence there is nothing to
+          // notify the user about.
+          continue;
+        }
         // When we ask servicebus to give us a random session and if there are no active sessions,
         // ServiceBus initially sends the attach frame which causes rhea to emit "receiver_open"
         // event and thus rhea-promise resolves the promise. Moments later ServiceBus sends a
@@ -231,14 +266,16 @@ export class SessionManager {
           onError(err);
         }
       } finally {
-        this._maxPendingAcceptSessionsSemaphore.release();
-        log.sessionManager(
-          "[%s] Releasing the semaphore for max pending accept sessions from " +
-            "the finally block: %d, %d.",
-          connectionId,
-          this._maxPendingAcceptSessionsSemaphore.currentLockCount(),
-          this._maxPendingAcceptSessionsSemaphore.awaitedTaskCount()
-        );
+        if (hasPendingAcceptSessionsLock) {
+          this._maxPendingAcceptSessionsSemaphore.release();
+          log.sessionManager(
+            "[%s] Releasing the semaphore for max pending accept sessions from " +
+              "the finally block: %d, %d.",
+            connectionId,
+            this._maxPendingAcceptSessionsSemaphore.currentLockCount(),
+            this._maxPendingAcceptSessionsSemaphore.awaitedTaskCount()
+          );
+        }
       }
     }
   }
@@ -7,8 +7,16 @@ import { ReceiveOptions, OnError, OnMessage } from "./core/messageReceiver";
 import { StreamingReceiver, ReceiveHandler, MessageHandlerOptions } from "./core/streamingReceiver";
 import { BatchingReceiver } from "./core/batchingReceiver";
 import { ServiceBusMessage, ReceivedMessageInfo, ReceiveMode } from "./serviceBusMessage";
-import { Client } from "./client";
-import { CorrelationFilter, RuleDescription, ListSessionsResponse } from "./core/managementClient";
+import { OperationOptions } from "./util/abort";
+import { EntityRuntimeInfo } from "./management/runtimeInfo";
+import { Client, CloseOptions, DrainResult } from "./client";
+import {
+  CorrelationFilter,
+  RuleDescription,
+  RuleDefinition,
+  RuleChanges,
+  ListSessionsResponse
+} from "./core/managementClient";
 import {
   MessageSession,
   AcceptSessionOptions,
@@ -16,6 +24,7 @@ import {
   OnSessionMessage
 } from "./session/messageSession";
 import { EntityType } from "./session/sessionManager";
+import { SqlFilterExpression } from "./filters/filterBuilder";
 
 /**
  * Describes the options that can be provided while creating the SubscriptionClient.
@@ -74,9 +83,14 @@ export class SubscriptionClient extends Client {
   /**
    * Closes the AMQP connection to the ServiceBus Subscription for this client,
    * returning a promise that will be resolved when disconnection is completed.
-   * @returns Promise<void>
+   * @param {CloseOptions} [options] The options that can be provided while closing the client.
+   * Provide `drainTimeoutInMs` to wait for the messages that are being processed or sent.
+   * @returns {Promise<DrainResult>} Promise<DrainResult> The operations that were still in
+   * progress when the links were closed.
    */
-  async close(): Promise<void> {
+  async close(options?: CloseOptions): Promise<DrainResult> {
+    if (!options) options = {};
+    const drainResult = await this.drain(options.drainTimeoutInMs);
     try {
       if (this._context.namespace.connection && this._context.namespace.connection.isOpen()) {
         // Close the streaming receiver.
@@ -96,6 +110,7 @@ export class SubscriptionClient extends Client {
       log.error(msg);
       throw new Error(msg);
     }
+    return drainResult;
   }
 
   /**
@@ -147,12 +162,15 @@ export class SubscriptionClient extends Client {
    * in that time frame then the batch receive operation ends. It is advised to keep this value at
    * 10% of the lockDuration value.
    * - **Default**: `2` seconds.
+   * @param [options] The options to bound or cancel the operation. When the operation is
+   * cancelled, the messages that were received so far are not returned.
    * @returns Promise<ServiceBusMessage[]> A promise that resolves with an array of Message objects.
    */
   async receiveBatch(
     maxMessageCount: number,
     maxWaitTimeInSeconds?: number,
-    maxMessageWaitTimeoutInSeconds?: number
+    maxMessageWaitTimeoutInSeconds?: number,
+    options?: OperationOptions
   ): Promise<ServiceBusMessage[]> {
     let bReceiver = this._context.batchingReceiver;
     if (bReceiver && bReceiver.isOpen() && bReceiver.isReceivingMessages) {
@@ -167,18 +185,22 @@ export class SubscriptionClient extends Client {
     }
 
     if (!bReceiver || !bReceiver.isOpen()) {
-      const options: ReceiveOptions = {
+      const rcvOptions: ReceiveOptions = {
         maxConcurrentCalls: 0,
         receiveMode: this.receiveMode
       };
-      this._context.batchingReceiver = bReceiver = BatchingReceiver.create(this._context, options);
+      this._context.batchingReceiver = bReceiver = BatchingReceiver.create(
+        this._context,
+        rcvOptions
+      );
     }
 
     try {
       return await bReceiver.receive(
         maxMessageCount,
         maxWaitTimeInSeconds,
-        maxMessageWaitTimeoutInSeconds
+        maxMessageWaitTimeoutInSeconds,
+        options
       );
     } catch (err) {
       log.error(
@@ -211,10 +233,11 @@ export class SubscriptionClient extends Client {
    * state of the log.
    *
    * @param [messageCount] The number of messages to retrieve. Default value `1`.
+   * @param [options] The options to bound or cancel the operation.
    * @returns Promise<ReceivedSBMessage[]>
    */
-  async peek(messageCount?: number): Promise<ReceivedMessageInfo[]> {
-    return this._context.managementClient!.peek(messageCount);
+  async peek(messageCount?: number, options?: OperationOptions): Promise<ReceivedMessageInfo[]> {
+    return this._context.managementClient!.peek(messageCount, options);
   }
 
   /**
@@ -232,6 +255,22 @@ export class SubscriptionClient extends Client {
     });
   }
 
+  /**
+   * Gets the runtime information of the subscription, i.e. the counts of its active,
+   * dead-lettered, scheduled and transfer messages and the times at which it was created, updated
+   * and accessed. It is retrieved over the REST API of the namespace, rather than over the AMQP
+   * connection.
+   * @param [options] The options to bound or cancel the operation.
+   * @returns Promise<EntityRuntimeInfo>
+   */
+  async getRuntimeInfo(options?: OperationOptions): Promise<EntityRuntimeInfo> {
+    return this._context.namespace.entityManager.getSubscriptionRuntimeInfo(
+      this.topicPath,
+      this.subscriptionName,
+      options
+    );
+  }
+
   /**
    * Renews the lock on the message. The lock will be renewed based on the setting specified on
    * the queue.
@@ -289,17 +328,19 @@ export class SubscriptionClient extends Client {
 
   /**
    * Get all the rules associated with the subscription
+   * @param [options] The options to bound or cancel the operation.
    */
-  async getRules(): Promise<RuleDescription[]> {
-    return this._context.managementClient!.getRules();
+  async getRules(options?: OperationOptions): Promise<RuleDescription[]> {
+    return this._context.managementClient!.getRules(options);
   }
 
   /**
    * Removes the rule on the subscription identified by the given rule name.
    * @param ruleName
+   * @param [options] The options to bound or cancel the operation.
    */
-  async removeRule(ruleName: string): Promise<void> {
-    return this._context.managementClient!.removeRule(ruleName);
+  async removeRule(ruleName: string, options?: OperationOptions): Promise<void> {
+    return this._context.managementClient!.removeRule(ruleName, options);
   }
 
   /**
@@ -308,17 +349,63 @@ export class SubscriptionClient extends Client {
    * otherwise, the added rule will have no affect as the true filter will always result in
    * the subscription receiving all messages.
    * @param ruleName Name of the rule
-   * @param filter A Boolean, SQL expression or a Correlation filter. For SQL Filter syntax, see
+   * @param filter A Boolean, SQL expression or a Correlation filter, that can be built with
+   * `Filter.sql()` and `Filter.correlation()`. For SQL Filter syntax, see
    * {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-messaging-sql-filter SQLFilter syntax}.
    * @param sqlRuleActionExpression Action to perform if the message satisfies the filtering expression. For SQL Rule Action syntax,
    * see {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-messaging-sql-rule-action SQLRuleAction syntax}.
+   * @param [options] The options to bound or cancel the operation.
    */
   async addRule(
     ruleName: string,
-    filter: boolean | string | CorrelationFilter,
-    sqlRuleActionExpression?: string
+    filter: boolean | string | CorrelationFilter | SqlFilterExpression,
+    sqlRuleActionExpression?: string,
+    options?: OperationOptions
   ): Promise<void> {
-    return this._context.managementClient!.addRule(ruleName, filter, sqlRuleActionExpression);
+    return this._context.managementClient!.addRule(
+      ruleName,
+      filter,
+      sqlRuleActionExpression,
+      options
+    );
+  }
+
+  /**
+   * Updates the filter and the action of the rule identified by the given rule name, or adds the
+   * rule if it does not exist. Unlike removing and adding the rule, the subscription keeps
+   * receiving the messages that match either the current or the new filter while the rule is
+   * being updated.
+   * @param ruleName Name of the rule
+   * @param filter A Boolean, SQL expression or a Correlation filter.
+   * @param sqlRuleActionExpression Action to perform if the message satisfies the filtering expression.
+   * @param [options] The options to bound or cancel the operation.
+   * @returns Promise<RuleChanges> The change that was applied to the rule.
+   */
+  async updateRule(
+    ruleName: string,
+    filter: boolean | string | CorrelationFilter | SqlFilterExpression,
+    sqlRuleActionExpression?: string,
+    options?: OperationOptions
+  ): Promise<RuleChanges> {
+    return this._context.managementClient!.updateRule(
+      ruleName,
+      filter,
+      sqlRuleActionExpression,
+      options
+    );
+  }
+
+  /**
+   * Applies the given rule set to the subscription. The new and the changed rules are applied
+   * before the rules that are not in the rule set (including the default rule, unless it is
+   * provided) are removed, so that the subscription neither drops nor floods messages in the
+   * meantime. The rules that already have the desired filter and action are left untouched.
+   * @param rules The desired rule set.
+   * @param [options] The options to bound or cancel the operation.
+   * @returns Promise<RuleChanges> The changes that were applied to the rules.
+   */
+  async replaceRules(rules: RuleDefinition[], options?: OperationOptions): Promise<RuleChanges> {
+    return this._context.managementClient!.replaceRules(rules, options);
   }
 
   //#endregion
@@ -342,7 +429,8 @@ export class SubscriptionClient extends Client {
 
   /**
    * Accept a new session on the ServiceBus Subscription.
-   * @param options Optional parameters that can be provided while accepting sessions.
+   * @param options Optional parameters that can be provided while accepting sessions. Provide
+   * `timeoutInMs` or `abortSignal` to bound or cancel waiting for a session to be accepted.
    */
   async acceptSession(options?: AcceptSessionOptions): Promise<MessageSession> {
     if (!options) options = {};
@@ -3,13 +3,46 @@
 
 import * as Long from "long";
 import * as log from "./log";
-import { Delivery } from "rhea-promise";
 import { ConnectionContext } from "./connectionContext";
 import { MessageSender } from "./core/messageSender";
+import {
+  MessageBatch,
+  CreateBatchOptions,
+  SendOptions,
+  SendBatchOptions,
+  SendBatchResult
+} from "./core/messageBatch";
+import { SendResult } from "./core/sendResult";
+import { BufferedSender, BufferedSenderOptions } from "./core/bufferedSender";
+import { IdempotencyOptions, normalizeIdempotencyOptions } from "./core/idempotency";
 import { SendableMessageInfo } from "./serviceBusMessage";
-import { Client } from "./client";
+import { OperationOptions } from "./util/abort";
+import { Client, CloseOptions, DrainResult } from "./client";
 import { ScheduleMessage } from "./core/managementClient";
 
+/**
+ * Describes the options that can be provided while creating the TopicClient.
+ * @interface TopicClientOptions
+ */
+export interface TopicClientOptions {
+  /**
+   * @property {boolean | IdempotencyOptions} [idempotency] Enables the idempotency mode, in
+   * which the `messageId` of every message that does not have one is derived from a business key
+   * or from the content of the message before the first attempt to send it. Sending the message
+   * again then reuses the same `messageId`, so that a Topic with duplicate detection enabled
+   * discards the duplicate. Provide `true` to derive it from the content. Default: `false`.
+   */
+  idempotency?: boolean | IdempotencyOptions;
+  /**
+   * @property {string} [viaEntityPath] The name/path of the transfer entity via which the
+   * messages are sent to the Topic, e.g. the entity the messages of a transaction are received
+   * from. Sending via that entity makes it possible to send to the Topic in the scope of a
+   * transaction that spans both entities. The messages are transferred to the Topic once they
+   * are accepted by the transfer entity; see `viaPartitionKey` of the messages.
+   */
+  viaEntityPath?: string;
+}
+
 /**
  * Describes the TopicClient that is used to interact with a ServiceBus Topic.
  * @class TopicClient
@@ -23,16 +56,30 @@ export class TopicClient extends Client {
    * @param context - The connection context to create the TopicClient.
    * @param [options] - The TopicClient options.
    */
-  constructor(name: string, context: ConnectionContext) {
+  constructor(name: string, context: ConnectionContext, options?: TopicClientOptions) {
     super(name, context);
+    if (!options) options = {};
+    this._context.idempotency = normalizeIdempotencyOptions(options.idempotency);
+    if (
+      options.viaEntityPath != undefined &&
+      (typeof options.viaEntityPath !== "string" || !options.viaEntityPath)
+    ) {
+      throw new Error("'viaEntityPath' must be of type 'string' with a non-empty value.");
+    }
+    this._context.viaEntityPath = options.viaEntityPath;
   }
 
   /**
    * Closes the AMQP connection to the ServiceBus Topic for this client,
    * returning a promise that will be resolved when disconnection is completed.
-   * @returns {Promise<any>}
+   * @param {CloseOptions} [options] The options that can be provided while closing the client.
+   * Provide `drainTimeoutInMs` to wait for the messages that are being processed or sent.
+   * @returns {Promise<DrainResult>} Promise<DrainResult> The operations that were still in
+   * progress when the links were closed.
    */
-  async close(): Promise<any> {
+  async close(options?: CloseOptions): Promise<DrainResult> {
+    if (!options) options = {};
+    const drainResult = await this.drain(options.drainTimeoutInMs);
     try {
       if (this._context.namespace.connection && this._context.namespace.connection.isOpen()) {
         // Close the sender.
@@ -48,6 +95,7 @@ export class TopicClient extends Client {
       log.error(msg);
       throw new Error(msg);
     }
+    return drainResult;
   }
 
   /**
@@ -58,12 +106,39 @@ export class TopicClient extends Client {
    * of the message.
    * For more information please see {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-partitioning#use-of-partition-keys Use of partition keys}
    *
-   * @param data - Message to send.  Will be sent as UTF8-encoded JSON string.
-   * @returns Promise<Delivery>
+   * @param data - Message to send.  Will be sent as UTF8-encoded JSON string. A MessageBatch
+   * that was created with `createBatch()` is sent as a single batch message.
+   * @param [options] - The options to bound or cancel the operation, and to send the message in
+   * the scope of a transaction.
+   * @returns Promise<SendResult> The SendResult once the message is accepted. If the message is
+   * not accepted then the error has a `sendResult` property with the outcome.
    */
-  async send(data: SendableMessageInfo): Promise<Delivery> {
+  async send(data: SendableMessageInfo | MessageBatch, options?: SendOptions): Promise<SendResult> {
     const sender = MessageSender.create(this._context);
-    return sender.send(data);
+    return sender.send(data, options);
+  }
+
+  /**
+   * Creates an empty MessageBatch, that is filled with `tryAdd()` up to the maximum message size
+   * of the link to the ServiceBus Topic, and sent with `send()`. The link is opened if it is not
+   * open.
+   * @param [options] - The options that can be provided while creating the batch.
+   * @returns Promise<MessageBatch>
+   */
+  async createBatch(options?: CreateBatchOptions): Promise<MessageBatch> {
+    if (!options) options = {};
+    const sender = MessageSender.create(this._context);
+    return sender.createBatch(options.maxSizeInBytes);
+  }
+
+  /**
+   * Creates a BufferedSender, that sends the messages that are added to it to the ServiceBus
+   * Topic in the background, grouped into batch messages. Close it before closing the client.
+   * @param [options] - The options that can be provided while creating the BufferedSender.
+   * @returns BufferedSender
+   */
+  createBufferedSender(options?: BufferedSenderOptions): BufferedSender {
+    return new BufferedSender(this._context, options);
   }
 
   /**
@@ -77,12 +152,27 @@ export class TopicClient extends Client {
    * For more information please see {@link https://docs.microsoft.com/en-us/azure/service-bus-messaging/service-bus-partitioning#use-of-partition-keys Use of partition keys}
    *
    * @param datas  An array of SendableMessageInfo objects to be sent in a Batch message.
+   * @param [options] - The options to bound or cancel the operation, and to send the messages in
+   * the scope of a transaction. Provide `split` to split the messages into as many batch messages
+   * as needed (see `SendBatchOptions`), in which case an aggregate SendBatchResult is returned
+   * instead of the SendResult.
    *
-   * @return Promise<Delivery>
+   * @return Promise<SendResult | SendBatchResult>
    */
-  async sendBatch(datas: SendableMessageInfo[]): Promise<Delivery> {
+  sendBatch(
+    datas: SendableMessageInfo[],
+    options: SendBatchOptions & { split: true }
+  ): Promise<SendBatchResult>;
+  sendBatch(datas: SendableMessageInfo[], options?: SendOptions): Promise<SendResult>;
+  async sendBatch(
+    datas: SendableMessageInfo[],
+    options?: SendBatchOptions
+  ): Promise<SendResult | SendBatchResult> {
     const sender = MessageSender.create(this._context);
-    return sender.sendBatch(datas);
+    if (options && options.split) {
+      return sender.sendSplitBatches(datas, options);
+    }
+    return sender.sendBatch(datas, options);
   }
 
   /**
@@ -90,6 +180,7 @@ export class TopicClient extends Client {
    *
    * @param scheduledEnqueueTimeUtc - The UTC time at which the message should be enqueued.
    * @param message - The message that needs to be scheduled.
+   * @param [options] - The options to bound or cancel the operation.
    * @returns Promise<Long> - The sequence number of the message that was
    * scheduled. Please save the `Long` type as-is in your application. Do not convert it to a
    * number as that may cause loss of precision, since JS only supports 53 bit numbers.
@@ -100,12 +191,16 @@ export class TopicClient extends Client {
    */
   async scheduleMessage(
     scheduledEnqueueTimeUtc: Date,
-    message: SendableMessageInfo
+    message: SendableMessageInfo,
+    options?: OperationOptions
   ): Promise<Long> {
     const scheduleMessages: ScheduleMessage[] = [
       { message: message, scheduledEnqueueTimeUtc: scheduledEnqueueTimeUtc }
     ];
-    const result = await this._context.managementClient!.scheduleMessages(scheduleMessages);
+    const result = await this._context.managementClient!.scheduleMessages(
+      scheduleMessages,
+      options
+    );
     return result[0];
   }
 
@@ -114,6 +209,7 @@ export class TopicClient extends Client {
    *
    * @param scheduledEnqueueTimeUtc - The UTC time at which the message should be enqueued.
    * @param messages - Array of Messages that need to be scheduled.
+   * @param [options] - The options to bound or cancel the operation.
    * @returns Promise<Long[]> - The sequence numbers of messages that were scheduled. Please
    * save the `Long` type as-is in your application. Do not convert it to a number as that may
    * cause loss of precision, since JS only supports 53 bit numbers. `Long` type provides methods
@@ -123,7 +219,8 @@ export class TopicClient extends Client {
    */
   async scheduleMessages(
     scheduledEnqueueTimeUtc: Date,
-    messages: SendableMessageInfo[]
+    messages: SendableMessageInfo[],
+    options?: OperationOptions
   ): Promise<Long[]> {
     const scheduleMessages: ScheduleMessage[] = messages.map((message) => {
       return {
@@ -131,7 +228,7 @@ export class TopicClient extends Client {
         scheduledEnqueueTimeUtc
       };
     });
-    return this._context.managementClient!.scheduleMessages(scheduleMessages);
+    return this._context.managementClient!.scheduleMessages(scheduleMessages, options);
   }
 
   /**
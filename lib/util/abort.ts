@@ -0,0 +1,210 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { translate, ErrorNameConditionMapper } from "@azure/amqp-common";
+import { AbortError } from "../errors";
+
+/**
+ * Describes the signal through which an operation can be cancelled. It is compatible with the
+ * `AbortSignal` of an `AbortController`.
+ * @interface AbortSignalLike
+ */
+export interface AbortSignalLike {
+  /**
+   * @property {boolean} aborted Indicates whether the signal has been aborted.
+   * @readonly
+   */
+  readonly aborted: boolean;
+  /**
+   * Adds the listener that is invoked when the signal is aborted.
+   */
+  addEventListener(type: "abort", listener: () => void): void;
+  /**
+   * Removes the listener that was added for the "abort" event.
+   */
+  removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Describes the options that can be provided to bound or cancel an operation.
+ * @interface OperationOptions
+ */
+export interface OperationOptions {
+  /**
+   * @property {number} [timeoutInMs] The maximum amount of time the operation (including the
+   * retries) can take. If the operation does not complete in time then it is rejected with an
+   * `OperationTimeoutError`. If not provided then the default timeouts of the operation apply.
+   */
+  timeoutInMs?: number;
+  /**
+   * @property {AbortSignalLike} [abortSignal] The signal that can be used to cancel the
+   * operation. The operation is rejected with an `AbortError` when the signal is aborted.
+   */
+  abortSignal?: AbortSignalLike;
+}
+
+/**
+ * Validates the given operation options.
+ * @ignore
+ * @param {OperationOptions} options The operation options to validate.
+ * @returns {void}
+ */
+export function validateOperationOptions(options: OperationOptions): void {
+  if (
+    options.timeoutInMs != undefined &&
+    (typeof options.timeoutInMs !== "number" || options.timeoutInMs <= 0)
+  ) {
+    throw new Error("'timeoutInMs' must be of type 'number' with a value greater than 0.");
+  }
+  if (
+    options.abortSignal != undefined &&
+    (typeof options.abortSignal.addEventListener !== "function" ||
+      typeof options.abortSignal.removeEventListener !== "function")
+  ) {
+    throw new Error("'abortSignal' must implement 'addEventListener' and 'removeEventListener'.");
+  }
+}
+
+/**
+ * Tracks the cancellation of an operation. The operation is cancelled either when the abort
+ * signal provided by the user is aborted or when the timeout of the operation occurs. The parts
+ * of the operation that wait on a link register a handler to clean up when that happens.
+ * @ignore
+ * @class OperationCancellation
+ */
+export class OperationCancellation {
+  /**
+   * @property {Error} [error] The error with which the operation was cancelled.
+   */
+  error?: Error;
+  /**
+   * @property {Array<Function>} _handlers The handlers that are invoked upon cancellation.
+   * @private
+   */
+  private _handlers: Array<(error: Error) => void> = [];
+  /**
+   * @property {any} _timer The timer for the timeout of the operation.
+   * @private
+   */
+  private _timer: any;
+  /**
+   * @property {Function} _onAbort The listener that is added to the abort signal.
+   * @private
+   */
+  private _onAbort: () => void;
+  /**
+   * @property {OperationOptions} _options The options provided by the user.
+   * @private
+   */
+  private _options: OperationOptions;
+
+  /**
+   * @constructor
+   * @param {string} operationName The name of the operation, that is used in the error messages.
+   * @param {OperationOptions} [options] The options provided by the user.
+   */
+  constructor(operationName: string, options?: OperationOptions) {
+    if (!options) options = {};
+    validateOperationOptions(options);
+    this._options = options;
+    this._onAbort = () => {
+      this._cancel(new AbortError(`The ${operationName} operation has been cancelled.`));
+    };
+    if (options.abortSignal) {
+      if (options.abortSignal.aborted) {
+        this._onAbort();
+      } else {
+        options.abortSignal.addEventListener("abort", this._onAbort);
+      }
+    }
+    if (!this.error && options.timeoutInMs != undefined) {
+      this._timer = setTimeout(() => {
+        this._cancel(
+          translate({
+            condition: ErrorNameConditionMapper.OperationTimeoutError,
+            description:
+              `The ${operationName} operation did not complete within ` +
+              `${options!.timeoutInMs} milliseconds.`
+          })
+        );
+      }, options.timeoutInMs);
+    }
+  }
+
+  /**
+   * Registers the handler that is invoked when the operation is cancelled. The handler is invoked
+   * right away if the operation has already been cancelled.
+   * @param {Function} handler The handler to be invoked with the cancellation error.
+   * @returns {Function} Function that unregisters the handler.
+   */
+  onCancel(handler: (error: Error) => void): () => void {
+    if (this.error) {
+      handler(this.error);
+      return () => undefined;
+    }
+    this._handlers.push(handler);
+    return () => {
+      const index = this._handlers.indexOf(handler);
+      if (index !== -1) this._handlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * Throws the cancellation error if the operation has been cancelled.
+   * @returns {void}
+   */
+  throwIfCancelled(): void {
+    if (this.error) {
+      throw this.error;
+    }
+  }
+
+  /**
+   * Stops tracking the cancellation. It must be called once the operation is settled.
+   * @returns {void}
+   */
+  dispose(): void {
+    clearTimeout(this._timer);
+    if (this._options.abortSignal) {
+      this._options.abortSignal.removeEventListener("abort", this._onAbort);
+    }
+    this._handlers = [];
+  }
+
+  private _cancel(error: Error): void {
+    if (this.error) return;
+    this.error = error;
+    const handlers = this._handlers;
+    this.dispose();
+    for (const handler of handlers) {
+      handler(error);
+    }
+  }
+}
+
+/**
+ * Runs the given operation, that is rejected as soon as it is cancelled through the given
+ * options.
+ * @ignore
+ * @param {string} operationName The name of the operation, that is used in the error messages.
+ * @param {OperationOptions | undefined} options The options provided by the user.
+ * @param {Function} operation The operation to run. It is provided the cancellation to which it
+ * can register the handlers that clean up what it is waiting on.
+ * @returns {Promise<T>} Promise<T> The result of the operation.
+ */
+export async function runOperation<T>(
+  operationName: string,
+  options: OperationOptions | undefined,
+  operation: (cancellation: OperationCancellation) => Promise<T>
+): Promise<T> {
+  const cancellation = new OperationCancellation(operationName, options);
+  try {
+    cancellation.throwIfCancelled();
+    return await new Promise<T>((resolve, reject) => {
+      cancellation.onCancel(reject);
+      operation(cancellation).then(resolve, reject);
+    });
+  } finally {
+    cancellation.dispose();
+  }
+}
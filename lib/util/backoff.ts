@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Constants } from "@azure/amqp-common";
+import {
+  RetryMode,
+  RetryOptions,
+  normalizeRetryOptions,
+  validateRetryOptions,
+  calculateRetryDelay
+} from "./retry";
+
+/**
+ * Describes the strategy that provides the delay before reconnecting the clients after the AMQP
+ * connection was lost, and between the attempts to recover from an open circuit.
+ * @interface BackoffStrategy
+ */
+export interface BackoffStrategy {
+  /**
+   * Provides the amount of time to wait before making the given attempt.
+   * @param {number} attempt The number of the attempt that is about to be made (starting from
+   * `1`). It is reset once an attempt succeeds.
+   * @returns {number} The delay in milliseconds.
+   */
+  getDelayInMs(attempt: number): number;
+}
+
+/**
+ * Describes the options that can be provided while creating the ExponentialBackoffStrategy.
+ * @interface ExponentialBackoffOptions
+ */
+export interface ExponentialBackoffOptions {
+  /**
+   * @property {number} [minDelayInMs] The delay before the first attempt, that is doubled for
+   * every subsequent attempt. Default value: `300`.
+   */
+  minDelayInMs?: number;
+  /**
+   * @property {number} [maxDelayInMs] The maximum delay between attempts. Default value: `60000`.
+   */
+  maxDelayInMs?: number;
+  /**
+   * @property {number} [jitter] The fraction of the delay (between `0` and `1`) that is randomly
+   * added to it, so that the clients do not reconnect in lockstep. Default value: `0.5`.
+   */
+  jitter?: number;
+}
+
+/**
+ * A backoff strategy where the delay grows exponentially with every attempt, with a random
+ * jitter, up to a maximum delay. It is the default strategy of the Namespace.
+ * @class ExponentialBackoffStrategy
+ */
+export class ExponentialBackoffStrategy implements BackoffStrategy {
+  /**
+   * @property {Required<RetryOptions>} _options The retry options that describe the backoff.
+   * @private
+   */
+  private _options: Required<RetryOptions>;
+
+  /**
+   * @constructor
+   * @param {ExponentialBackoffOptions} [options] The options for the backoff.
+   */
+  constructor(options?: ExponentialBackoffOptions) {
+    if (!options) options = {};
+    const retryOptions: RetryOptions = {
+      minDelayInMs: options.minDelayInMs,
+      maxDelayInMs: options.maxDelayInMs,
+      jitter: options.jitter
+    };
+    validateRetryOptions(retryOptions);
+    this._options = normalizeRetryOptions(
+      {
+        mode: RetryMode.exponential,
+        minDelayInMs: Constants.connectionReconnectDelay,
+        maxDelayInMs: 60000,
+        jitter: 0.5
+      },
+      retryOptions
+    );
+  }
+
+  getDelayInMs(attempt: number): number {
+    return calculateRetryDelay(this._options, attempt);
+  }
+}
@@ -0,0 +1,249 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { ErrorNameConditionMapper } from "@azure/amqp-common";
+import * as log from "../log";
+import { BackoffStrategy } from "./backoff";
+import { CircuitOpenError } from "../errors";
+
+/**
+ * The error conditions that report the failure of the connection, of a session or of a link,
+ * whether or not they are retryable.
+ */
+const connectionFailureConditions: string[] = [
+  ErrorNameConditionMapper.ConnectionForcedError,
+  ErrorNameConditionMapper.FramingError,
+  ErrorNameConditionMapper.ConnectionRedirectError,
+  ErrorNameConditionMapper.DetachForcedError,
+  ErrorNameConditionMapper.LinkRedirectError,
+  ErrorNameConditionMapper.ReceiverDisconnectedError,
+  ErrorNameConditionMapper.SessionWindowViolationError,
+  ErrorNameConditionMapper.ErrantLinkError,
+  ErrorNameConditionMapper.HandleInUseError,
+  ErrorNameConditionMapper.UnattachedHandleError
+];
+
+/**
+ * Describes the states of the circuit breaker of a connection.
+ */
+export enum CircuitState {
+  /**
+   * Operations are allowed.
+   */
+  closed = "closed",
+  /**
+   * Operations fail fast with a `CircuitOpenError`, until an attempt to recover succeeds.
+   */
+  open = "open",
+  /**
+   * An attempt to recover is in progress. Operations still fail fast with a `CircuitOpenError`.
+   */
+  halfOpen = "halfOpen"
+}
+
+/**
+ * Describes the options that can be provided to enable the circuit breaker.
+ * @interface CircuitBreakerOptions
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * @property {number} [failureThreshold] The number of consecutive failures to send messages or
+   * to reconnect after which the circuit is opened. Errors caused by the operation itself, like a
+   * rejected message or the expiry of its `timeoutInMs`, are not failures. Default value: `5`.
+   */
+  failureThreshold?: number;
+}
+
+/**
+ * Validates the given circuit breaker options.
+ * @ignore
+ * @param {CircuitBreakerOptions} options The circuit breaker options to validate.
+ * @returns {void}
+ */
+export function validateCircuitBreakerOptions(options: CircuitBreakerOptions): void {
+  const threshold = options.failureThreshold;
+  if (
+    threshold != undefined &&
+    (typeof threshold !== "number" || !Number.isInteger(threshold) || threshold < 1)
+  ) {
+    throw new Error(
+      "'failureThreshold' must be of type 'number' with an integer value greater than 0."
+    );
+  }
+}
+
+/**
+ * Keeps track of the consecutive failures on a connection. Once the failure threshold is
+ * reached, the circuit is opened and recovery is probed in the background with the delays
+ * provided by the backoff strategy.
+ * @ignore
+ * @class CircuitBreaker
+ */
+export class CircuitBreaker {
+  /**
+   * @property {number} consecutiveFailures The number of consecutive failures.
+   */
+  consecutiveFailures: number = 0;
+  /**
+   * @property {CircuitState} _state The state of the circuit.
+   * @private
+   */
+  private _state: CircuitState = CircuitState.closed;
+  /**
+   * @property {number} _failureThreshold The number of consecutive failures after which the
+   * circuit is opened. The circuit is never opened if the breaker is not enabled.
+   * @private
+   */
+  private _failureThreshold: number;
+  /**
+   * @property {any} _probeTimer The timer for the next attempt to recover.
+   * @private
+   */
+  private _probeTimer: any;
+
+  /**
+   * @constructor
+   * @param {string} connectionId The id of the connection, used for logging.
+   * @param {BackoffStrategy} backoffStrategy Provides the delay between the attempts to recover.
+   * @param {Function} probe The attempt to recover. It should reject if the recovery failed.
+   * @param {CircuitBreakerOptions} [options] The options provided by the user. If not provided
+   * then the breaker only counts the failures and never opens the circuit.
+   */
+  constructor(
+    private readonly _connectionId: string,
+    private readonly _backoffStrategy: BackoffStrategy,
+    private readonly _probe: () => Promise<void>,
+    options?: CircuitBreakerOptions
+  ) {
+    this._failureThreshold = options ? options.failureThreshold || 5 : Infinity;
+  }
+
+  /**
+   * @property {CircuitState} state The state of the circuit.
+   * @readonly
+   */
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Throws a `CircuitOpenError` if the circuit is not closed.
+   * @param {string} operation The name of the operation that is being attempted.
+   * @returns {void}
+   */
+  throwIfOpen(operation: string): void {
+    if (this._state !== CircuitState.closed) {
+      throw new CircuitOpenError(
+        `The ${operation} operation failed fast, since the circuit of the connection ` +
+          `'${this._connectionId}' is open after ${this.consecutiveFailures} consecutive ` +
+          `failures. Recovery is being probed in the background.`
+      );
+    }
+  }
+
+  /**
+   * Records the outcome of the given operation. Only the errors that are retryable or that report
+   * the failure of the connection or of the link are counted; the other errors, like a rejected
+   * message or the cancellation of the operation, are caused by the operation itself.
+   * @param {Promise<T>} operation The operation to be tracked.
+   * @returns {Promise<T>} Promise<T> The given operation.
+   */
+  async track<T>(operation: Promise<T>): Promise<T> {
+    try {
+      const result = await operation;
+      this.recordSuccess();
+      return result;
+    } catch (err) {
+      if (isConnectionFailure(err)) {
+        this.recordFailure(err);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Records a success, that closes the circuit.
+   * @returns {void}
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this._state !== CircuitState.closed) {
+      clearTimeout(this._probeTimer);
+      this._setState(CircuitState.closed);
+    }
+  }
+
+  /**
+   * Records a failure, that opens the circuit once the failure threshold is reached.
+   * @param {Error} [error] The error that occurred.
+   * @returns {void}
+   */
+  recordFailure(error?: Error): void {
+    this.consecutiveFailures++;
+    log.circuitBreaker(
+      "[%s] Recorded failure number %d: %O",
+      this._connectionId,
+      this.consecutiveFailures,
+      error
+    );
+    if (this._state === CircuitState.closed && this.consecutiveFailures >= this._failureThreshold) {
+      this._setState(CircuitState.open);
+      this._scheduleProbe();
+    }
+  }
+
+  /**
+   * Stops probing for recovery and closes the circuit. It is called when the connection is closed.
+   * @returns {void}
+   */
+  reset(): void {
+    clearTimeout(this._probeTimer);
+    this.consecutiveFailures = 0;
+    if (this._state !== CircuitState.closed) {
+      this._setState(CircuitState.closed);
+    }
+  }
+
+  private _scheduleProbe(): void {
+    const attempt = this.consecutiveFailures - this._failureThreshold + 1;
+    const delayInMs = this._backoffStrategy.getDelayInMs(attempt);
+    log.circuitBreaker(
+      "[%s] Probing for recovery in %d milliseconds.",
+      this._connectionId,
+      delayInMs
+    );
+    this._probeTimer = setTimeout(async () => {
+      this._setState(CircuitState.halfOpen);
+      try {
+        await this._probe();
+      } catch (err) {
+        if (this._state !== CircuitState.halfOpen) return;
+        this.consecutiveFailures++;
+        log.error("[%s] The attempt to recover failed: %O", this._connectionId, err);
+        this._setState(CircuitState.open);
+        return this._scheduleProbe();
+      }
+      if (this._state === CircuitState.halfOpen) this.recordSuccess();
+    }, delayInMs);
+  }
+
+  private _setState(state: CircuitState): void {
+    log.circuitBreaker(
+      "[%s] The state of the circuit changed from '%s' to '%s'.",
+      this._connectionId,
+      this._state,
+      state
+    );
+    this._state = state;
+  }
+}
+
+/**
+ * Indicates whether the given error counts as a failure of the connection.
+ * @param {any} error The error to check.
+ * @returns {boolean} boolean
+ */
+function isConnectionFailure(error: any): boolean {
+  if (!error) return false;
+  return error.retryable === true || connectionFailureConditions.indexOf(error.condition) !== -1;
+}
@@ -0,0 +1,67 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+/**
+ * Keeps track of the operations that are in progress, so that one can wait for all of them to
+ * complete.
+ * @ignore
+ * @class PendingOperations
+ */
+export class PendingOperations {
+  /**
+   * @property {Set<Promise<any>>} _operations The operations that are in progress.
+   * @private
+   */
+  private _operations: Set<Promise<any>> = new Set<Promise<any>>();
+
+  /**
+   * @property {number} count The number of operations that are in progress.
+   * @readonly
+   */
+  get count(): number {
+    return this._operations.size;
+  }
+
+  /**
+   * Tracks the given operation until it is settled.
+   * @param {Promise<T>} operation The operation to be tracked.
+   * @returns {Promise<T>} Promise<T> The given operation.
+   */
+  track<T>(operation: Promise<T>): Promise<T> {
+    this._operations.add(operation);
+    const remove = () => {
+      this._operations.delete(operation);
+    };
+    operation.then(remove, remove);
+    return operation;
+  }
+
+  /**
+   * Waits for all the operations, including the ones that are started while waiting, to be
+   * settled.
+   * @param {number} timeoutInMs The maximum amount of time to wait.
+   * @returns {Promise<boolean>} Promise<boolean> `true` if all the operations were settled
+   * before the timeout; `false` otherwise.
+   */
+  async waitForAll(timeoutInMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutInMs;
+    while (this._operations.size) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return false;
+      }
+      let timer: any;
+      const settled = Array.from(this._operations).map((operation) =>
+        operation.then(() => undefined, () => undefined)
+      );
+      await Promise.race([
+        Promise.all(settled),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, remaining);
+        })
+      ]);
+      clearTimeout(timer);
+    }
+    return true;
+  }
+}
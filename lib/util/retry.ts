@@ -0,0 +1,223 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { translate, delay, RetryOperationType, Constants } from "@azure/amqp-common";
+import * as log from "../log";
+
+/**
+ * Describes the mode in which the delay between retry attempts is calculated.
+ */
+export enum RetryMode {
+  /**
+   * The delay between attempts doubles every time, starting at `minDelayInMs` and never
+   * exceeding `maxDelayInMs`.
+   */
+  exponential = "exponential",
+  /**
+   * The delay between attempts is always `minDelayInMs`.
+   */
+  fixed = "fixed"
+}
+
+/**
+ * Describes the retry policy that will be applied to operations like sending messages and making
+ * requests to the $management endpoint.
+ * Every error that is thrown after the last attempt carries the number of attempts that were
+ * made in the `attemptCount` property.
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /**
+   * @property {number} [maxRetries] The maximum number of times the operation will be retried
+   * after the first attempt fails with a retryable error.
+   * - **Default**: `2`, i.e. `3` attempts in total.
+   */
+  maxRetries?: number;
+  /**
+   * @property {RetryMode} [mode] The mode in which the delay between attempts is calculated.
+   * - **Default**: `RetryMode.fixed`.
+   */
+  mode?: RetryMode;
+  /**
+   * @property {number} [minDelayInMs] The delay in milliseconds before the first retry. In the
+   * fixed mode this is the delay before every retry.
+   * - **Default**: `5000` milliseconds.
+   */
+  minDelayInMs?: number;
+  /**
+   * @property {number} [maxDelayInMs] The maximum delay in milliseconds between two attempts.
+   * - **Default**: `60000` milliseconds.
+   */
+  maxDelayInMs?: number;
+  /**
+   * @property {number} [jitter] A value between `0` and `1`. A random amount of up to
+   * `jitter * delay` milliseconds is added to every delay, so that clients do not retry in
+   * lockstep.
+   * - **Default**: `0.5`.
+   */
+  jitter?: number;
+  /**
+   * @property {number} [timeoutInMs] The maximum time in milliseconds that a single attempt may
+   * take before it is considered as failed.
+   * - **Default**: `60000` milliseconds.
+   */
+  timeoutInMs?: number;
+}
+
+/**
+ * Describes the parameters that need to be configured for the retry operation.
+ * @ignore
+ */
+export interface RetryConfig<T> {
+  /**
+   * @property {Function} operation The operation that needs to be retried. It is called with the
+   * attempt number (starting from `1`).
+   */
+  operation: (attempt: number) => Promise<T>;
+  /**
+   * @property {string} connectionId The connection identifier. Used in logging information.
+   */
+  connectionId: string;
+  /**
+   * @property {RetryOperationType} operationType The type of operation to be performed.
+   */
+  operationType: RetryOperationType;
+  /**
+   * @property {RetryOptions} [retryOptions] The retry policy to be applied.
+   */
+  retryOptions?: RetryOptions;
+}
+
+/**
+ * Fills in the default values for the properties that are not set on the given retry options.
+ * Properties with an `undefined` value in the given options are ignored.
+ * @ignore
+ * @param {RetryOptions[]} options The retry options in increasing order of precedence.
+ * @returns {Required<RetryOptions>} The normalized retry options.
+ */
+export function normalizeRetryOptions(
+  ...options: (RetryOptions | undefined)[]
+): Required<RetryOptions> {
+  const result: Required<RetryOptions> = {
+    maxRetries: Constants.defaultRetryAttempts - 1,
+    mode: RetryMode.fixed,
+    minDelayInMs: Constants.defaultDelayBetweenOperationRetriesInSeconds * 1000,
+    maxDelayInMs: 60000,
+    jitter: 0.5,
+    timeoutInMs: Constants.defaultOperationTimeoutInSeconds * 1000
+  };
+  for (const item of options) {
+    if (!item) continue;
+    for (const key of Object.keys(item) as (keyof RetryOptions)[]) {
+      if (item[key] != undefined) {
+        (result as any)[key] = item[key];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Validates the given retry options.
+ * @ignore
+ * @param {RetryOptions} options The retry options to be validated.
+ */
+export function validateRetryOptions(options: RetryOptions): void {
+  const numericProps: (keyof RetryOptions)[] = [
+    "maxRetries",
+    "minDelayInMs",
+    "maxDelayInMs",
+    "timeoutInMs"
+  ];
+  for (const prop of numericProps) {
+    const value = options[prop];
+    if (value != undefined && (typeof value !== "number" || value < 0)) {
+      throw new Error(
+        `'${prop}' must be of type 'number' with a value greater than or equal to 0.`
+      );
+    }
+  }
+  if (options.jitter != undefined) {
+    if (typeof options.jitter !== "number" || options.jitter < 0 || options.jitter > 1) {
+      throw new Error("'jitter' must be of type 'number' with a value between 0 and 1.");
+    }
+  }
+  if (
+    options.mode != undefined &&
+    options.mode !== RetryMode.exponential &&
+    options.mode !== RetryMode.fixed
+  ) {
+    throw new Error(`'mode' must be one of '${RetryMode.exponential}' or '${RetryMode.fixed}'.`);
+  }
+}
+
+/**
+ * Calculates the amount of time to wait before making the next attempt.
+ * @ignore
+ * @param {Required<RetryOptions>} options The normalized retry options.
+ * @param {number} attempt The number of the attempt that just failed (starting from `1`).
+ * @returns {number} The delay in milliseconds.
+ */
+export function calculateRetryDelay(options: Required<RetryOptions>, attempt: number): number {
+  let result = options.minDelayInMs;
+  if (options.mode === RetryMode.exponential) {
+    result = options.minDelayInMs * Math.pow(2, attempt - 1);
+  }
+  result += Math.random() * options.jitter * result;
+  return Math.min(result, options.maxDelayInMs);
+}
+
+/**
+ * It will attempt to retry an operation as per the provided retry options. The retries will only
+ * happen if the error is retryable. The error that is thrown after the last attempt has the
+ * `attemptCount` property set to the number of attempts that were made.
+ *
+ * @ignore
+ * @param {RetryConfig<T>} config Parameters to configure retry operation.
+ * @return {Promise<T>} Promise<T>.
+ */
+export async function retry<T>(config: RetryConfig<T>): Promise<T> {
+  const options = normalizeRetryOptions(config.retryOptions);
+  const totalAttempts = options.maxRetries + 1;
+  let lastError: any;
+  for (let attempt = 1; attempt <= totalAttempts; attempt++) {
+    log.retry(
+      "[%s] Retry for '%s', attempt number: %d",
+      config.connectionId,
+      config.operationType,
+      attempt
+    );
+    try {
+      const result = await config.operation(attempt);
+      log.retry(
+        "[%s] Success for '%s', after attempt number: %d.",
+        config.connectionId,
+        config.operationType,
+        attempt
+      );
+      return result;
+    } catch (err) {
+      lastError = err && err.translated ? err : translate(err);
+      lastError.attemptCount = attempt;
+      log.error(
+        "[%s] Error occured for '%s' in attempt number %d: %O",
+        config.connectionId,
+        config.operationType,
+        attempt,
+        lastError
+      );
+      if (!lastError.retryable || attempt === totalAttempts) {
+        break;
+      }
+      const delayInMs = calculateRetryDelay(options, attempt);
+      log.retry(
+        "[%s] Sleeping for %d milliseconds for '%s'.",
+        config.connectionId,
+        delayInMs,
+        config.operationType
+      );
+      await delay(delayInMs);
+    }
+  }
+  throw lastError;
+}
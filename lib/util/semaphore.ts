@@ -1,6 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { AbortSignalLike } from "./abort";
+import { AbortError } from "../errors";
+
 /**
  * A simple Semaphore
  * @class Semaphore
@@ -26,15 +29,34 @@ export class Semaphore {
   /**
    * Acquires a lock from the semaphore, returns a Promise that resolves when the caller holds
    * a lock.
+   * @param abortSignal The signal to stop waiting for the lock. When it is aborted the caller is
+   * removed from the queue and the Promise is rejected with an `AbortError`.
    */
-  acquire(): Promise<void> {
+  acquire(abortSignal?: AbortSignalLike): Promise<void> {
+    const abortError = () =>
+      new AbortError("The wait to acquire the semaphore has been cancelled.");
+    if (abortSignal && abortSignal.aborted) {
+      return Promise.reject(abortError());
+    }
     if (this._used < this.limit) {
       this._used += 1;
       return Promise.resolve();
     }
 
-    return new Promise((resolve) => {
-      this._queue.push(resolve);
+    return new Promise((resolve, reject) => {
+      let onAbort: () => void;
+      const item = () => {
+        if (abortSignal) abortSignal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      onAbort = () => {
+        abortSignal!.removeEventListener("abort", onAbort);
+        const index = this._queue.indexOf(item);
+        if (index !== -1) this._queue.splice(index, 1);
+        reject(abortError());
+      };
+      if (abortSignal) abortSignal.addEventListener("abort", onAbort);
+      this._queue.push(item);
     });
   }
 
@@ -12,7 +12,16 @@ const input = "dist-esm/lib/index.js";
 const production = process.env.NODE_ENV === "production";
 
 export function nodeConfig(test = false) {
-  const externalNodeBuiltins = ["events", "util"];
+  const externalNodeBuiltins = [
+    "events",
+    "util",
+    "net",
+    "tls",
+    "http",
+    "https",
+    "url",
+    "crypto"
+  ];
   const baseConfig = {
     input: input,
     external: depNames.concat(externalNodeBuiltins),
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Namespace, AbortError, AbortSignalLike, delay } from "../lib";
+import { runOperation, OperationCancellation } from "../lib/util/abort";
+import { Semaphore } from "../lib/util/semaphore";
+
+/**
+ * A minimal AbortSignal and AbortController, since they are not available in every supported
+ * version of node.
+ */
+class TestAbortSignal implements AbortSignalLike {
+  aborted: boolean = false;
+  listeners: Array<() => void> = [];
+
+  addEventListener(type: "abort", listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(type: "abort", listener: () => void): void {
+    this.listeners = this.listeners.filter((item) => item !== listener);
+  }
+}
+
+class TestAbortController {
+  signal: TestAbortSignal = new TestAbortSignal();
+
+  abort(): void {
+    this.signal.aborted = true;
+    for (const listener of this.signal.listeners.slice()) {
+      listener();
+    }
+  }
+}
+
+describe("Operation cancellation", function(): void {
+  it("rejects the operation with an AbortError and runs the cleanup", async function(): Promise<
+    void
+  > {
+    const controller = new TestAbortController();
+    let cleanedUp = false;
+    const operation = runOperation(
+      "test",
+      { abortSignal: controller.signal },
+      (cancellation: OperationCancellation) => {
+        cancellation.onCancel(() => {
+          cleanedUp = true;
+        });
+        return delay(1000);
+      }
+    );
+    controller.abort();
+    const error = await operation.should.be.rejectedWith(AbortError);
+    should.equal(error.retryable, false);
+    should.equal(cleanedUp, true);
+    should.equal(controller.signal.listeners.length, 0);
+  });
+
+  it("rejects the operation when the timeout occurs", async function(): Promise<void> {
+    const error = await runOperation("test", { timeoutInMs: 10 }, () => delay(1000)).should.be
+      .rejected;
+    should.equal(error.name, "OperationTimeoutError");
+  });
+
+  it("does not start the operation when the signal is already aborted", async function(): Promise<
+    void
+  > {
+    const controller = new TestAbortController();
+    controller.abort();
+    let started = false;
+    await runOperation("test", { abortSignal: controller.signal }, async () => {
+      started = true;
+    }).should.be.rejectedWith(AbortError);
+    should.equal(started, false);
+  });
+
+  it("throws for an invalid timeout", async function(): Promise<void> {
+    await runOperation("test", { timeoutInMs: -1 }, async () => undefined).should.be.rejectedWith(
+      "'timeoutInMs' must be of type 'number' with a value greater than 0."
+    );
+  });
+
+  it("rejects a send with an AbortError before connecting", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    const controller = new TestAbortController();
+    controller.abort();
+    const client = namespace.createQueueClient("some-name");
+    await client
+      .send({ body: "hello" }, { abortSignal: controller.signal })
+      .should.be.rejectedWith(AbortError);
+    should.equal(namespace["_contexts"][0].connection.isOpen(), false);
+    await namespace.close();
+  });
+});
+
+describe("Semaphore", function(): void {
+  it("stops waiting for the lock when the signal is aborted", async function(): Promise<void> {
+    const semaphore = new Semaphore(1);
+    await semaphore.acquire();
+    const controller = new TestAbortController();
+    const waiting = semaphore.acquire(controller.signal);
+    should.equal(semaphore.awaitedTaskCount(), 1);
+    controller.abort();
+    await waiting.should.be.rejectedWith(AbortError);
+    should.equal(semaphore.awaitedTaskCount(), 0);
+    should.equal(controller.signal.listeners.length, 0);
+    semaphore.release();
+    should.equal(semaphore.currentLockCount(), 0);
+  });
+});
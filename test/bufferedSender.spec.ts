@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { Namespace, QueueClient, BufferedMessage, SendResult, delay } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Buffered sender", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("sends full batches and lingering batches", async function(): Promise<void> {
+    const probe = await client.createBatch();
+    probe.tryAdd({ body: "z".repeat(1000), messageId: "0" });
+    probe.tryAdd({ body: "z".repeat(1000), messageId: "1" });
+    const bufferedSender = client.createBufferedSender({
+      lingerInMs: 50,
+      maxBatchSizeInBytes: probe.sizeInBytes
+    });
+    const sentBatches: number[] = [];
+    const sender = (client as any)._context.sender;
+    const send = sender.send.bind(sender);
+    sender.send = (batch: any, options: any) => {
+      sentBatches.push(batch.count);
+      return send(batch, options);
+    };
+
+    const added: BufferedMessage[] = [];
+    for (let i = 0; i < 5; i++) {
+      added.push(await bufferedSender.add({ body: "z".repeat(1000), messageId: String(i) }));
+    }
+    bufferedSender.bufferedCount.should.equal(5);
+    await delay(200);
+    sentBatches.should.deep.equal([2, 2, 1]);
+
+    const results = await Promise.all(added.map((item: BufferedMessage) => item.result));
+    results
+      .map((result: SendResult) => result.messageIds)
+      .should.deep.equal([["0", "1"], ["0", "1"], ["2", "3"], ["2", "3"], ["4"]]);
+    results
+      .map((result: SendResult) => result.messageId)
+      .should.deep.equal(["0", "1", "2", "3", "4"]);
+    bufferedSender.bufferedCount.should.equal(0);
+    await bufferedSender.close();
+  });
+
+  it("waits for buffer capacity and drains on close", async function(): Promise<void> {
+    const bufferedSender = client.createBufferedSender({
+      lingerInMs: 0,
+      maxBufferedMessages: 2,
+      maxConcurrentSends: 2
+    });
+    await client.createBatch();
+    const sender = (client as any)._context.sender;
+    const send = sender.send.bind(sender);
+    const pendingSends: Function[] = [];
+    sender.send = (batch: any, options: any) =>
+      new Promise((resolve: Function) => pendingSends.push(resolve)).then(() =>
+        batch.messages[0].body === "fail" ? Promise.reject(new Error("busy")) : send(batch, options)
+      );
+
+    const first = await bufferedSender.add({ body: "fail" });
+    await delay(10);
+    await bufferedSender.add({ body: "second" });
+    let isThirdAdded = false;
+    const third = bufferedSender.add({ body: "third" }).then((item: BufferedMessage) => {
+      isThirdAdded = true;
+      return item;
+    });
+    const fourth = bufferedSender.add({ body: "fourth" });
+    await delay(20);
+    isThirdAdded.should.equal(false);
+    pendingSends.length.should.equal(2);
+
+    pendingSends.shift()!();
+    await first.result.should.be.rejectedWith("busy");
+    (await third).message.body.should.equal("third");
+
+    const closing = bufferedSender.close();
+    await fourth.should.be.rejectedWith("has been closed");
+    await bufferedSender
+      .add({ body: "fifth" })
+      .should.be.rejectedWith("The BufferedSender for 'some-name' has been closed.");
+    let isClosed = false;
+    const closed = closing.then(() => (isClosed = true));
+    while (!isClosed) {
+      while (pendingSends.length) pendingSends.shift()!();
+      await delay(10);
+    }
+    await closed;
+    bufferedSender.bufferedCount.should.equal(0);
+    should.equal(bufferedSender.isClosed, true);
+  });
+});
@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import {
+  Namespace,
+  CircuitOpenError,
+  CircuitState,
+  ExponentialBackoffStrategy,
+  AbortError,
+  MessagingError,
+  delay
+} from "../lib";
+import { ErrorNameConditionMapper, translate } from "@azure/amqp-common";
+import { CircuitBreaker } from "../lib/util/circuitBreaker";
+
+describe("ExponentialBackoffStrategy", function(): void {
+  it("grows the delay exponentially up to the maximum delay", function(): void {
+    const backoff = new ExponentialBackoffStrategy({
+      minDelayInMs: 100,
+      maxDelayInMs: 1000,
+      jitter: 0
+    });
+    backoff.getDelayInMs(1).should.equal(100);
+    backoff.getDelayInMs(2).should.equal(200);
+    backoff.getDelayInMs(3).should.equal(400);
+    backoff.getDelayInMs(10).should.equal(1000);
+  });
+
+  it("adds a jitter of at most the given fraction of the delay", function(): void {
+    const backoff = new ExponentialBackoffStrategy({ minDelayInMs: 100, jitter: 0.5 });
+    for (let i = 0; i < 20; i++) {
+      const delayInMs = backoff.getDelayInMs(1);
+      delayInMs.should.be.within(100, 150);
+    }
+  });
+});
+
+describe("CircuitBreaker", function(): void {
+  const failure = (): Promise<void> => Promise.reject(new MessagingError("failed"));
+
+  it("opens after the failure threshold and closes once the probe succeeds", async function(): Promise<
+    void
+  > {
+    let probes = 0;
+    const breaker = new CircuitBreaker(
+      "connection-1",
+      { getDelayInMs: () => 10 },
+      async () => {
+        probes++;
+        if (probes === 1) throw new Error("still down");
+      },
+      { failureThreshold: 2 }
+    );
+    await breaker.track(failure()).should.be.rejectedWith("failed");
+    breaker.state.should.equal(CircuitState.closed);
+    await breaker.track(failure()).should.be.rejectedWith("failed");
+    breaker.state.should.equal(CircuitState.open);
+    should.throw(() => breaker.throwIfOpen("send"), CircuitOpenError);
+
+    await delay(50);
+    probes.should.equal(2);
+    breaker.state.should.equal(CircuitState.closed);
+    breaker.consecutiveFailures.should.equal(0);
+    breaker.throwIfOpen("send");
+  });
+
+  it("counts only the failures of the connection", async function(): Promise<void> {
+    const breaker = new CircuitBreaker("connection-1", { getDelayInMs: () => 10 }, failure);
+    const errors = [
+      new AbortError("cancelled"),
+      new Error("invalid argument"),
+      translate({
+        condition: ErrorNameConditionMapper.OperationTimeoutError,
+        description: "failed"
+      }),
+      translate({ condition: ErrorNameConditionMapper.MessageTooLargeError, description: "failed" })
+    ];
+    for (const error of errors) {
+      await breaker.track(Promise.reject(error)).should.be.rejectedWith(error);
+    }
+    breaker.consecutiveFailures.should.equal(0);
+    const connectionError = translate({
+      condition: ErrorNameConditionMapper.ConnectionRedirectError,
+      description: "redirected"
+    });
+    connectionError.retryable.should.equal(false);
+    await breaker.track(Promise.reject(connectionError)).should.be.rejectedWith(connectionError);
+    await breaker.track(failure()).should.be.rejectedWith("failed");
+    breaker.consecutiveFailures.should.equal(2);
+  });
+
+  it("never opens if not enabled", async function(): Promise<void> {
+    const breaker = new CircuitBreaker("connection-1", { getDelayInMs: () => 10 }, failure);
+    for (let i = 0; i < 10; i++) {
+      await breaker.track(failure()).should.be.rejectedWith("failed");
+    }
+    breaker.state.should.equal(CircuitState.closed);
+  });
+
+  it("makes the sends of the Namespace fail fast while the circuit is open", async function(): Promise<
+    void
+  > {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c",
+      { circuitBreaker: { failureThreshold: 1 } }
+    );
+    namespace.circuitState.should.equal(CircuitState.closed);
+    namespace["_contexts"][0].circuitBreaker.recordFailure();
+    namespace.circuitState.should.equal(CircuitState.open);
+    const client = namespace.createQueueClient("some-name");
+    await client.send({ body: "hello" }).should.be.rejectedWith(CircuitOpenError);
+    should.equal(namespace["_contexts"][0].connection.isOpen(), false);
+    await namespace.close();
+    namespace.circuitState.should.equal(CircuitState.closed);
+  });
+
+  it("throws for an invalid failure threshold", function(): void {
+    should.throw(
+      () =>
+        Namespace.createFromConnectionString(
+          "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c",
+          { circuitBreaker: { failureThreshold: 0 } }
+        ),
+      "'failureThreshold' must be of type 'number' with an integer value greater than 0."
+    );
+  });
+});
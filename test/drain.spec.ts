@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import Long from "long";
+import { Server } from "net";
+import { Container, EventContext, Sender, create_container } from "rhea";
+import { MessageSession, Namespace, QueueClient, ServiceBusMessage, delay } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Drain", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  let outcomes: string[];
+  let sentCount: number;
+  beforeEach((done: Function) => {
+    outcomes = [];
+    sentCount = 0;
+    const container: Container = create_container({ autoaccept: false });
+    container.on("sender_open", (context: EventContext) => {
+      const sender: any = context.sender!;
+      const filter = sender.remote.attach.source.filter;
+      if (!filter || !filter["com.microsoft:session-filter"]) return;
+      // Locks the requested session for a minute.
+      const lockedUntilUtc = Buffer.from(
+        Long.fromNumber(Date.now() + 60000)
+          .mul(10000)
+          .add(Long.fromString("621355968000000000"))
+          .toBytesBE()
+      );
+      sender.set_source({ address: sender.remote.attach.source.address, filter: filter });
+      sender.local.attach.properties = { "com.microsoft:locked-until-utc": lockedUntilUtc };
+    });
+    // Sends a message every 10 milliseconds while the receiver has credit.
+    container.on("sender_open", (context: EventContext) => {
+      const sender: Sender = context.sender!;
+      if (sender.source.address !== "some-name") return;
+      const timer = setInterval(() => {
+        if (sender.is_closed()) {
+          clearInterval(timer);
+        } else if (sender.sendable()) {
+          const tag = Buffer.alloc(16);
+          tag.write(String(sentCount));
+          sender.send(
+            {
+              message_id: String(sentCount++),
+              body: "order",
+              group_id: sender.source.filter ? "session-1" : undefined,
+              message_annotations: {
+                "x-opt-enqueued-time": Date.now(),
+                "x-opt-locked-until": Date.now() + 60000
+              }
+            },
+            tag
+          );
+        }
+      }, 10);
+    });
+    for (const outcome of ["accepted", "released"]) {
+      container.on(outcome, (context: EventContext) => {
+        if (context.sender!.source.address === "some-name") outcomes.push(outcome);
+        context.delivery!.update(true, (context.delivery!.remote_state as any).described());
+      });
+    }
+    server = createListener(undefined, container);
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+  const countOf = (outcome: string) => outcomes.filter((item: string) => item === outcome).length;
+
+  it("waits for the message handlers of the receiver", async function(): Promise<void> {
+    const handled: string[] = [];
+    client.receive(
+      async (message: ServiceBusMessage) => {
+        await delay(200);
+        handled.push(message.messageId as string);
+      },
+      () => undefined,
+      { maxConcurrentCalls: 4 }
+    );
+    while (!handled.length) await delay(10);
+
+    const result = await client.close({ drainTimeoutInMs: 1000 });
+    result.drained.should.equal(true);
+    result.pendingMessageHandlers.should.equal(0);
+    // The handlers that were in progress completed, and no credit was added for more messages:
+    // only the ones that were already on their way were received and released.
+    countOf("accepted").should.equal(handled.length);
+    countOf("released").should.be.at.most(4);
+    sentCount.should.equal(handled.length + countOf("released"));
+  });
+
+  it("waits for the message handlers of the message sessions", async function(): Promise<void> {
+    const session = await client.acceptSession({ sessionId: "session-1" });
+    const handled: string[] = [];
+    session.receive(
+      async (messageSession: MessageSession, message: ServiceBusMessage) => {
+        await delay(200);
+        handled.push(message.messageId as string);
+      },
+      () => undefined,
+      { maxConcurrentCallsPerSession: 2, autoComplete: true }
+    );
+    while (!handled.length) await delay(10);
+
+    const result = await client.close({ drainTimeoutInMs: 1000 });
+    result.drained.should.equal(true);
+    result.pendingMessageHandlers.should.equal(0);
+    countOf("accepted").should.equal(handled.length);
+    countOf("released").should.be.at.most(2);
+    sentCount.should.equal(handled.length + countOf("released"));
+  });
+});
@@ -0,0 +1,386 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import * as http from "http";
+import { Namespace, EntityManager, EntityStatus, Dictionary } from "../lib";
+import { parseXml, findChild, escapeXml, XmlElement } from "../lib/management/atomXml";
+
+/**
+ * A local stub of the REST API, that keeps the entity descriptions as the XML elements that were
+ * put by the client.
+ */
+class AtomStub {
+  server: http.Server;
+  entities: Dictionary<{ descriptionName: string; xml: string }> = {};
+  requests: {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }[] = [];
+  failures: number[] = [];
+  runtimeXml: string = "<MessageCount>0</MessageCount>";
+
+  constructor() {
+    this.server = http.createServer(
+      (request: http.IncomingMessage, response: http.ServerResponse) => {
+        let body = "";
+        request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+        request.on("end", () => this._handle(request, body, response));
+      }
+    );
+  }
+
+  private _handle(
+    request: http.IncomingMessage,
+    body: string,
+    response: http.ServerResponse
+  ): void {
+    this.requests.push({
+      method: request.method!,
+      url: request.url!,
+      headers: request.headers,
+      body: body
+    });
+    const failure = this.failures.shift();
+    if (failure) {
+      return this._respond(
+        response,
+        failure,
+        "<Error><Code>503</Code><Detail>Busy</Detail></Error>"
+      );
+    }
+    const path = decodeURIComponent(request.url!.split("?")[0].substring(1));
+    const feedFilters: Dictionary<(entityPath: string) => boolean> = {
+      "$Resources/Queues": (entityPath: string) =>
+        this.entities[entityPath].descriptionName === "QueueDescription",
+      "$Resources/Topics": (entityPath: string) =>
+        this.entities[entityPath].descriptionName === "TopicDescription"
+    };
+    const feedFilter = path.endsWith("/Subscriptions")
+      ? (entityPath: string) => entityPath.startsWith(`${path}/`)
+      : feedFilters[path];
+    if (feedFilter) {
+      const entries = Object.keys(this.entities)
+        .filter(feedFilter)
+        .map((entityPath: string) => this._entry(entityPath));
+      return this._respond(
+        response,
+        200,
+        `<feed xmlns="http://www.w3.org/2005/Atom">${entries.join("")}</feed>`
+      );
+    }
+    const exists = this.entities[path] != undefined;
+    if (request.method === "GET") {
+      return this._respond(
+        response,
+        200,
+        exists ? this._entry(path) : `<feed xmlns="http://www.w3.org/2005/Atom"></feed>`
+      );
+    }
+    if (request.method === "DELETE") {
+      delete this.entities[path];
+      return this._respond(response, exists ? 200 : 404, "");
+    }
+    if (exists !== (request.headers["if-match"] === "*")) {
+      return exists
+        ? this._respond(response, 409, "<Error><Code>409</Code><Detail>Conflict</Detail></Error>")
+        : this._respond(response, 404, "");
+    }
+    const description = findChild(parseXml(body), "content")!.children[0];
+    this.entities[path] = {
+      descriptionName: description.name,
+      // The default rule is only used while creating a subscription, hence it is not kept.
+      xml: description.children
+        .filter((child: XmlElement) => child.name !== "DefaultRuleDescription")
+        .map((child: XmlElement) => `<${child.name}>${escapeXml(child.text)}</${child.name}>`)
+        .join("")
+    };
+    this._respond(response, exists ? 200 : 201, this._entry(path));
+  }
+
+  private _entry(entityPath: string): string {
+    const { descriptionName, xml } = this.entities[entityPath];
+    const name = entityPath.split("/Subscriptions/").pop();
+    return (
+      `<entry xmlns="http://www.w3.org/2005/Atom"><title type="text">${name}</title>` +
+      `<content type="application/xml"><${descriptionName} ` +
+      `xmlns="http://schemas.microsoft.com/netservices/2010/10/servicebus/connect" ` +
+      `xmlns:i="http://www.w3.org/2001/XMLSchema-instance">${xml}${this.runtimeXml}` +
+      `</${descriptionName}></content></entry>`
+    );
+  }
+
+  private _respond(response: http.ServerResponse, statusCode: number, body: string): void {
+    response.writeHead(statusCode, { "Content-Type": "application/atom+xml" });
+    response.end(body);
+  }
+}
+
+describe("EntityManager", function(): void {
+  let stub: AtomStub;
+  let namespace: Namespace;
+  let entityManager: EntityManager;
+  beforeEach((done: Function) => {
+    stub = new AtomStub();
+    stub.server.listen(0, () => {
+      const port = (stub.server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        {
+          retryOptions: { maxRetries: 1, minDelayInMs: 0 },
+          entityManager: { endpoint: `http://localhost:${port}` }
+        }
+      );
+      entityManager = namespace.createEntityManager({ endpoint: `http://localhost:${port}` });
+      done();
+    });
+  });
+  afterEach(async () => {
+    stub.server.close();
+    await namespace.close();
+  });
+
+  it("creates, gets, updates, lists and deletes a queue", async function(): Promise<void> {
+    const created = await entityManager.createQueue("some-queue", {
+      lockDurationInMs: 45000,
+      maxDeliveryCount: 5,
+      requiresSession: true,
+      defaultMessageTimeToLiveInMs: 86400000 + 1500,
+      userMetadata: "<metadata & more>"
+    });
+    created.should.deep.equal({
+      name: "some-queue",
+      lockDurationInMs: 45000,
+      maxDeliveryCount: 5,
+      requiresSession: true,
+      defaultMessageTimeToLiveInMs: 86400000 + 1500,
+      userMetadata: "<metadata & more>"
+    });
+    stub.entities["some-queue"].xml.should.equal(
+      "<LockDuration>PT45S</LockDuration><RequiresSession>true</RequiresSession>" +
+        "<DefaultMessageTimeToLive>P1DT1.5S</DefaultMessageTimeToLive>" +
+        "<MaxDeliveryCount>5</MaxDeliveryCount><UserMetadata>&lt;metadata &amp; more&gt;</UserMetadata>"
+    );
+    stub.requests[0].method.should.equal("PUT");
+    stub.requests[0].url.should.equal("/some-queue?api-version=2017-04");
+    stub.requests[0].headers.authorization!.should.match(
+      /^SharedAccessSignature sr=https%3A%2F%2Fa.servicebus.windows.net%2Fsome-queue&sig=/
+    );
+
+    const updated = await entityManager.updateQueue("some-queue", {
+      maxDeliveryCount: 10,
+      status: EntityStatus.sendDisabled
+    });
+    updated.maxDeliveryCount!.should.equal(10);
+    updated.status!.should.equal(EntityStatus.sendDisabled);
+    updated.lockDurationInMs!.should.equal(45000);
+
+    (await entityManager.getQueue("some-queue")).should.deep.equal(updated);
+    (await entityManager.listQueues()).should.deep.equal([updated]);
+    await entityManager.deleteQueue("some-queue");
+    (await entityManager.listQueues()).should.deep.equal([]);
+  });
+
+  it("creates, gets, updates, lists and deletes a topic", async function(): Promise<void> {
+    const created = await entityManager.createTopic("some-topic", {
+      maxSizeInMegabytes: 2048,
+      supportOrdering: true,
+      enablePartitioning: false
+    });
+    created.should.deep.equal({
+      name: "some-topic",
+      maxSizeInMegabytes: 2048,
+      supportOrdering: true,
+      enablePartitioning: false
+    });
+    stub.entities["some-topic"].descriptionName.should.equal("TopicDescription");
+
+    const updated = await entityManager.updateTopic("some-topic", {
+      autoDeleteOnIdleInMs: 3600000
+    });
+    updated.autoDeleteOnIdleInMs!.should.equal(3600000);
+    updated.maxSizeInMegabytes!.should.equal(2048);
+
+    await entityManager.createQueue("some-queue");
+    (await entityManager.getTopic("some-topic")).should.deep.equal(updated);
+    (await entityManager.listTopics()).should.deep.equal([updated]);
+    await entityManager.getTopic("some-queue").should.be.rejected;
+    await entityManager.deleteTopic("some-topic");
+    (await entityManager.listTopics()).should.deep.equal([]);
+  });
+
+  it("creates, gets, updates, lists and deletes a subscription", async function(): Promise<void> {
+    await entityManager.createTopic("some-topic");
+    const created = await entityManager.createSubscription("some-topic", "some-subscription", {
+      requiresSession: true,
+      deadLetteringOnFilterEvaluationExceptions: true,
+      forwardTo: "some-queue",
+      forwardDeadLetteredMessagesTo: "dead-letters",
+      defaultRule: {
+        filter: { label: "red", userProperties: { priority: 2, ratio: 0.5, vip: true } },
+        sqlRuleActionExpression: "SET sys.label = 'blue'",
+        name: "red-messages"
+      }
+    });
+    created.should.deep.equal({
+      topicName: "some-topic",
+      name: "some-subscription",
+      requiresSession: true,
+      deadLetteringOnFilterEvaluationExceptions: true,
+      forwardTo: "https://a.servicebus.windows.net/some-queue",
+      forwardDeadLetteredMessagesTo: "https://a.servicebus.windows.net/dead-letters"
+    });
+    const request = stub.requests[1];
+    request.url.should.equal("/some-topic/Subscriptions/some-subscription?api-version=2017-04");
+    request.headers.servicebussupplementaryauthorization!.should.match(
+      /^SharedAccessSignature sr=https%3A%2F%2Fa.servicebus.windows.net%2Fsome-queue&sig=/
+    );
+    request.headers.servicebusdlqsupplementaryauthorization!.should.match(
+      /^SharedAccessSignature sr=https%3A%2F%2Fa.servicebus.windows.net%2Fdead-letters&sig=/
+    );
+    request.body.should.contain(
+      "<DeadLetteringOnFilterEvaluationExceptions>true</DeadLetteringOnFilterEvaluationExceptions>" +
+        '<DefaultRuleDescription><Filter i:type="CorrelationFilter"><Label>red</Label>' +
+        "<Properties><KeyValueOfstringanyType><Key>priority</Key>" +
+        '<Value i:type="d6p1:int" xmlns:d6p1="http://www.w3.org/2001/XMLSchema">2</Value>' +
+        "</KeyValueOfstringanyType><KeyValueOfstringanyType><Key>ratio</Key>" +
+        '<Value i:type="d6p1:double" xmlns:d6p1="http://www.w3.org/2001/XMLSchema">0.5</Value>' +
+        "</KeyValueOfstringanyType><KeyValueOfstringanyType><Key>vip</Key>" +
+        '<Value i:type="d6p1:boolean" xmlns:d6p1="http://www.w3.org/2001/XMLSchema">true</Value>' +
+        "</KeyValueOfstringanyType></Properties></Filter>" +
+        '<Action i:type="SqlRuleAction"><SqlExpression>SET sys.label = &apos;blue&apos;' +
+        "</SqlExpression></Action><Name>red-messages</Name></DefaultRuleDescription>" +
+        "<ForwardTo>https://a.servicebus.windows.net/some-queue</ForwardTo>"
+    );
+
+    await entityManager
+      .updateSubscription("some-topic", "some-subscription", {
+        defaultRule: { filter: true }
+      })
+      .should.be.rejectedWith(
+        "'defaultRule' can only be provided while creating the subscription."
+      );
+    const updated = await entityManager.updateSubscription("some-topic", "some-subscription", {
+      maxDeliveryCount: 3
+    });
+    updated.maxDeliveryCount!.should.equal(3);
+    updated.requiresSession!.should.equal(true);
+
+    (await entityManager.getSubscription("some-topic", "some-subscription")).should.deep.equal(
+      updated
+    );
+    (await entityManager.listSubscriptions("some-topic")).should.deep.equal([updated]);
+    await entityManager.deleteSubscription("some-topic", "some-subscription");
+    (await entityManager.listSubscriptions("some-topic")).should.deep.equal([]);
+  });
+
+  it("serializes the SQL and boolean default rules", async function(): Promise<void> {
+    await entityManager.createSubscription("some-topic", "sql", {
+      defaultRule: { filter: "color = 'red' AND quantity < 10" }
+    });
+    stub.requests[0].body.should.contain(
+      '<DefaultRuleDescription><Filter i:type="SqlFilter"><SqlExpression>' +
+        "color = &apos;red&apos; AND quantity &lt; 10</SqlExpression></Filter>" +
+        '<Action i:type="EmptyRuleAction"/><Name>$Default</Name></DefaultRuleDescription>'
+    );
+    await entityManager.createSubscription("some-topic", "none", {
+      defaultRule: { filter: false }
+    });
+    stub.requests[1].body.should.contain(
+      '<Filter i:type="FalseFilter"><SqlExpression>1=0</SqlExpression></Filter>'
+    );
+    await entityManager
+      .createSubscription("some-topic", "invalid", {
+        defaultRule: { filter: { userProperties: { color: ["red"] } } }
+      })
+      .should.be.rejectedWith(
+        "The value of the user property 'color' of the correlation filter must be of type"
+      );
+    stub.requests.length.should.equal(2);
+  });
+
+  it("gets the runtime information of queues and subscriptions", async function(): Promise<void> {
+    await entityManager.createQueue("some-queue");
+    await entityManager.createTopic("some-topic");
+    await entityManager.createSubscription("some-topic", "some-subscription");
+    stub.runtimeXml =
+      "<SizeInBytes>2048</SizeInBytes><CreatedAt>2019-01-02T03:04:05.678Z</CreatedAt>" +
+      "<UpdatedAt>2019-01-03T03:04:05Z</UpdatedAt><AccessedAt>2019-01-04T03:04:05Z</AccessedAt>" +
+      "<MessageCount>15</MessageCount>" +
+      '<CountDetails xmlns:d2p1="http://schemas.microsoft.com/netservices/2011/06/servicebus">' +
+      "<d2p1:ActiveMessageCount>10</d2p1:ActiveMessageCount>" +
+      "<d2p1:DeadLetterMessageCount>2</d2p1:DeadLetterMessageCount>" +
+      "<d2p1:ScheduledMessageCount>1</d2p1:ScheduledMessageCount>" +
+      "<d2p1:TransferMessageCount>0</d2p1:TransferMessageCount>" +
+      "<d2p1:TransferDeadLetterMessageCount>2</d2p1:TransferDeadLetterMessageCount>" +
+      "</CountDetails>";
+    const expected = {
+      messageCount: 15,
+      activeMessageCount: 10,
+      deadLetterMessageCount: 2,
+      scheduledMessageCount: 1,
+      transferMessageCount: 0,
+      transferDeadLetterMessageCount: 2,
+      createdAt: new Date("2019-01-02T03:04:05.678Z"),
+      updatedAt: new Date("2019-01-03T03:04:05Z"),
+      accessedAt: new Date("2019-01-04T03:04:05Z")
+    };
+
+    const queueClient = namespace.createQueueClient("some-queue");
+    (await queueClient.getRuntimeInfo()).should.deep.equal({
+      entityPath: "some-queue",
+      ...expected,
+      sizeInBytes: 2048
+    });
+    const subscriptionClient = namespace.createSubscriptionClient(
+      "some-topic",
+      "some-subscription"
+    );
+    (await subscriptionClient.getRuntimeInfo()).should.deep.equal({
+      entityPath: "some-topic/Subscriptions/some-subscription",
+      ...expected
+    });
+    await namespace
+      .createQueueClient("missing-queue")
+      .getRuntimeInfo()
+      .should.be.rejected.and.eventually.have.property("name", "MessagingEntityNotFoundError");
+  });
+
+  it("translates the errors of the service", async function(): Promise<void> {
+    await entityManager
+      .getQueue("missing-queue")
+      .should.be.rejected.and.eventually.have.property("name", "MessagingEntityNotFoundError");
+    await entityManager
+      .updateQueue("missing-queue", { maxDeliveryCount: 1 })
+      .should.be.rejected.and.eventually.have.property("name", "MessagingEntityNotFoundError");
+    await entityManager.createQueue("some-queue");
+    const error = await entityManager.createQueue("some-queue").should.be.rejected;
+    error.name.should.equal("MessagingEntityAlreadyExistsError");
+    error.message.should.contain("Conflict");
+    should.equal(error.retryable, false);
+  });
+
+  it("retries when the service is busy", async function(): Promise<void> {
+    stub.failures.push(503);
+    await entityManager.createQueue("some-queue");
+    stub.requests.length.should.equal(2);
+    stub.failures.push(503, 503);
+    const error = await entityManager.getQueue("some-queue").should.be.rejected;
+    error.name.should.equal("ServerBusyError");
+    error.attemptCount.should.equal(2);
+  });
+
+  it("validates the description", async function(): Promise<void> {
+    await entityManager
+      .createQueue("some-queue", { maxDeliveryCount: "5" as any })
+      .should.be.rejectedWith(
+        "'maxDeliveryCount' must be of type 'number' with a value greater than or equal to 0."
+      );
+    stub.requests.length.should.equal(0);
+  });
+});
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import {
+  Namespace,
+  SendableMessageInfo,
+  Filter,
+  SqlFilterExpression,
+  parseSqlFilter,
+  evaluateSqlFilter
+} from "../lib";
+
+describe("Filter builder", function(): void {
+  const message: SendableMessageInfo = {
+    body: "hello",
+    label: "O'Brien",
+    userProperties: { quantity: 12, color: "red", "unit price": 3, not: true }
+  };
+
+  it("builds the SQL expressions with escaped names and values", function(): void {
+    Filter.sql()
+      .where("quantity")
+      .gt(10)
+      .and()
+      .label()
+      .eq("O'Brien")
+      .build()
+      .should.equal("user.quantity > 10 AND sys.Label = 'O''Brien'");
+    Filter.sql()
+      .where("unit price")
+      .le(3)
+      .or()
+      .where("a]b")
+      .in("x", 1, true)
+      .and()
+      .where("not")
+      .isNotNull()
+      .build()
+      .should.equal(
+        "user.[unit price] <= 3 OR user.[a]]b] IN ('x', 1, TRUE) AND user.[not] IS NOT NULL"
+      );
+    Filter.sql()
+      .not()
+      .group(
+        Filter.sql()
+          .where("color")
+          .like("50!%%", "!")
+          .or()
+          .where("size")
+          .exists()
+      )
+      .toString()
+      .should.equal("NOT (user.color LIKE '50!%%' ESCAPE '!' OR EXISTS(user.size))");
+  });
+
+  it("builds the expressions that the parser accepts and the evaluator matches", function(): void {
+    const filters: Array<[SqlFilterExpression, boolean]> = [
+      [
+        Filter.sql()
+          .where("quantity")
+          .gt(10)
+          .and()
+          .label()
+          .eq("O'Brien"),
+        true
+      ],
+      [
+        Filter.sql()
+          .where("unit price")
+          .ge(3)
+          .and()
+          .where("not")
+          .eq(true),
+        true
+      ],
+      [
+        Filter.sql()
+          .where("color")
+          .notIn("blue", "green"),
+        true
+      ],
+      [
+        Filter.sql()
+          .label()
+          .notLike("O'%"),
+        false
+      ],
+      [
+        Filter.sql()
+          .not()
+          .group(
+            Filter.sql()
+              .where("size")
+              .isNull()
+          ),
+        false
+      ]
+    ];
+    for (const [filter, matches] of filters) {
+      parseSqlFilter(filter.build());
+      evaluateSqlFilter(filter.build(), message).should.equal(matches, filter.build());
+    }
+  });
+
+  it("rejects the values that can not be expressed", function(): void {
+    const condition = Filter.sql().where("quantity");
+    (() => condition.eq(NaN)).should.throw("must be finite");
+    (() => condition.eq({} as any)).should.throw("must be of type 'string', 'number' or 'boolean'");
+    (() => condition.in()).should.throw("At least one value must be provided.");
+    (() => condition.like("a%", "!!")).should.throw("'escape' must be of type 'string'");
+    (() => Filter.sql().where("")).should.throw("The property name is a required parameter");
+  });
+
+  it("validates and copies the correlation filters", function(): void {
+    const userProperties = { priority: 1, sentOn: new Date(0) };
+    const filter = Filter.correlation({ label: "red", sessionId: undefined, userProperties });
+    filter.should.deep.equal({ label: "red", userProperties: userProperties });
+    filter.userProperties!.should.not.equal(userProperties);
+    (() => Filter.correlation({})).should.throw("At least one property");
+    (() => Filter.correlation({ label: 1 } as any)).should.throw("'label' must be of type");
+    (() => Filter.correlation({ userProperties: { a: [1] } })).should.throw(
+      "The user property 'a' must be of type"
+    );
+    Filter.trueFilter().should.equal(true);
+    Filter.falseFilter().should.equal(false);
+  });
+
+  it("provides the built expressions to addRule", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    const client = namespace.createSubscriptionClient("some-topic", "some-subscription");
+    const managementClient = (client as any)._context.managementClient;
+    let request: any;
+    managementClient._makeManagementRequest = async (value: any) => {
+      request = value;
+    };
+    await client.addRule(
+      "some-rule",
+      Filter.sql()
+        .where("color")
+        .eq("red")
+    );
+    JSON.stringify(request.body["rule-description"]).should.equal(
+      `["sql-filter",["expression","user.color = 'red'"]]`
+    );
+    await namespace.close();
+  });
+});
@@ -0,0 +1,65 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import { Server } from "net";
+import { Namespace, HealthCheckStep } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Namespace health check", function(): void {
+  let server: Server;
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      done();
+    });
+  });
+  afterEach(() => {
+    server.close();
+  });
+
+  it("opens the connection, negotiates the claim and peeks 0 messages", async function(): Promise<
+    void
+  > {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net;SharedAccessKeyName=b;SharedAccessKey=c",
+      { webSocket: { webSocketImpl: TcpWebSocket } }
+    );
+    const result = await namespace.checkHealth("some-name", { includeManagement: true });
+    await namespace.close();
+
+    should.equal(result.healthy, true);
+    should.equal(result.entityPath, "some-name");
+    result.steps
+      .map((step) => step.step)
+      .should.deep.equal([
+        HealthCheckStep.connection,
+        HealthCheckStep.claim,
+        HealthCheckStep.management
+      ]);
+    for (const step of result.steps) {
+      should.equal(step.succeeded, true);
+      should.equal(step.error, undefined);
+    }
+    result.tokenExpiresOn!.getTime().should.be.greaterThan(Date.now());
+  });
+
+  it("reports the failed step and skips the steps that follow it", async function(): Promise<void> {
+    server.close();
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net;SharedAccessKeyName=b;SharedAccessKey=c",
+      { webSocket: { webSocketImpl: TcpWebSocket } }
+    );
+    const result = await namespace.checkHealth("some-name", { timeoutInMs: 1000 });
+    await namespace.close();
+
+    should.equal(result.healthy, false);
+    should.equal(result.tokenExpiresOn, undefined);
+    result.steps.length.should.equal(1);
+    should.equal(result.steps[0].step, HealthCheckStep.connection);
+    should.equal(result.steps[0].succeeded, false);
+    should.exist(result.steps[0].error);
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { EventContext } from "rhea";
+import { Namespace, SendableMessageInfo, SendResult } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Idempotency", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let receivedMessageIds: any[];
+  beforeEach((done: Function) => {
+    receivedMessageIds = [];
+    server = createListener((context: EventContext) => {
+      receivedMessageIds.push(context.message!.message_id);
+      context.delivery!.accept();
+    });
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("derives the messageId from the content of the message", async function(): Promise<void> {
+    const client = namespace.createQueueClient("some-name", { idempotency: true });
+    const message: SendableMessageInfo = { body: { orderId: 7 }, label: "order" };
+    const first = await client.send(message);
+    const second = await client.send({ body: { orderId: 7 }, label: "order" });
+    const other = await client.send({ body: { orderId: 7 }, label: "refund" });
+    const own = await client.send({ body: { orderId: 7 }, label: "order", messageId: "own" });
+
+    (first.messageId as string).should.match(/^[0-9a-f]{64}$/);
+    second.messageId!.should.equal(first.messageId);
+    other.messageId!.should.not.equal(first.messageId);
+    own.messageId!.should.equal("own");
+    receivedMessageIds.should.deep.equal([
+      first.messageId,
+      first.messageId,
+      other.messageId,
+      "own"
+    ]);
+    // The message of the caller is not changed.
+    message.should.deep.equal({ body: { orderId: 7 }, label: "order" });
+  });
+
+  it("provides a random messageId if the mode is not enabled", async function(): Promise<void> {
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+    const client = namespace.createQueueClient("some-name");
+    const message: SendableMessageInfo = { body: "no id" };
+    const first = await client.send(message);
+    const second = await client.send(message);
+    (first.messageId as string).should.match(uuidPattern);
+    first.messageIds.should.deep.equal([first.messageId]);
+    second.messageId!.should.not.equal(first.messageId);
+    receivedMessageIds.should.deep.equal([first.messageId, second.messageId]);
+    // The message of the caller is not changed.
+    message.should.deep.equal({ body: "no id" });
+
+    const batch = await client.sendBatch([{ body: "a", messageId: "own" }, { body: "b" }]);
+    batch.messageIds[0].should.equal("own");
+    (batch.messageIds[1] as string).should.match(uuidPattern);
+
+    const bufferedSender = client.createBufferedSender({ lingerInMs: 0 });
+    const added = await bufferedSender.add({ body: "c" });
+    (added.message.messageId as string).should.match(uuidPattern);
+    (await added.result).messageId!.should.equal(added.message.messageId);
+    await bufferedSender.close();
+  });
+
+  it("uses the business key provided for the message", async function(): Promise<void> {
+    const client = namespace.createTopicClient("some-topic", {
+      idempotency: {
+        getKey: (message: SendableMessageInfo) =>
+          message.userProperties ? `order-${message.userProperties.orderId}` : undefined
+      }
+    });
+    const datas: SendableMessageInfo[] = [
+      { body: "a", userProperties: { orderId: 1 } },
+      { body: "b", userProperties: { orderId: 2 } }
+    ];
+    (await client.sendBatch(datas)).messageIds.should.deep.equal(["order-1", "order-2"]);
+
+    const batch = await client.createBatch();
+    batch.tryAdd({ body: "c", userProperties: { orderId: 3 } });
+    batch.tryAdd({ body: "d" });
+    batch.messages[0].messageId!.should.equal("order-3");
+    (batch.messages[1].messageId as string).should.match(/^[0-9a-f]{64}$/);
+
+    const split = await client.sendBatch(
+      [{ body: "z".repeat(200000) }, { body: "y".repeat(200000), userProperties: { orderId: 4 } }],
+      { split: true }
+    );
+    split.batchCount.should.equal(2);
+    const splitIds = split.results.map((result: SendResult) => result.messageIds[0] as string);
+    splitIds[0].should.match(/^[0-9a-f]{64}$/);
+    splitIds[1].should.equal("order-4");
+
+    const bufferedSender = client.createBufferedSender({ lingerInMs: 0 });
+    const added = await bufferedSender.add({ body: "e", userProperties: { orderId: 5 } });
+    added.message.messageId!.should.equal("order-5");
+    (await added.result).messageId!.should.equal("order-5");
+    await bufferedSender.close();
+  });
+
+  it("validates the options", async function(): Promise<void> {
+    (() => namespace.createQueueClient("some-name", { idempotency: "yes" as any })).should.throw(
+      "'idempotency' must be of type 'boolean' or 'IdempotencyOptions'."
+    );
+    const client = namespace.createQueueClient("some-name", {
+      idempotency: { getKey: () => "" }
+    });
+    await client
+      .send({ body: "a" })
+      .should.be.rejectedWith("The key provided by 'getKey' must be a non-empty string.");
+  });
+});
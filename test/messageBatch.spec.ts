@@ -0,0 +1,77 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { Namespace, QueueClient, SendableMessageInfo } from "../lib";
+import { TcpWebSocket, createListener, recordTransfers } from "./testUtils";
+
+describe("Message batch", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  const messages: SendableMessageInfo[] = [
+    { body: "short", messageId: "1", sessionId: "session", userProperties: { a: 1 } },
+    { body: "x".repeat(300), messageId: "2", label: "long" },
+    { body: { nested: [1, 2, 3] }, messageId: "3" }
+  ];
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("computes the exact size of the batch message that is sent", async function(): Promise<void> {
+    const batch = await client.createBatch();
+    batch.maxSizeInBytes.should.equal(256 * 1024);
+    batch.count.should.equal(0);
+    batch.sizeInBytes.should.equal(0);
+    for (const message of messages) {
+      batch.tryAdd(message).should.equal(true);
+    }
+    batch.count.should.equal(3);
+    batch.messages.should.deep.equal(messages);
+
+    const transfers = recordTransfers(client);
+    await client.send(batch);
+    await client.sendBatch(messages);
+    transfers.should.deep.equal([
+      { sizeInBytes: batch.sizeInBytes, format: 0x80013700 },
+      { sizeInBytes: batch.sizeInBytes, format: 0x80013700 }
+    ]);
+  });
+
+  it("rejects the messages that exceed the maximum size", async function(): Promise<void> {
+    const probe = await client.createBatch();
+    probe.tryAdd(messages[0]);
+    const batch = await client.createBatch({ maxSizeInBytes: probe.sizeInBytes + 60 });
+    batch.tryAdd(messages[0]).should.equal(true);
+    batch.tryAdd(messages[1]).should.equal(false);
+    batch.tryAdd({ body: "y", messageId: "4" }).should.equal(true);
+    batch.count.should.equal(2);
+    should.equal(batch.sizeInBytes <= batch.maxSizeInBytes, true);
+
+    const tooSmall = await client.createBatch({ maxSizeInBytes: 10 });
+    tooSmall.tryAdd(messages[0]).should.equal(false);
+    await client
+      .send(tooSmall)
+      .should.be.rejectedWith("The batch must contain at least one message.");
+    await client
+      .createBatch({ maxSizeInBytes: 1024 * 1024 })
+      .should.be.rejectedWith("can not exceed the maximum message size of the link");
+  });
+});
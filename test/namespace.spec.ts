@@ -7,7 +7,17 @@ import chaiAsPromised from "chai-as-promised";
 import dotenv from "dotenv";
 dotenv.config();
 chai.use(chaiAsPromised);
-import { Namespace, delay } from "../lib";
+import { Server } from "net";
+import { create_container } from "rhea";
+import {
+  Namespace,
+  delay,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionPoolStrategy,
+  QueueClient
+} from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
 
 function testFalsyValues(testFn: Function): void {
   [undefined, "", 0].forEach(function(value: string | number | undefined): void {
@@ -35,6 +45,105 @@ describe("Create Namespace", function(): void {
     namespace.should.be.an.instanceof(Namespace);
     should.equal(namespace.name, "sb://a/");
   });
+
+  it("throws when the connection count is not a positive integer", function(): void {
+    [0, -1, 1.5].forEach(function(value: number): void {
+      const test = function(): void {
+        Namespace.createFromConnectionString(
+          "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c;EntityPath=d",
+          { connectionCount: value }
+        );
+      };
+      test.should.throw(
+        Error,
+        "'connectionCount' must be of type 'number' with an integer value greater than 0."
+      );
+    });
+  });
+});
+
+describe("Connection pooling", function(): void {
+  let server: Server;
+  let port: number;
+  let closedConnections: number;
+  beforeEach((done: Function) => {
+    closedConnections = 0;
+    const container = create_container();
+    container.on("connection_close", () => closedConnections++);
+    server = createListener(undefined, container);
+    server.on("listening", () => {
+      port = (server.address() as { port: number }).port;
+      done();
+    });
+  });
+  afterEach(() => {
+    server.close();
+  });
+
+  function createNamespace(connectionPoolStrategy: ConnectionPoolStrategy): Namespace {
+    TcpWebSocket.port = port;
+    return Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+      {
+        connectionCount: 3,
+        connectionPoolStrategy: connectionPoolStrategy,
+        webSocket: { webSocketImpl: TcpWebSocket }
+      }
+    );
+  }
+
+  function contextIndexOf(namespace: Namespace, client: QueueClient): number {
+    return (namespace as any)._contexts.findIndex((context: any) => {
+      return context.clients[client.id] === client;
+    });
+  }
+
+  it("assigns the clients to the connections in turn with roundRobin", async function(): Promise<
+    void
+  > {
+    const namespace = createNamespace(ConnectionPoolStrategy.roundRobin);
+    const clients = ["a", "a", "b", "c", "d"].map((name) => namespace.createQueueClient(name));
+    clients.map((client) => contextIndexOf(namespace, client)).should.deep.equal([0, 1, 2, 0, 1]);
+    await namespace.close();
+  });
+
+  it("assigns the clients to the connection of their entity with entityHash", async function(): Promise<
+    void
+  > {
+    const namespace = createNamespace(ConnectionPoolStrategy.entityHash);
+    // The hash code of a single character is its char code: 97 for "a", 98 for "b", 99 for "c".
+    const clients = ["a", "b", "c"].map((name) => namespace.createQueueClient(name));
+    clients.map((client) => contextIndexOf(namespace, client)).should.deep.equal([1, 2, 0]);
+    await namespace.close();
+  });
+
+  it("always assigns the clients of the same entity to the same connection", async function(): Promise<
+    void
+  > {
+    const namespace = createNamespace(ConnectionPoolStrategy.entityHash);
+    const indices = [1, 2, 3, 4].map(() => {
+      return contextIndexOf(namespace, namespace.createQueueClient("my-queue"));
+    });
+    indices.should.deep.equal([indices[0], indices[0], indices[0], indices[0]]);
+    const topicClient = namespace.createTopicClient("my-queue");
+    (namespace as any)._contexts[indices[0]].clients[topicClient.id].should.equal(topicClient);
+    await namespace.close();
+  });
+
+  it("closes every pooled connection", async function(): Promise<void> {
+    const namespace = createNamespace(ConnectionPoolStrategy.roundRobin);
+    const clients = ["a", "b", "c"].map((name) => namespace.createQueueClient(name));
+    await Promise.all(clients.map((client) => client.send({ body: "hello" })));
+    const contexts: any[] = (namespace as any)._contexts;
+    contexts.forEach((context) => context.connection.isOpen().should.equal(true));
+
+    await namespace.close();
+    contexts.forEach((context) => {
+      context.connection.isOpen().should.equal(false);
+      context.wasConnectionCloseCalled.should.equal(true);
+    });
+    closedConnections.should.equal(3);
+  });
 });
 
 describe("Create Queue/Topic/Subscription Clients with no name", function(): void {
@@ -116,6 +225,22 @@ describe("Errors when send/receive to/from non existing Namespace", function():
     should.equal(errorWasThrown, true);
   });
 
+  it("emits the disconnected event when connecting to a non existing namespace", async function(): Promise<
+    void
+  > {
+    let stateChange: ConnectionStateChange | undefined;
+    namespace.on(ConnectionState.disconnected, (change: ConnectionStateChange) => {
+      stateChange = change;
+    });
+    const client = namespace.createQueueClient("some-name");
+    await client.send({ body: "hello" }).catch(testError);
+
+    should.equal(errorWasThrown, true);
+    should.exist(stateChange);
+    should.equal(stateChange!.state, ConnectionState.disconnected);
+    should.equal(stateChange!.numClients, 1);
+  });
+
   it("throws when sending data via a topicClient to a non existing namespace", async function(): Promise<
     void
   > {
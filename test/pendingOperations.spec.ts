@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import { delay } from "../lib";
+import { PendingOperations } from "../lib/util/pendingOperations";
+
+describe("PendingOperations", function(): void {
+  it("stops tracking an operation once it is settled", async function(): Promise<void> {
+    const pending = new PendingOperations();
+    const succeeded = pending.track(delay(10));
+    const failed = pending.track(delay(10).then(() => Promise.reject(new Error("failed"))));
+    should.equal(pending.count, 2);
+    await succeeded;
+    await failed.catch(() => undefined);
+    should.equal(pending.count, 0);
+  });
+
+  it("waits for the operations that are started while waiting", async function(): Promise<void> {
+    const pending = new PendingOperations();
+    let completed = 0;
+    let laterOperation: Promise<number> | undefined;
+    const operation = pending.track(
+      delay(10).then(() => {
+        laterOperation = pending.track(delay(30).then(() => completed++));
+      })
+    );
+    const drained = await pending.waitForAll(1000);
+    should.equal(drained, true);
+    should.equal(completed, 1);
+    await operation;
+    await laterOperation;
+  });
+
+  it("stops waiting when the timeout occurs", async function(): Promise<void> {
+    const pending = new PendingOperations();
+    const operation = pending.track(delay(200));
+    const drained = await pending.waitForAll(20);
+    should.equal(drained, false);
+    should.equal(pending.count, 1);
+    await operation;
+  });
+});
@@ -0,0 +1,64 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+/**
+ * Measures the throughput of `send()` against a local AMQP listener, that settles every message
+ * after a delay to simulate the round trip to ServiceBus, for several sizes of the send window.
+ *
+ * Run it with: `npx ts-node -O '{"module":"commonjs"}' test/perf/sendThroughput.ts`
+ */
+import { EventContext } from "rhea";
+import { Namespace } from "../../lib";
+import { TcpWebSocket, createListener } from "../testUtils";
+
+const messageCount = Number(process.env.MESSAGE_COUNT) || 1000;
+const settleDelayInMs = Number(process.env.SETTLE_DELAY_IN_MS) || 5;
+const windows = [1, 10, 100];
+
+async function measure(maxInFlightSends: number): Promise<number> {
+  const namespace = Namespace.createFromConnectionString(
+    "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+    { webSocket: { webSocketImpl: TcpWebSocket }, maxInFlightSends: maxInFlightSends }
+  );
+  try {
+    const client = namespace.createQueueClient("some-name");
+    // The link is opened before the measurement starts.
+    await client.createBatch();
+    const startTime = Date.now();
+    const sends: Array<Promise<any>> = [];
+    for (let i = 0; i < messageCount; i++) {
+      sends.push(client.send({ body: `message ${i}`, messageId: String(i) }));
+    }
+    await Promise.all(sends);
+    return Date.now() - startTime;
+  } finally {
+    await namespace.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const server = createListener((context: EventContext) => {
+    setTimeout(() => context.delivery!.accept(), settleDelayInMs);
+  });
+  await new Promise((resolve: Function) => server.on("listening", () => resolve()));
+  TcpWebSocket.port = (server.address() as { port: number }).port;
+  try {
+    console.log("Sending %d messages, each settled after %d ms:", messageCount, settleDelayInMs);
+    for (const maxInFlightSends of windows) {
+      const elapsedInMs = await measure(maxInFlightSends);
+      console.log(
+        "maxInFlightSends: %d\t%d ms\t%d messages/s",
+        maxInFlightSends,
+        elapsedInMs,
+        Math.round((messageCount * 1000) / elapsedInMs)
+      );
+    }
+  } finally {
+    server.close();
+  }
+}
+
+main().catch((err: Error) => {
+  console.log("Error occurred: ", err);
+  process.exitCode = 1;
+});
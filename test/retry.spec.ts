@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { MessagingError, RetryOperationType } from "@azure/amqp-common";
+import { Namespace, RetryMode } from "../lib";
+import { retry, normalizeRetryOptions, calculateRetryDelay } from "../lib/util/retry";
+import { MessageSender } from "../lib/core/messageSender";
+import { StreamingReceiver } from "../lib/core/streamingReceiver";
+
+function createError(retryable: boolean): MessagingError {
+  const error = new MessagingError("Something went wrong.");
+  error.retryable = retryable;
+  error.translated = true;
+  return error;
+}
+
+describe("Retry options", function(): void {
+  it("fills in the defaults and gives precedence to the later options", function(): void {
+    const options = normalizeRetryOptions(
+      { maxRetries: 10, minDelayInMs: 100 },
+      { maxRetries: 2, minDelayInMs: undefined }
+    );
+    should.equal(options.maxRetries, 2);
+    should.equal(options.minDelayInMs, 100);
+    should.equal(options.mode, RetryMode.fixed);
+    should.equal(options.timeoutInMs, 60000);
+  });
+
+  it("doubles the delay in exponential mode without exceeding the maximum", function(): void {
+    const options = normalizeRetryOptions({
+      mode: RetryMode.exponential,
+      minDelayInMs: 100,
+      maxDelayInMs: 300,
+      jitter: 0
+    });
+    should.equal(calculateRetryDelay(options, 1), 100);
+    should.equal(calculateRetryDelay(options, 2), 200);
+    should.equal(calculateRetryDelay(options, 3), 300);
+  });
+
+  it("throws when creating a Namespace with invalid retry options", function(): void {
+    const test = function(): void {
+      Namespace.createFromConnectionString(
+        "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c;EntityPath=d",
+        { retryOptions: { jitter: 2 } }
+      );
+    };
+    test.should.throw(Error, "'jitter' must be of type 'number' with a value between 0 and 1.");
+  });
+
+  it("re-establishes the links with their own retry policy", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c;EntityPath=d",
+      { retryOptions: { maxRetries: 1, minDelayInMs: 10, jitter: 1, timeoutInMs: 100 } }
+    );
+    const client = namespace.createQueueClient("some-name");
+    const links = [
+      MessageSender.create((client as any)._context),
+      StreamingReceiver.create((client as any)._context)
+    ];
+    for (const link of links) {
+      (link as any)._getLinkRetryOptions().should.deep.equal({
+        maxRetries: 149,
+        mode: RetryMode.fixed,
+        minDelayInMs: 15000,
+        maxDelayInMs: 60000,
+        jitter: 0,
+        timeoutInMs: 60000
+      });
+    }
+    await namespace.close();
+  });
+});
+
+describe("Retry", function(): void {
+  it("retries a retryable error and reports the number of attempts", async function(): Promise<
+    void
+  > {
+    let calls = 0;
+    const error = await retry<void>({
+      operation: async () => {
+        calls++;
+        throw createError(true);
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.sendMessage,
+      retryOptions: { maxRetries: 2, minDelayInMs: 0 }
+    }).should.be.rejected;
+    should.equal(calls, 3);
+    should.equal(error.attemptCount, 3);
+  });
+
+  it("makes 3 attempts in total by default", async function(): Promise<void> {
+    let calls = 0;
+    const error = await retry<void>({
+      operation: async () => {
+        calls++;
+        throw createError(true);
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.sendMessage,
+      retryOptions: { minDelayInMs: 0 }
+    }).should.be.rejected;
+    should.equal(calls, 3);
+    should.equal(error.attemptCount, 3);
+  });
+
+  it("does not retry an error that is not retryable", async function(): Promise<void> {
+    let calls = 0;
+    const error = await retry<void>({
+      operation: async () => {
+        calls++;
+        throw createError(false);
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.sendMessage,
+      retryOptions: { maxRetries: 2, minDelayInMs: 0 }
+    }).should.be.rejected;
+    should.equal(calls, 1);
+    should.equal(error.attemptCount, 1);
+  });
+
+  it("returns the result of a successful attempt", async function(): Promise<void> {
+    const result = await retry<number>({
+      operation: async (attempt: number) => {
+        if (attempt < 2) throw createError(true);
+        return attempt;
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.sendMessage,
+      retryOptions: { minDelayInMs: 0 }
+    });
+    should.equal(result, 2);
+  });
+});
@@ -0,0 +1,143 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Namespace, SubscriptionClient, RuleDescription, CorrelationFilter } from "../lib";
+
+/**
+ * Replaces the rule operations of the management client of the given subscription client with an
+ * in-memory rule set, that records the operations in the order in which they were made.
+ */
+function useInMemoryRules(
+  client: SubscriptionClient,
+  rules: RuleDescription[]
+): { operations: string[]; failingOperation?: string } {
+  const state: { operations: string[]; failingOperation?: string } = { operations: [] };
+  const managementClient = (client as any)._context.managementClient;
+  managementClient.getRules = async () => rules.map((rule: RuleDescription) => ({ ...rule }));
+  managementClient.addRule = async (
+    name: string,
+    filter: boolean | string | CorrelationFilter,
+    action?: string
+  ) => {
+    const operation = /^[0-9a-f-]{36}$/.test(name) ? "add temporary" : `add ${name}`;
+    if (operation === state.failingOperation) throw new Error(`${operation} failed`);
+    state.operations.push(operation);
+    rules.push({
+      name: name,
+      filter:
+        typeof filter === "object"
+          ? filter
+          : { expression: typeof filter === "boolean" ? (filter ? "1=1" : "1=0") : filter },
+      action: action ? { expression: action } : undefined
+    });
+  };
+  managementClient.removeRule = async (name: string) => {
+    const operation = /^[0-9a-f-]{36}$/.test(name) ? "remove temporary" : `remove ${name}`;
+    if (operation === state.failingOperation) throw new Error(`${operation} failed`);
+    state.operations.push(operation);
+    rules.splice(rules.findIndex((rule: RuleDescription) => rule.name === name), 1);
+  };
+  return state;
+}
+
+describe("Rule updates", function(): void {
+  let namespace: Namespace;
+  let client: SubscriptionClient;
+  let rules: RuleDescription[];
+  beforeEach(() => {
+    namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    client = namespace.createSubscriptionClient("some-topic", "some-subscription");
+    rules = [
+      { name: "$Default", filter: { expression: "1=1" } },
+      {
+        name: "red",
+        filter: {
+          correlationId: undefined,
+          label: "red",
+          userProperties: { priority: 1 }
+        } as CorrelationFilter
+      },
+      { name: "large", filter: { expression: "size > 10" }, action: { expression: "SET a = 1" } }
+    ];
+  });
+  afterEach(async () => {
+    await namespace.close();
+  });
+
+  it("updates a rule by adding a temporary rule first", async function(): Promise<void> {
+    const state = useInMemoryRules(client, rules);
+    const changes = await client.updateRule("large", "size > 20", "SET a = 1");
+    changes.should.deep.equal({ added: [], updated: ["large"], removed: [], unchanged: [] });
+    state.operations.should.deep.equal([
+      "add temporary",
+      "remove large",
+      "add large",
+      "remove temporary"
+    ]);
+    rules.map((rule: RuleDescription) => rule.name).should.deep.equal(["$Default", "red", "large"]);
+    rules[2].filter!.should.deep.equal({ expression: "size > 20" });
+  });
+
+  it("leaves the rules that already have the desired filter and action", async function(): Promise<
+    void
+  > {
+    const state = useInMemoryRules(client, rules);
+    (await client.updateRule("$Default", true)).unchanged.should.deep.equal(["$Default"]);
+    (await client.updateRule("red", {
+      userProperties: { priority: 1 },
+      label: "red"
+    })).unchanged.should.deep.equal(["red"]);
+    (await client.updateRule("blue", { label: "blue" })).added.should.deep.equal(["blue"]);
+    state.operations.should.deep.equal(["add blue"]);
+  });
+
+  it("replaces the rules by adding and updating before removing", async function(): Promise<void> {
+    const state = useInMemoryRules(client, rules);
+    const changes = await client.replaceRules([
+      { name: "blue", filter: { label: "blue" } },
+      { name: "large", filter: "size > 10", sqlRuleActionExpression: "SET a = 2" },
+      { name: "red", filter: { label: "red", userProperties: { priority: 1 } } }
+    ]);
+    changes.should.deep.equal({
+      added: ["blue"],
+      updated: ["large"],
+      removed: ["$Default"],
+      unchanged: ["red"]
+    });
+    state.operations.should.deep.equal([
+      "add blue",
+      "add temporary",
+      "remove large",
+      "add large",
+      "remove temporary",
+      "remove $Default"
+    ]);
+  });
+
+  it("restores the rule set if the current rule can not be removed", async function(): Promise<
+    void
+  > {
+    const state = useInMemoryRules(client, rules);
+    state.failingOperation = "remove large";
+    await client.updateRule("large", false).should.be.rejectedWith("remove large failed");
+    state.operations.should.deep.equal(["add temporary", "remove temporary"]);
+    rules.map((rule: RuleDescription) => rule.name).should.deep.equal(["$Default", "red", "large"]);
+  });
+
+  it("validates the rule set before applying it", async function(): Promise<void> {
+    const state = useInMemoryRules(client, rules);
+    await client
+      .replaceRules([{ name: "a", filter: true }, { name: "a", filter: false }])
+      .should.be.rejectedWith("The rule 'a' is provided more than once.");
+    await client
+      .replaceRules([{ name: "a", filter: "" }])
+      .should.be.rejectedWith("Cannot update rule 'a'. Filter is missing.");
+    state.operations.should.deep.equal([]);
+  });
+});
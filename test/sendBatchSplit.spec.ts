@@ -0,0 +1,89 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { Namespace, QueueClient, SendableMessageInfo } from "../lib";
+import { TcpWebSocket, createListener, recordTransfers } from "./testUtils";
+
+describe("Send batch split", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("splits the messages into as many batches as needed", async function(): Promise<void> {
+    const datas: SendableMessageInfo[] = [];
+    for (let i = 0; i < 300; i++) {
+      datas.push({ body: "z".repeat(2000), messageId: String(i) });
+    }
+    datas[150] = { body: "z".repeat(300 * 1024), messageId: "150" };
+    datas[299] = { ...datas[299], sessionId: "other" };
+    // The link is opened by creating a batch.
+    await client.createBatch();
+    const transfers = recordTransfers(client);
+    const result = await client.sendBatch(datas, { split: true, maxConcurrentSends: 2 });
+    result.batchCount.should.equal(transfers.length);
+    transfers.length.should.equal(5);
+    for (const transfer of transfers) {
+      should.equal(transfer.sizeInBytes <= 256 * 1024, true);
+    }
+    result.sentMessageCount.should.equal(299);
+    result.failedSlices.length.should.equal(1);
+    result.failedSlices[0].startIndex.should.equal(150);
+    result.failedSlices[0].messages.should.deep.equal([datas[150]]);
+    result.failedSlices[0].error.message.should.equal(
+      "The message at index 150 exceeds the maximum message size of 262144 bytes."
+    );
+  });
+
+  it("reports the batches that could not be sent", async function(): Promise<void> {
+    await client.createBatch();
+    const sender = (client as any)._context.sender;
+    const send = sender.send.bind(sender);
+    let sendCount = 0;
+    sender.send = (batch: any, options: any) => {
+      sendCount++;
+      return sendCount === 2 ? Promise.reject(new Error("busy")) : send(batch, options);
+    };
+    const datas: SendableMessageInfo[] = [];
+    for (let i = 0; i < 200; i++) {
+      datas.push({ body: "z".repeat(3000) });
+    }
+    const result = await client.sendBatch(datas, { split: true, maxConcurrentSends: 1 });
+    result.batchCount.should.equal(3);
+    result.failedSlices.length.should.equal(1);
+    const slice = result.failedSlices[0];
+    slice.error.message.should.equal("busy");
+    // The messages of the slice have the messageId they were sent with.
+    slice.messages
+      .map((message: SendableMessageInfo) => ({ ...message, messageId: undefined }))
+      .should.deep.equal(
+        datas
+          .slice(slice.startIndex, slice.startIndex + slice.messages.length)
+          .map((data: SendableMessageInfo) => ({ ...data, messageId: undefined }))
+      );
+    slice.messages
+      .every((message: SendableMessageInfo) => Boolean(message.messageId))
+      .should.equal(true);
+    result.sentMessageCount.should.equal(200 - slice.messages.length);
+  });
+});
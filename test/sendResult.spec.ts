@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { Namespace, QueueClient, SendableMessageInfo } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Send result", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  const messages: SendableMessageInfo[] = [
+    { body: "short", messageId: "1", sessionId: "session", userProperties: { a: 1 } },
+    { body: "x".repeat(300), messageId: "2", label: "long" },
+    { body: { nested: [1, 2, 3] }, messageId: "3" }
+  ];
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("provides the result of the send operations", async function(): Promise<void> {
+    const result = await client.send(messages[0]);
+    result.entityPath.should.equal("some-name");
+    result.outcome.should.equal("accepted");
+    result.messageId!.should.equal("1");
+    result.messageIds.should.deep.equal(["1"]);
+    should.equal(result.latencyInMs >= 0, true);
+    should.equal(result.error, undefined);
+
+    const batchResult = await client.sendBatch(messages);
+    batchResult.messageIds.should.deep.equal(["1", "2", "3"]);
+    const splitResult = await client.sendBatch([messages[1], { body: "unnamed" }], {
+      split: true
+    });
+    splitResult.results.length.should.equal(1);
+    const [id, generatedId] = splitResult.results[0].messageIds;
+    id.should.equal("2");
+    generatedId.should.be.a("string");
+  });
+
+  it("provides the result of a rejected send operation", async function(): Promise<void> {
+    await client.createBatch();
+    const link = (client as any)._context.sender._sender;
+    link.send = () => {
+      const delivery = {
+        id: 1,
+        remote_state: {
+          error: { condition: "amqp:link:message-size-exceeded", description: "too large" }
+        }
+      };
+      setTimeout(() => link.emit("rejected", { delivery: delivery }));
+      return delivery;
+    };
+    const err = await client.send(messages[2]).should.be.rejectedWith("too large");
+    err.sendResult.outcome.should.equal("rejected");
+    err.sendResult.messageIds.should.deep.equal(["3"]);
+    err.sendResult.error.should.equal(err);
+  });
+});
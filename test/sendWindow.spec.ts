@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { EventContext } from "rhea";
+import { Namespace, QueueClient, RetryOptions, SendResult } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("Send window", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let client: QueueClient;
+  let received: string[];
+  let unsettled: number;
+  let maxUnsettled: number;
+
+  /**
+   * Starts a local listener that settles every message after a delay: the messages whose id
+   * starts with "reject" are rejected, the ones whose id starts with "release" are released the
+   * first time they are received, the ones whose id starts with "slow" are settled after a longer
+   * delay and the other ones are accepted.
+   */
+  function startListener(
+    maxInFlightSends: number,
+    done: Function,
+    retryOptions?: RetryOptions
+  ): void {
+    received = [];
+    unsettled = 0;
+    maxUnsettled = 0;
+    server = createListener((context: EventContext) => {
+      const messageId = String(context.message!.message_id);
+      const isFirstDelivery = received.indexOf(messageId) === -1;
+      received.push(messageId);
+      unsettled++;
+      maxUnsettled = Math.max(maxUnsettled, unsettled);
+      setTimeout(
+        () => {
+          unsettled--;
+          if (messageId.startsWith("reject")) {
+            context.delivery!.reject({
+              condition: "amqp:precondition-failed",
+              description: messageId
+            });
+          } else if (messageId.startsWith("release") && isFirstDelivery) {
+            context.delivery!.release();
+          } else {
+            context.delivery!.accept();
+          }
+        },
+        messageId.startsWith("slow") ? 300 : 100
+      );
+    });
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        {
+          webSocket: { webSocketImpl: TcpWebSocket },
+          maxInFlightSends: maxInFlightSends,
+          retryOptions: retryOptions
+        }
+      );
+      client = namespace.createQueueClient("some-name");
+      done();
+    });
+  }
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  describe("with a large window", function(): void {
+    beforeEach((done: Function) => startListener(100, done));
+
+    it("settles every message in flight with its outcome", async function(): Promise<void> {
+      await client.createBatch();
+      const messageIds = ["0", "1", "reject-2", "3", "4", "5", "reject-6", "7", "8", "9"];
+      const startTime = Date.now();
+      const outcomes = await Promise.all(
+        messageIds.map((messageId: string) =>
+          client
+            .send({ body: messageId, messageId: messageId })
+            .then(
+              (result: SendResult) => result.messageId,
+              (err: Error) => `rejected ${err.message}`
+            )
+        )
+      );
+      should.equal(Date.now() - startTime < 500, true);
+      maxUnsettled.should.equal(10);
+      received.should.deep.equal(messageIds);
+      outcomes.should.deep.equal([
+        "0",
+        "1",
+        "rejected reject-2",
+        "3",
+        "4",
+        "5",
+        "rejected reject-6",
+        "7",
+        "8",
+        "9"
+      ]);
+    });
+  });
+
+  describe("with retries", function(): void {
+    beforeEach((done: Function) => startListener(100, done, { minDelayInMs: 0 }));
+
+    it("sends a retried message after the messages sent in the meantime", async function(): Promise<
+      void
+    > {
+      await client.createBatch();
+      const results = await Promise.all([
+        client.send({ body: "", messageId: "release-0" }),
+        client.send({ body: "", messageId: "1" })
+      ]);
+      results.map((result: SendResult) => result.messageId).should.deep.equal(["release-0", "1"]);
+      received.should.deep.equal(["release-0", "1", "release-0"]);
+    });
+  });
+
+  describe("with a small window", function(): void {
+    beforeEach((done: Function) => startListener(2, done));
+
+    it("bounds the number of messages in flight", async function(): Promise<void> {
+      await client.createBatch();
+      const messageIds = ["0", "1", "2", "3", "4"];
+      await Promise.all(
+        messageIds.map((messageId: string) => client.send({ body: "", messageId: messageId }))
+      );
+      maxUnsettled.should.equal(2);
+      received.should.deep.equal(messageIds);
+    });
+  });
+
+  describe("with a window of one message and a short timeout", function(): void {
+    beforeEach((done: Function) => startListener(1, done, { maxRetries: 0, timeoutInMs: 200 }));
+
+    it("keeps the slot of a message that timed out until its outcome", async function(): Promise<
+      void
+    > {
+      await client.createBatch();
+      const [timedOut, sent] = await Promise.all([
+        client.send({ body: "", messageId: "slow-0" }).catch((err: Error) => err),
+        client.send({ body: "", messageId: "1" })
+      ]);
+      (timedOut as Error).name.should.equal("ServiceUnavailableError");
+      // The second message waited longer than the timeout for the slot, but its timeout started
+      // once it was sent.
+      sent.messageId!.should.equal("1");
+      maxUnsettled.should.equal(1);
+      received.should.deep.equal(["slow-0", "1"]);
+    });
+
+    it("validates the window", function(): void {
+      (() =>
+        Namespace.createFromConnectionString(
+          "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+          { maxInFlightSends: 0 }
+        )).should.throw("'maxInFlightSends' must be of type 'number'");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import Long from "long";
+import {
+  Namespace,
+  SendableMessageInfo,
+  SqlSyntaxError,
+  parseSqlFilter,
+  parseSqlRuleAction,
+  evaluateSqlFilter,
+  applySqlRuleAction
+} from "../lib";
+
+function getSyntaxError(parse: () => any): SqlSyntaxError {
+  try {
+    parse();
+  } catch (err) {
+    return err;
+  }
+  throw new Error("The expression was expected to be rejected.");
+}
+
+describe("SQL filters", function(): void {
+  const message: SendableMessageInfo = {
+    body: "hello",
+    messageId: "order-1",
+    label: "Red",
+    timeToLive: 60000,
+    userProperties: {
+      color: "red",
+      quantity: 12,
+      price: 2.5,
+      express: true,
+      "unit price": 3,
+      sentOn: new Date("2019-01-01T00:00:00Z")
+    }
+  };
+
+  it("parses the expressions into nodes with their positions", function(): void {
+    parseSqlFilter("sys.label = 'x' AND NOT user.quantity IN (1, 2)").should.deep.equal({
+      kind: "binary",
+      operator: "and",
+      position: 0,
+      left: {
+        kind: "binary",
+        operator: "=",
+        position: 0,
+        left: { kind: "property", scope: "sys", name: "Label", position: 0 },
+        right: { kind: "constant", value: "x", position: 12 }
+      },
+      right: {
+        kind: "unary",
+        operator: "not",
+        position: 20,
+        operand: {
+          kind: "in",
+          negated: false,
+          position: 24,
+          operand: { kind: "property", scope: "user", name: "quantity", position: 24 },
+          values: [
+            { kind: "constant", value: 1, position: 42 },
+            { kind: "constant", value: 2, position: 45 }
+          ]
+        }
+      }
+    });
+    parseSqlRuleAction("SET sys.Label = 'x'; REMOVE [unit price];").should.deep.equal([
+      {
+        kind: "set",
+        position: 0,
+        property: { kind: "property", scope: "sys", name: "Label", position: 4 },
+        value: { kind: "constant", value: "x", position: 16 }
+      },
+      {
+        kind: "remove",
+        position: 21,
+        property: { kind: "property", scope: "user", name: "unit price", position: 28 }
+      }
+    ]);
+  });
+
+  it("reports the position of the syntax errors", function(): void {
+    let error = getSyntaxError(() => parseSqlFilter("color = 'red' AND\n  quantity >"));
+    error.name.should.equal("SqlSyntaxError");
+    error.message.should.equal(
+      "Expected a constant, a property or '(', but found the end of the expression " +
+        "(at line 2, column 13)"
+    );
+    error.position.should.equal(30);
+    error.line.should.equal(2);
+    error.column.should.equal(13);
+    should.equal(error.retryable, false);
+
+    error = getSyntaxError(() => parseSqlFilter("color = 'red"));
+    error.message.should.equal("The string is not terminated (at line 1, column 9)");
+    error = getSyntaxError(() => parseSqlFilter("color LIKE 'r%' ESCAPE '!!'"));
+    error.message.should.equal(
+      "The escape character must be a single character (at line 1, column 24)"
+    );
+    error = getSyntaxError(() => parseSqlFilter("color NOT = 'red'"));
+    error.message.should.equal("Expected 'LIKE' or 'IN', but found '=' (at line 1, column 11)");
+    error = getSyntaxError(() => parseSqlFilter("upper(color) = 'RED'"));
+    error.message.should.equal("The function 'upper' is not supported (at line 1, column 1)");
+    error = getSyntaxError(() => parseSqlRuleAction("SET sys.SequenceNumber = 1"));
+    error.message.should.equal(
+      "The system property 'SequenceNumber' can not be modified (at line 1, column 9)"
+    );
+    error = getSyntaxError(() => parseSqlRuleAction("SET color = 'blue' REMOVE size"));
+    error.message.should.equal(
+      "Expected the end of the expression, but found 'remove' (at line 1, column 20)"
+    );
+  });
+
+  it("evaluates the filters against a message", function(): void {
+    const matches = (filter: string) => evaluateSqlFilter(filter, message);
+    matches("color = 'red' AND quantity > 10").should.equal(true);
+    matches("sys.Label = 'Red' AND sys.MessageId LIKE 'order-%'").should.equal(true);
+    matches("sys.label LIKE 'r%'").should.equal(false);
+    matches("color NOT IN ('blue', 'green') AND user.express").should.equal(true);
+    matches("quantity * price + 1 = 31 AND quantity % 5 = 2 AND -price < 0").should.equal(true);
+    matches("[unit price] >= 3 AND sentOn IS NOT NULL").should.equal(true);
+    matches("EXISTS(color) AND NOT EXISTS(size) AND size IS NULL").should.equal(true);
+    matches("sys.TimeToLive / 1000 = 60 AND sys.body = 'hello'").should.equal(true);
+    matches("'50%_off' LIKE '50!%!_%' ESCAPE '!'").should.equal(true);
+    matches("'500 off' LIKE '50!%!_%' ESCAPE '!'").should.equal(false);
+  });
+
+  it("treats the unknown values as in SQL", function(): void {
+    const matches = (filter: string) => evaluateSqlFilter(filter, message);
+    // The comparisons with missing properties and values of other types are unknown.
+    matches("size = 1").should.equal(false);
+    matches("NOT (size = 1)").should.equal(false);
+    matches("size = 1 OR color = 'red'").should.equal(true);
+    matches("quantity = '12'").should.equal(false);
+    matches("NOT (quantity = '12')").should.equal(false);
+    matches("quantity / 0 = 1").should.equal(false);
+    matches("express > false").should.equal(false);
+    // The system properties assigned by the broker are only known for received messages.
+    matches("sys.SequenceNumber > 0").should.equal(false);
+    evaluateSqlFilter("sys.SequenceNumber > 5", {
+      ...message,
+      sequenceNumber: Long.fromNumber(10)
+    } as SendableMessageInfo).should.equal(true);
+  });
+
+  it("applies the actions to a copy of the message", function(): void {
+    const result = applySqlRuleAction(
+      "SET sys.Label = color + '-' + sys.Label; SET total = quantity * price; " +
+        "REMOVE [unit price]; SET user.id = newid()",
+      message
+    );
+    result.label!.should.equal("red-Red");
+    result.userProperties!.total.should.equal(30);
+    should.equal(result.userProperties!.hasOwnProperty("unit price"), false);
+    result.userProperties!.id.should.match(/^[0-9a-f]{8}-[0-9a-f]{4}-/);
+    message.label!.should.equal("Red");
+    message.userProperties!["unit price"].should.equal(3);
+  });
+
+  it("validates the expressions before adding a rule", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    const client = namespace.createSubscriptionClient("some-topic", "some-subscription");
+    await client
+      .addRule("some-rule", "color = 'red' AND")
+      .should.be.rejectedWith(SqlSyntaxError, "(at line 1, column 18)");
+    await client
+      .addRule("some-rule", "color = 'red'", "SET color =")
+      .should.be.rejectedWith(SqlSyntaxError, "(at line 1, column 12)");
+    await client
+      .replaceRules([{ name: "some-rule", filter: "color == 'red'" }])
+      .should.be.rejectedWith(SqlSyntaxError, "(at line 1, column 8)");
+    await namespace.close();
+  });
+});
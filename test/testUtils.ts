@@ -1,4 +1,6 @@
-import { SendableMessageInfo, generateUuid } from "../lib";
+import { Socket, Server, connect } from "net";
+import { create_container, Container, EventContext, Sender, types } from "rhea";
+import { QueueClient, SendableMessageInfo, generateUuid } from "../lib";
 
 export const testSimpleMessages: SendableMessageInfo[] = [
   {
@@ -51,3 +53,214 @@ export const testMessagesToSamePartitionsWithSessions: SendableMessageInfo[] = [
     sessionId: "my-session"
   }
 ];
+
+/**
+ * A WebSocket look-alike that tunnels the data over a plain TCP socket to the local AMQP
+ * listener, while recording the arguments it was created with.
+ */
+export class TcpWebSocket {
+  static port: number;
+  static created: { url: string; protocols?: string | string[]; options?: any }[] = [];
+  binaryType: string = "nodebuffer";
+  onopen?: () => void;
+  onmessage?: (event: { data: Buffer }) => void;
+  onclose?: () => void;
+  onerror?: (err: Error) => void;
+  private _socket: Socket;
+
+  constructor(url: string, protocols?: string | string[], options?: any) {
+    TcpWebSocket.created.push({ url: url, protocols: protocols, options: options });
+    this._socket = connect(
+      TcpWebSocket.port,
+      "localhost",
+      () => this.onopen!()
+    );
+    this._socket.on("data", (data: Buffer) => this.onmessage!({ data: data }));
+    this._socket.on("end", () => this.onclose!());
+    this._socket.on("error", (err: Error) => this.onerror!(err));
+  }
+
+  send(data: Buffer): void {
+    this._socket.write(Buffer.from(data));
+  }
+
+  close(): void {
+    this._socket.end();
+  }
+}
+
+/**
+ * Creates a local AMQP listener that authorizes every token that is put on the $cbs endpoint,
+ * answers every request to a $management endpoint with no content and accepts every message
+ * that is sent to it. The messages are settled by the given handler instead, if provided. The
+ * given container listens, if the caller handles other events of it.
+ */
+export function createListener(
+  onMessage?: (context: EventContext) => void,
+  container: Container = create_container(onMessage ? { autoaccept: false } : undefined)
+): Server {
+  container.on("message", (context: EventContext) => {
+    const request = context.message!;
+    const address = context.receiver!.target.address;
+    if (address !== "$cbs" && !address.endsWith("$management")) {
+      if (onMessage) onMessage(context);
+      return;
+    }
+    if (onMessage) context.delivery!.accept();
+    const replySender = context.connection.find_sender(
+      (sender: Sender) => sender.name === request.reply_to
+    );
+    replySender!.send({
+      correlation_id: request.message_id,
+      application_properties: address === "$cbs" ? { "status-code": 200 } : { statusCode: 204 }
+    } as any);
+  });
+  return container.listen({ port: 0 }) as Server;
+}
+
+/**
+ * Describes the work that was done in the scope of a transaction on the local AMQP listener.
+ */
+export interface TransactionWork {
+  sent: { messageId: any; address: string; destination?: string; viaPartitionKey?: string }[];
+  settled: { messageId: any; outcome: string }[];
+  discharged?: "commit" | "rollback";
+}
+
+/**
+ * Creates a local AMQP listener that acts as `createListener()` and also coordinates transactions:
+ * the work done in the scope of every declared transaction is recorded in the given map, by the
+ * hex id of the transaction. The given messages are sent to the receivers that attach to it.
+ */
+export function createTransactionalListener(
+  transactions: Map<string, TransactionWork>,
+  messagesToReceive: { message_id: string; body: any }[]
+): Server {
+  const container = create_container({ autoaccept: false });
+  const coordinatorAddress = "$coordinator";
+  const outcomeNames: { [code: number]: string } = {
+    0x24: "accepted",
+    0x25: "rejected",
+    0x26: "released",
+    0x27: "modified"
+  };
+  const descriptorOf = (value: any) => value && value.descriptor && Number(value.descriptor.value);
+  const accepted = () => types.described_nc(types.wrap_ulong(0x24), types.wrap_list([]));
+
+  container.on("session_open", (context: EventContext) => {
+    const session: any = context.session;
+    const onAttach = session.on_attach;
+    session.on_attach = (frame: any): void => {
+      const isCoordinator = descriptorOf(frame.performative.target) === 0x30;
+      if (isCoordinator) frame.performative.target = undefined;
+      onAttach.call(session, frame);
+      if (isCoordinator) frame.performative.target = { address: coordinatorAddress };
+    };
+    // rhea can not decode the declare and discharge types, which are decoded in the handler.
+    const onTransfer = session.on_transfer;
+    session.on_transfer = (frame: any): void => {
+      const link = session.remote.handles[frame.performative.handle];
+      if (link && link.target && link.target.address === coordinatorAddress) {
+        frame.performative.message_format = 1;
+      }
+      onTransfer.call(session, frame);
+    };
+    const onDisposition = session.on_disposition;
+    session.on_disposition = (frame: any): void => {
+      const fields = frame.performative;
+      const state = fields.state;
+      if (descriptorOf(state) === 0x34) {
+        fields.state = state.value[1];
+      }
+      onDisposition.call(session, frame);
+      const last = fields.last != undefined ? fields.last : fields.first;
+      for (let i = fields.first; i <= last; i++) {
+        const delivery = session.outgoing.deliveries.by_id(i);
+        if (!delivery || delivery.settled) continue;
+        if (descriptorOf(state) === 0x34) {
+          transactions.get(state.value[0].value.toString("hex"))!.settled.push({
+            messageId: delivery.messageId,
+            outcome: outcomeNames[descriptorOf(state.value[1])]
+          });
+        }
+        // The receiver has already settled the message: its outcome is echoed without the
+        // transactional state.
+        delivery.update(true, fields.state);
+      }
+    };
+  });
+  container.on("sendable", (context: EventContext) => {
+    const sender = context.sender!;
+    if (sender.source.address === "$cbs" || sender.source.address.endsWith("$management")) return;
+    while (messagesToReceive.length && sender.sendable()) {
+      const message = messagesToReceive.shift()!;
+      const tag = Buffer.alloc(16);
+      tag.write(message.message_id);
+      const delivery: any = sender.send(
+        { ...message, message_annotations: { "x-opt-enqueued-time": Date.now() } },
+        tag
+      );
+      delivery.messageId = message.message_id;
+    }
+  });
+  return createListener((context: EventContext) => {
+    const delivery = context.delivery!;
+    const message = context.message!;
+    if (context.receiver!.target.address === coordinatorAddress) {
+      // Skips the descriptor of the amqp-value section.
+      const request = new (types as any).Reader((message as any).slice(3)).read();
+      if (descriptorOf(request) === 0x31) {
+        const id = Buffer.from(`txn-${transactions.size}`);
+        transactions.set(id.toString("hex"), { sent: [], settled: [] });
+        delivery.update(
+          true,
+          types.described_nc(types.wrap_ulong(0x33), types.wrap_list([types.wrap_binary(id)]))
+        );
+      } else {
+        const [id, fail] = request.value.map((field: any) => field.value);
+        transactions.get(id.toString("hex"))!.discharged = fail ? "rollback" : "commit";
+        delivery.update(true, accepted());
+      }
+      return;
+    }
+    // The transactional state of a transfer is decoded as the list of its fields.
+    const state: any = delivery.remote_state;
+    if (!Array.isArray(state)) {
+      delivery.accept();
+      return;
+    }
+    const id: Buffer = state[0];
+    const annotations = message.message_annotations || {};
+    transactions.get(id.toString("hex"))!.sent.push({
+      messageId: message.message_id,
+      address: context.receiver!.target.address,
+      destination: (context.receiver!.properties || {})[
+        "com.microsoft:transfer-destination-address"
+      ],
+      viaPartitionKey: annotations["x-opt-via-partition-key"]
+    });
+    delivery.update(
+      true,
+      types.described_nc(
+        types.wrap_ulong(0x34),
+        types.wrap_list([types.wrap_binary(id), accepted()])
+      )
+    );
+  }, container);
+}
+
+/**
+ * Records the size and the format of the messages that are sent on the link of the given client.
+ */
+export function recordTransfers(
+  client: QueueClient
+): Array<{ sizeInBytes: number; format?: number }> {
+  const transfers: Array<{ sizeInBytes: number; format?: number }> = [];
+  const link = (client as any)._context.sender._sender;
+  const send = link.send.bind(link);
+  link.send = (message: any, tag?: any, format?: number) => {
+    transfers.push({ sizeInBytes: Buffer.isBuffer(message) ? message.length : -1, format });
+    return send(message, tag, format);
+  };
+  return transfers;
+}
@@ -0,0 +1,229 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { translate, Dictionary } from "@azure/amqp-common";
+import { Namespace, RuleDescription, TopologySpec, TopologyChange } from "../lib";
+
+/**
+ * Replaces the EntityManager and the subscription clients of the given namespace with in-memory
+ * entities, that record the operations in the order in which they were made.
+ */
+function useInMemoryTopology(
+  namespace: Namespace,
+  entities: Dictionary<any>,
+  rules: Dictionary<RuleDescription[]>
+): string[] {
+  const operations: string[] = [];
+  const notFound = (entityPath: string) =>
+    translate({
+      condition: "amqp:not-found",
+      description: `The messaging entity '${entityPath}' could not be found.`
+    });
+  const entityManager = (namespace as any)._contexts[0].entityManager;
+  const getEntity = async (entityPath: string) => {
+    if (!entities[entityPath]) throw notFound(entityPath);
+    return { ...entities[entityPath] };
+  };
+  const putEntity = async (operation: string, entityPath: string, description: any) => {
+    operations.push(`${operation} ${entityPath}`);
+    entities[entityPath] = { ...entities[entityPath], ...description };
+    if (operation === "create" && entityPath.indexOf("/") !== -1) {
+      rules[entityPath] = [{ name: "$Default", filter: { expression: "1=1" } }];
+    }
+  };
+  entityManager.getTopic = (topic: string) => getEntity(topic);
+  entityManager.getSubscription = (topic: string, sub: string) => getEntity(`${topic}/${sub}`);
+  entityManager.createTopic = (topic: string, description: any) =>
+    putEntity("create", topic, description);
+  entityManager.updateTopic = (topic: string, description: any) =>
+    putEntity("update", topic, description);
+  entityManager.createSubscription = (topic: string, sub: string, description: any) =>
+    putEntity("create", `${topic}/${sub}`, description);
+  entityManager.updateSubscription = (topic: string, sub: string, description: any) =>
+    putEntity("update", `${topic}/${sub}`, description);
+  (namespace as any).createSubscriptionClient = (topic: string, sub: string) => {
+    const path = `${topic}/${sub}`;
+    return {
+      getRules: async () => rules[path].map((rule: RuleDescription) => ({ ...rule })),
+      addRule: async (name: string, filter: any) => {
+        operations.push(`add ${path}/${name}`);
+        rules[path].push({ name: name, filter: { expression: filter } });
+      },
+      updateRule: async (name: string, filter: any) => {
+        operations.push(`update ${path}/${name}`);
+        rules[path].find((rule: RuleDescription) => rule.name === name)!.filter = {
+          expression: filter
+        };
+      },
+      removeRule: async (name: string) => {
+        operations.push(`remove ${path}/${name}`);
+        rules[path] = rules[path].filter((rule: RuleDescription) => rule.name !== name);
+      },
+      close: async () => undefined
+    };
+  };
+  return operations;
+}
+
+describe("Topology", function(): void {
+  let namespace: Namespace;
+  let entities: Dictionary<any>;
+  let rules: Dictionary<RuleDescription[]>;
+  const spec: TopologySpec = {
+    topics: [
+      {
+        name: "orders",
+        description: { maxSizeInMegabytes: 2048 },
+        subscriptions: [
+          { name: "red", rules: [{ name: "red", filter: "color = 'red'" }] },
+          {
+            name: "large",
+            description: { maxDeliveryCount: 5 },
+            rules: [{ name: "large", filter: "quantity > 10" }]
+          },
+          { name: "audit" }
+        ]
+      },
+      { name: "invoices", subscriptions: [{ name: "all" }] }
+    ]
+  };
+  beforeEach(() => {
+    namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    entities = {
+      orders: { maxSizeInMegabytes: 1024 },
+      "orders/red": { maxDeliveryCount: 10 },
+      "orders/audit": { forwardTo: "sb://a.servicebus.windows.net/audit-queue" }
+    };
+    rules = {
+      "orders/red": [
+        { name: "$Default", filter: { expression: "1=1" } },
+        { name: "red", filter: { expression: "color='red'" } }
+      ]
+    };
+  });
+  afterEach(async () => {
+    await namespace.close();
+  });
+
+  it("computes the plan without changing anything in a dry run", async function(): Promise<void> {
+    const operations = useInMemoryTopology(namespace, entities, rules);
+    const result = await namespace.applyTopology(JSON.stringify(spec), { dryRun: true });
+    result.dryRun.should.equal(true);
+    result.changes
+      .map((change: TopologyChange) => change.description)
+      .should.deep.equal([
+        "Update maxSizeInMegabytes of topic 'orders'",
+        "Update rule 'red' of subscription 'orders/red'",
+        "Remove rule '$Default' from subscription 'orders/red'",
+        "Create subscription 'orders/large'",
+        "Add rule 'large' to subscription 'orders/large'",
+        "Remove rule '$Default' from subscription 'orders/large'",
+        "Create topic 'invoices'",
+        "Create subscription 'invoices/all'"
+      ]);
+    result.changes[0].should.deep.equal({
+      kind: "updateTopic",
+      topicName: "orders",
+      properties: ["maxSizeInMegabytes"],
+      description: "Update maxSizeInMegabytes of topic 'orders'"
+    });
+    operations.should.deep.equal([]);
+  });
+
+  it("applies the plan and converges", async function(): Promise<void> {
+    const operations = useInMemoryTopology(namespace, entities, rules);
+    const result = await namespace.applyTopology(spec);
+    result.dryRun.should.equal(false);
+    operations.should.deep.equal([
+      "update orders",
+      "update orders/red/red",
+      "remove orders/red/$Default",
+      "create orders/large",
+      "add orders/large/large",
+      "remove orders/large/$Default",
+      "create invoices",
+      "create invoices/all"
+    ]);
+    entities["orders/large"].maxDeliveryCount.should.equal(5);
+    (await namespace.applyTopology(spec, { dryRun: true })).changes.should.deep.equal([]);
+  });
+
+  it("brings the rules about when the settings can not be read", async function(): Promise<void> {
+    const operations = useInMemoryTopology(namespace, entities, rules);
+    const unauthorized = translate({
+      condition: "amqp:unauthorized-access",
+      description: "Unauthorized access. 'Manage' claim(s) are required for this operation."
+    });
+    const entityManager = (namespace as any)._contexts[0].entityManager;
+    entityManager.getTopic = async () => {
+      throw unauthorized;
+    };
+    const createSubscriptionClient = (namespace as any).createSubscriptionClient;
+    const ruleOptions: any[] = [];
+    (namespace as any).createSubscriptionClient = (topic: string, sub: string) => {
+      const client = createSubscriptionClient(topic, sub);
+      const getRules = client.getRules;
+      client.getRules = (options: any) => {
+        ruleOptions.push(options);
+        return getRules(options);
+      };
+      return client;
+    };
+
+    const result = await namespace.applyTopology(
+      {
+        topics: [
+          {
+            name: "orders",
+            description: { maxSizeInMegabytes: 2048 },
+            subscriptions: [{ name: "red", rules: [{ name: "red", filter: "color = 'red'" }] }]
+          }
+        ]
+      },
+      { timeoutInMs: 1000 }
+    );
+    result.changes
+      .map((change: TopologyChange) => change.description)
+      .should.deep.equal([
+        "Update rule 'red' of subscription 'orders/red'",
+        "Remove rule '$Default' from subscription 'orders/red'"
+      ]);
+    result.skippedEntities.should.deep.equal([
+      { topicName: "orders", subscriptionName: undefined, error: unauthorized },
+      { topicName: "orders", subscriptionName: "red", error: unauthorized }
+    ]);
+    operations.should.deep.equal(["update orders/red/red", "remove orders/red/$Default"]);
+    ruleOptions.should.deep.equal([{ timeoutInMs: 1000, abortSignal: undefined }]);
+  });
+
+  it("validates the whole spec before reading the entities", async function(): Promise<void> {
+    const operations = useInMemoryTopology(namespace, entities, rules);
+    await namespace
+      .applyTopology({ topics: [{ name: "a" }, { name: "a" }] })
+      .should.be.rejectedWith("The topic 'a' is provided more than once.");
+    await namespace
+      .applyTopology({
+        topics: [
+          { name: "a", subscriptions: [{ name: "b", rules: [{ name: "c", filter: "x =" }] }] }
+        ]
+      })
+      .should.be.rejectedWith("(at line 1, column 4)");
+    await namespace
+      .applyTopology({
+        topics: [
+          {
+            name: "a",
+            subscriptions: [{ name: "b", description: { defaultRule: { filter: true } } }]
+          }
+        ]
+      })
+      .should.be.rejectedWith("can not have a 'defaultRule'");
+    operations.should.deep.equal([]);
+  });
+});
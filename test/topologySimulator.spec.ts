@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import { SendableMessageInfo, SubscriptionRules, simulateTopology } from "../lib";
+
+describe("Topology simulator", function(): void {
+  const subscriptions: SubscriptionRules[] = [
+    { subscriptionName: "all", rules: [{ name: "$Default", filter: { expression: "1=1" } }] },
+    {
+      subscriptionName: "red",
+      rules: [
+        {
+          name: "red",
+          filter: {
+            correlationId: undefined,
+            label: "red",
+            userProperties: { priority: 1 }
+          }
+        },
+        {
+          name: "large",
+          filter: { expression: "quantity > 10" },
+          action: { expression: "SET sys.Label = 'large-' + sys.Label; REMOVE priority" }
+        }
+      ]
+    },
+    { subscriptionName: "none", rules: [{ name: "$Default", filter: { expression: "1=0" } }] },
+    {
+      subscriptionName: "broken",
+      rules: [
+        { name: "upper", filter: { expression: "upper(color) = 'RED'" } },
+        { name: "blue", filter: { label: "blue" } }
+      ]
+    }
+  ];
+  const message: SendableMessageInfo = {
+    body: "hello",
+    label: "red",
+    userProperties: { priority: 1, quantity: 12 }
+  };
+
+  it("predicts the subscriptions and rules that match the message", function(): void {
+    const result = simulateTopology(subscriptions, message);
+    result.receivingSubscriptions.should.deep.equal(["all", "red"]);
+    result.subscriptions
+      .map((subscription) => subscription.matchedRules.map((match) => match.ruleName))
+      .should.deep.equal([["$Default"], ["red", "large"], [], []]);
+    const [red, large] = result.subscriptions[1].matchedRules;
+    red.message.should.deep.equal(message);
+    large.message.label!.should.equal("large-red");
+    should.equal(large.message.userProperties!.hasOwnProperty("priority"), false);
+    message.label!.should.equal("red");
+  });
+
+  it("compares the correlation properties including their types", function(): void {
+    const result = simulateTopology(subscriptions, {
+      ...message,
+      userProperties: { priority: "1" }
+    });
+    result.receivingSubscriptions.should.deep.equal(["all"]);
+  });
+
+  it("reports the rules that can not be evaluated", function(): void {
+    const result = simulateTopology(subscriptions, message);
+    result.subscriptions[3].failedRules.length.should.equal(1);
+    result.subscriptions[3].failedRules[0].ruleName.should.equal("upper");
+    result.subscriptions[3].failedRules[0].error.name.should.equal("SqlSyntaxError");
+  });
+});
@@ -0,0 +1,219 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server, Socket } from "net";
+import { Namespace, ServiceBusMessage } from "../lib";
+import { TcpWebSocket, TransactionWork, createTransactionalListener } from "./testUtils";
+
+/**
+ * Splits the given bytes, that a peer wrote on an AMQP connection, into the frames along with the
+ * channels they were sent on. The protocol headers are skipped.
+ */
+function framesOf(wire: Buffer): { channel: number; body: Buffer }[] {
+  const frames: { channel: number; body: Buffer }[] = [];
+  let offset = 0;
+  while (offset < wire.length) {
+    if (wire.toString("ascii", offset, offset + 4) === "AMQP") {
+      offset += 8;
+      continue;
+    }
+    const size = wire.readUInt32BE(offset);
+    const dataOffset = wire.readUInt8(offset + 4) * 4;
+    frames.push({
+      channel: wire.readUInt16BE(offset + 6),
+      body: wire.slice(offset + dataOffset, offset + size)
+    });
+    offset += size;
+  }
+  return frames;
+}
+
+/**
+ * Returns the bytes of the given hex string, whose bytes may be separated by spaces.
+ */
+function bytes(hex: string): Buffer {
+  return Buffer.from(hex.replace(/ /g, ""), "hex");
+}
+
+describe("Transactions", function(): void {
+  let server: Server;
+  let namespace: Namespace;
+  let transactions: Map<string, TransactionWork>;
+  beforeEach((done: Function) => {
+    transactions = new Map<string, TransactionWork>();
+    server = createTransactionalListener(transactions, [
+      { message_id: "in-1", body: "order" },
+      { message_id: "in-2", body: "order" }
+    ]);
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      namespace = Namespace.createFromConnectionString(
+        "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: TcpWebSocket } }
+      );
+      done();
+    });
+  });
+  afterEach(async () => {
+    await namespace.close();
+    server.close();
+  });
+
+  it("groups the messages sent via an entity and settled in it", async function(): Promise<void> {
+    const input = namespace.createQueueClient("input");
+    const output = namespace.createTopicClient("output", { viaEntityPath: "input" });
+    const [first, second]: ServiceBusMessage[] = await input.receiveBatch(2);
+
+    const committed = await namespace.beginTransaction(input);
+    await output.send(
+      { body: "shipment", messageId: "out-1", sessionId: "order-1" },
+      { transaction: committed }
+    );
+    await first.complete({ transaction: committed });
+    await committed.commit();
+    committed.isDischarged.should.equal(true);
+
+    const rolledBack = await namespace.beginTransaction(output);
+    await output.sendBatch([{ body: "shipment", messageId: "out-2" }], {
+      transaction: rolledBack
+    });
+    await second.abandon(undefined, { transaction: rolledBack });
+    await rolledBack.rollback();
+
+    Array.from(transactions.values()).should.deep.equal([
+      {
+        sent: [
+          {
+            messageId: "out-1",
+            address: "input",
+            destination: "output",
+            viaPartitionKey: "order-1"
+          }
+        ],
+        settled: [{ messageId: "in-1", outcome: "accepted" }],
+        discharged: "commit"
+      },
+      {
+        sent: [
+          {
+            messageId: undefined,
+            address: "input",
+            destination: "output",
+            viaPartitionKey: undefined
+          }
+        ],
+        settled: [{ messageId: "in-2", outcome: "modified" }],
+        discharged: "rollback"
+      }
+    ]);
+  });
+
+  it("puts the transactional types on the wire", async function(): Promise<void> {
+    const written: Buffer[] = [];
+    server.on("connection", (socket: Socket) => {
+      socket.on("data", (data: Buffer) => written.push(data));
+    });
+    const client = namespace.createQueueClient("input");
+    const [received] = await client.receiveBatch(1);
+    const transaction = await namespace.beginTransaction(client);
+    await client.send({ body: "parcel" });
+    await client.send({ body: "shipment" }, { transaction: transaction });
+    await received.complete({ transaction: transaction });
+    await transaction.commit();
+
+    // The frames are decoded by hand, as per the AMQP specification: a performative is described
+    // by a smallulong (0x53) descriptor, that follows the constructor of described types (0x00).
+    const frames = framesOf(Buffer.concat(written));
+    const performatives = (code: number) =>
+      frames
+        .filter((frame) => frame.body.slice(0, 3).equals(bytes(`00 53 ${code.toString(16)}`)))
+        .map((frame) => frame.body);
+    const contain = (frame: Buffer, value: Buffer) => frame.indexOf(value) !== -1;
+    const channelOf = (text: string) =>
+      frames.filter((frame) => contain(frame.body, Buffer.from(text)))[0].channel;
+    const id = transaction.id;
+    id.should.deep.equal(Buffer.from("txn-0"));
+    // The target of the coordinator link: coordinator (0x30) with the list of its capabilities.
+    const coordinator = Buffer.concat([
+      bytes("00 53 30 d0 00 00 00 1d 00 00 00 01 a3 17"),
+      Buffer.from("amqp:local-transactions")
+    ]);
+    performatives(0x12)
+      .filter((frame: Buffer) => contain(frame, coordinator))
+      .length.should.equal(1);
+    const transfers = performatives(0x14);
+    // The amqp-value (0x77) of the declare (0x31) with no fields.
+    transfers
+      .filter((frame: Buffer) => contain(frame, bytes("00 53 77 00 53 31 45")))
+      .length.should.equal(1);
+    // The transfer of the message has the transactional state (0x34) with the id of the
+    // transaction.
+    const transactionalState = Buffer.concat([
+      bytes("00 53 34 d0 00 00 00 0b 00 00 00 01 a0 05"),
+      id
+    ]);
+    transfers
+      .filter(
+        (frame: Buffer) =>
+          contain(frame, transactionalState) && contain(frame, Buffer.from("shipment"))
+      )
+      .length.should.equal(1);
+    // The message that is not sent in the scope of the transaction is sent on another session,
+    // without a state.
+    channelOf("shipment").should.not.equal(channelOf("parcel"));
+    transfers
+      .filter((frame: Buffer) => contain(frame, bytes("00 53 34")))
+      .every((frame: Buffer) => !contain(frame, Buffer.from("parcel")))
+      .should.equal(true);
+    // The disposition of the received message has the transactional state with the accepted
+    // outcome (0x24).
+    const settledState = Buffer.concat([
+      bytes("00 53 34 d0 00 00 00 0f 00 00 00 02 a0 05"),
+      id,
+      bytes("00 53 24 45")
+    ]);
+    performatives(0x15)
+      .filter((frame: Buffer) => contain(frame, settledState))
+      .length.should.equal(1);
+    // The amqp-value of the discharge (0x32) with the id and false, as it is committed.
+    const discharge = Buffer.concat([
+      bytes("00 53 77 00 53 32 d0 00 00 00 0f 00 00 00 02 b0 00 00 00 05"),
+      id,
+      bytes("42")
+    ]);
+    transfers.filter((frame: Buffer) => contain(frame, discharge)).length.should.equal(1);
+  });
+
+  it("validates the use of a transaction", async function(): Promise<void> {
+    (() => namespace.createQueueClient("some-name", { viaEntityPath: "" })).should.throw(
+      "'viaEntityPath' must be of type 'string' with a non-empty value."
+    );
+    const client = namespace.createQueueClient("some-name");
+    const transaction = await namespace.beginTransaction();
+    await transaction.commit();
+    await transaction.commit().should.be.rejectedWith("already been committed or rolled back");
+    await client
+      .send({ body: "a" }, { transaction: transaction })
+      .should.be.rejectedWith("The transaction has already been committed or rolled back.");
+
+    const other = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+      { webSocket: { webSocketImpl: TcpWebSocket } }
+    );
+    try {
+      const foreign = await other.beginTransaction();
+      await client
+        .send({ body: "a" }, { transaction: foreign })
+        .should.be.rejectedWith("declared on another AMQP connection");
+      await namespace
+        .beginTransaction(other.createQueueClient("some-name"))
+        .should.be.rejectedWith("The client has not been created by this Namespace");
+    } finally {
+      await other.close();
+    }
+  });
+});
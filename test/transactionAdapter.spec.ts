@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+chai.should();
+import { Server } from "net";
+import { Connection } from "rhea-promise";
+import {
+  createTransactionalSender,
+  createTransactionalState,
+  putTransactionalState,
+  transferStateIndex
+} from "../lib/core/transactionAdapter";
+import { createListener } from "./testUtils";
+
+// The adapter relies on the internals of these modules, which have no typings.
+const frames: any = require("rhea/lib/frames");
+const packageJson: any = require("../package.json");
+
+describe("Transaction adapter", function(): void {
+  it("runs on the versions of rhea and rhea-promise that are pinned", function(): void {
+    require("rhea/package.json").version.should.equal(packageJson.dependencies["rhea"]);
+    require("rhea-promise/package.json").version.should.equal(
+      packageJson.dependencies["rhea-promise"]
+    );
+  });
+
+  it("puts the transactional state where rhea encodes the state of a transfer", function(): void {
+    const id = Buffer.from("txn-1");
+    const transfer = frames.transfer({ handle: 0, delivery_id: 1 });
+    transfer.constructor.descriptor.numeric.should.equal(0x14);
+    for (let i = transfer.value.length; i < transferStateIndex; i++) {
+      transfer.value[i] = undefined;
+    }
+    transfer.value[transferStateIndex] = createTransactionalState(id);
+
+    const written: Buffer = frames.write_frame(frames.amqp_frame(0, transfer));
+    const read = frames.read_frame(written);
+    read.performative.constructor.descriptor.numeric.should.equal(0x14);
+    read.performative.delivery_id.should.equal(1);
+    Number(read.performative.value[transferStateIndex].descriptor.value).should.equal(0x34);
+    read.performative.state[0].equals(id).should.equal(true);
+  });
+
+  it("finds the fields of the attach and disposition performatives", function(): void {
+    const attach = frames.attach({ name: "coordinator", target: { address: "a" } });
+    attach.constructor.descriptor.numeric.should.equal(0x12);
+    attach.name.should.equal("coordinator");
+    attach.should.have.property("target");
+
+    const disposition = frames.disposition({ role: true, first: 2, last: 3 });
+    const read = frames.read_frame(frames.write_frame(frames.amqp_frame(0, disposition)));
+    read.performative.constructor.descriptor.numeric.should.equal(0x15);
+    read.performative.first.should.equal(2);
+    read.performative.last.should.equal(3);
+    read.performative.should.have.property("state");
+  });
+
+  describe("on a session", function(): void {
+    let server: Server;
+    let connection: Connection;
+    beforeEach((done: Function) => {
+      server = createListener();
+      server.on("listening", () => {
+        connection = new Connection({
+          host: "localhost",
+          port: (server.address() as { port: number }).port,
+          reconnect: false
+        });
+        connection.open().then(() => done(), (err: Error) => done(err));
+      });
+    });
+    afterEach(async () => {
+      await connection.close();
+      server.close();
+    });
+
+    it("finds the internals of the session of rhea-promise", async function(): Promise<void> {
+      const sender = await createTransactionalSender(connection, {
+        name: "sender",
+        target: { address: "queue" }
+      });
+      const delivery = sender.send({ body: "parcel" });
+      putTransactionalState(delivery, Buffer.from("txn-1"));
+      await sender.close();
+    });
+
+    it("only puts the transactional state on the links that support it", async function(): Promise<
+      void
+    > {
+      const sender = await connection.createSender({
+        name: "sender",
+        target: { address: "queue" }
+      });
+      const delivery = sender.send({ body: "parcel" });
+      (() => putTransactionalState(delivery, Buffer.from("txn-1"))).should.throw(
+        "The delivery has not been sent on a link that supports transactions."
+      );
+      await sender.close();
+    });
+  });
+});
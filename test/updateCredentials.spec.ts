@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import chaiAsPromised from "chai-as-promised";
+chai.use(chaiAsPromised);
+import { Server } from "net";
+import { Namespace, TokenInfo, TokenType, TokenProvider } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+/**
+ * A token provider that records the audiences for which a token was requested.
+ */
+class RecordingTokenProvider implements TokenProvider {
+  tokenRenewalMarginInSeconds: number = 900;
+  tokenValidTimeInSeconds: number = 3600;
+  audiences: string[] = [];
+
+  async getToken(audience?: string): Promise<TokenInfo> {
+    this.audiences.push(audience!);
+    return {
+      tokenType: TokenType.CbsTokenTypeSas,
+      token: "new-token",
+      expiry: Math.floor(Date.now() / 1000) + this.tokenValidTimeInSeconds
+    };
+  }
+}
+
+describe("Namespace credential rotation", function(): void {
+  let server: Server;
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      done();
+    });
+  });
+  afterEach(() => {
+    server.close();
+  });
+
+  it("renews the claims of the open links without detaching them", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c",
+      { webSocket: { webSocketImpl: TcpWebSocket } }
+    );
+    const client = namespace.createQueueClient("some-name");
+    await client.send({ body: "hello" });
+    const sender = (client as any)._context.sender;
+    const senderLink = sender._sender;
+
+    const tokenProvider = new RecordingTokenProvider();
+    await namespace.updateCredentials(tokenProvider);
+    tokenProvider.audiences.should.deep.equal(["sb://a.servicebus.windows.net/some-name"]);
+    should.equal(sender._sender, senderLink);
+    should.equal(sender.isOpen(), true);
+
+    await client.send({ body: "hello" });
+    await namespace.close();
+  });
+
+  it("throws for a connection string of another namespace", async function(): Promise<void> {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=c"
+    );
+    await namespace
+      .updateCredentials(
+        "Endpoint=sb://other.servicebus.windows.net/;SharedAccessKeyName=b;SharedAccessKey=d"
+      )
+      .should.be.rejectedWith(
+        "The connection string must be for the namespace 'a.servicebus.windows.net'."
+      );
+    await namespace.close();
+  });
+});
@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import chai from "chai";
+const should = chai.should();
+import { Server } from "net";
+import { Namespace, ConnectionState } from "../lib";
+import { TcpWebSocket, createListener } from "./testUtils";
+
+describe("AMQP over WebSockets", function(): void {
+  let server: Server;
+  beforeEach((done: Function) => {
+    server = createListener();
+    server.on("listening", () => {
+      TcpWebSocket.port = (server.address() as { port: number }).port;
+      TcpWebSocket.created = [];
+      done();
+    });
+  });
+  afterEach(() => {
+    server.close();
+  });
+
+  it("opens the connection through the provided WebSocket constructor", async function(): Promise<
+    void
+  > {
+    const namespace = Namespace.createFromConnectionString(
+      "Endpoint=sb://a.servicebus.windows.net;SharedAccessKeyName=b;SharedAccessKey=c",
+      { webSocket: { webSocketImpl: TcpWebSocket, webSocketConstructorOptions: { x: 1 } } }
+    );
+    let connected = false;
+    namespace.on(ConnectionState.connected, () => {
+      connected = true;
+    });
+    const client = namespace.createQueueClient("some-name");
+    await client.send({ body: "hello" });
+    await namespace.close();
+
+    should.equal(connected, true);
+    should.equal(TcpWebSocket.created.length, 1);
+    should.equal(
+      TcpWebSocket.created[0].url,
+      "wss://a.servicebus.windows.net:443/$servicebus/websocket"
+    );
+    TcpWebSocket.created[0].protocols!.should.deep.equal(["AMQPWSB10"]);
+    TcpWebSocket.created[0].options.should.deep.equal({ x: 1 });
+  });
+
+  it("throws when the WebSocket constructor is not a function", function(): void {
+    const test = function(): void {
+      Namespace.createFromConnectionString(
+        "Endpoint=sb://a;SharedAccessKeyName=b;SharedAccessKey=c",
+        { webSocket: { webSocketImpl: {} as any } }
+      );
+    };
+    test.should.throw(
+      Error,
+      "'webSocketImpl' is a required parameter and must be of type 'function'."
+    );
+  });
+});